@@ -0,0 +1,12 @@
+CREATE TABLE `geocode_cache` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`query` text NOT NULL,
+	`provider` text NOT NULL,
+	`lat` real NOT NULL,
+	`lon` real NOT NULL,
+	`display_name` text NOT NULL,
+	`bounding_box` text,
+	`fetched_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `geocode_cache_query_unique` ON `geocode_cache` (`query`);
\ No newline at end of file
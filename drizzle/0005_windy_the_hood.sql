@@ -0,0 +1,70 @@
+CREATE TABLE `gtfs_calendar` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`service_id` text NOT NULL,
+	`monday` integer NOT NULL,
+	`tuesday` integer NOT NULL,
+	`wednesday` integer NOT NULL,
+	`thursday` integer NOT NULL,
+	`friday` integer NOT NULL,
+	`saturday` integer NOT NULL,
+	`sunday` integer NOT NULL,
+	`start_date` text NOT NULL,
+	`end_date` text NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `gtfs_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `gtfs_feeds` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`imported_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `gtfs_feeds_name_unique` ON `gtfs_feeds` (`name`);--> statement-breakpoint
+CREATE TABLE `gtfs_routes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`route_id` text NOT NULL,
+	`short_name` text,
+	`long_name` text,
+	`route_type` integer NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `gtfs_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `gtfs_routes_feed_route_idx` ON `gtfs_routes` (`feed_id`,`route_id`);--> statement-breakpoint
+CREATE TABLE `gtfs_stop_times` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`trip_id` text NOT NULL,
+	`stop_id` text NOT NULL,
+	`stop_sequence` integer NOT NULL,
+	`arrival_time` integer NOT NULL,
+	`departure_time` integer NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `gtfs_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `gtfs_stop_times_feed_trip_idx` ON `gtfs_stop_times` (`feed_id`,`trip_id`);--> statement-breakpoint
+CREATE INDEX `gtfs_stop_times_departure_idx` ON `gtfs_stop_times` (`feed_id`,`departure_time`);--> statement-breakpoint
+CREATE TABLE `gtfs_stops` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`stop_id` text NOT NULL,
+	`name` text NOT NULL,
+	`lat` real NOT NULL,
+	`lon` real NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `gtfs_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `gtfs_stops_feed_stop_idx` ON `gtfs_stops` (`feed_id`,`stop_id`);--> statement-breakpoint
+CREATE INDEX `gtfs_stops_lat_lon_idx` ON `gtfs_stops` (`lat`,`lon`);--> statement-breakpoint
+CREATE TABLE `gtfs_trips` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`trip_id` text NOT NULL,
+	`route_id` text NOT NULL,
+	`service_id` text NOT NULL,
+	`headsign` text,
+	FOREIGN KEY (`feed_id`) REFERENCES `gtfs_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `gtfs_trips_feed_trip_idx` ON `gtfs_trips` (`feed_id`,`trip_id`);
\ No newline at end of file
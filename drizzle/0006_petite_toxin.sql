@@ -0,0 +1,2 @@
+ALTER TABLE `trips` ADD `origin_airport` text;--> statement-breakpoint
+ALTER TABLE `trips` ADD `destination_airport` text;
\ No newline at end of file
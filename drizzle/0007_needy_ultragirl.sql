@@ -0,0 +1 @@
+ALTER TABLE `trips` ADD `co2_kg` real;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `trips` ADD `time_mode` text DEFAULT 'depart_at' NOT NULL;
\ No newline at end of file
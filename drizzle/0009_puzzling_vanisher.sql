@@ -0,0 +1 @@
+ALTER TABLE `trips` ADD `route_preferences` text;
\ No newline at end of file
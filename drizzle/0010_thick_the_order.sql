@@ -0,0 +1 @@
+ALTER TABLE `trip_matches` ADD `score_breakdown` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `trips` ADD `departure_window` integer DEFAULT 30 NOT NULL;
\ No newline at end of file
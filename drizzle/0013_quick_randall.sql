@@ -0,0 +1,9 @@
+ALTER TABLE `trips` ADD `source_lat` real;--> statement-breakpoint
+ALTER TABLE `trips` ADD `source_lon` real;--> statement-breakpoint
+ALTER TABLE `trips` ADD `destination_lat` real;--> statement-breakpoint
+ALTER TABLE `trips` ADD `destination_lon` real;--> statement-breakpoint
+ALTER TABLE `trips` ADD `route_min_lat` real;--> statement-breakpoint
+ALTER TABLE `trips` ADD `route_max_lat` real;--> statement-breakpoint
+ALTER TABLE `trips` ADD `route_min_lon` real;--> statement-breakpoint
+ALTER TABLE `trips` ADD `route_max_lon` real;--> statement-breakpoint
+CREATE INDEX `trips_status_route_bounds_idx` ON `trips` (`status`,`route_min_lat`,`route_max_lat`);
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `gtfs_calendar_dates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`service_id` text NOT NULL,
+	`date` text NOT NULL,
+	`exception_type` integer NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `gtfs_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `gtfs_calendar_dates_date_idx` ON `gtfs_calendar_dates` (`date`);
\ No newline at end of file
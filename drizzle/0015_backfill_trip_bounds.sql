@@ -0,0 +1,18 @@
+-- Endpoints and a box around them for trips saved before the spatial columns;
+-- `src/db/backfill-trip-bounds.ts` widens the boxes to the stored routes
+UPDATE `trips` SET
+  `source_lat` = CAST(substr(`source_coordinates`, 1, instr(`source_coordinates`, ',') - 1) AS REAL),
+  `source_lon` = CAST(substr(`source_coordinates`, instr(`source_coordinates`, ',') + 1) AS REAL)
+WHERE `source_lat` IS NULL AND instr(`source_coordinates`, ',') > 0;--> statement-breakpoint
+UPDATE `trips` SET
+  `destination_lat` = CAST(substr(`destination_coordinates`, 1, instr(`destination_coordinates`, ',') - 1) AS REAL),
+  `destination_lon` = CAST(substr(`destination_coordinates`, instr(`destination_coordinates`, ',') + 1) AS REAL)
+WHERE `destination_lat` IS NULL AND instr(`destination_coordinates`, ',') > 0;--> statement-breakpoint
+UPDATE `trips` SET
+  `route_min_lat` = min(`source_lat`, `destination_lat`),
+  `route_max_lat` = max(`source_lat`, `destination_lat`),
+  `route_min_lon` = CASE WHEN abs(`source_lon` - `destination_lon`) > 180
+    THEN max(`source_lon`, `destination_lon`) ELSE min(`source_lon`, `destination_lon`) END,
+  `route_max_lon` = CASE WHEN abs(`source_lon` - `destination_lon`) > 180
+    THEN min(`source_lon`, `destination_lon`) ELSE max(`source_lon`, `destination_lon`) END
+WHERE `route_min_lat` IS NULL AND `source_lat` IS NOT NULL AND `destination_lat` IS NOT NULL;
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getRoutingProvider } from '@/lib/routing';
+import { parseLatLng } from '@/lib/routing/geo';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json({ 
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED' 
+      }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const point = parseLatLng(`${searchParams.get('lat')},${searchParams.get('lon')}`);
+
+    if (!point || Math.abs(point[0]) > 90 || Math.abs(point[1]) > 180) {
+      return NextResponse.json({ 
+        error: 'Valid lat and lon query parameters are required',
+        code: 'INVALID_COORDINATES' 
+      }, { status: 400 });
+    }
+
+    const { geocoder } = getRoutingProvider();
+    const result = await geocoder.reverse(point, { signal: request.signal });
+
+    if (!result) {
+      return NextResponse.json({ 
+        error: 'No address found at this location',
+        code: 'ADDRESS_NOT_FOUND' 
+      }, { status: 404 });
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('GET reverse geocode error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error')
+    }, { status: 500 });
+  }
+}
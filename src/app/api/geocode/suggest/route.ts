@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { trips } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { getRoutingProvider, type LatLng } from '@/lib/routing';
+import { parseLatLng } from '@/lib/routing/geo';
+import { rankSuggestions } from '@/lib/routing/geocode-suggest';
+
+const MIN_QUERY_LENGTH = 2;
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 10;
+
+// Where the user usually starts from: the origin of their latest trip
+async function userRegion(userId: string): Promise<LatLng | null> {
+  const latest = await db.select({ sourceCoordinates: trips.sourceCoordinates })
+    .from(trips)
+    .where(eq(trips.userId, userId))
+    .orderBy(desc(trips.createdAt))
+    .limit(1);
+
+  return parseLatLng(latest[0]?.sourceCoordinates);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json({ 
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED' 
+      }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const query = (searchParams.get('q') || '').trim();
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json({ suggestions: [] }, { status: 200 });
+    }
+
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT));
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ 
+        error: `limit must be between 1 and ${MAX_LIMIT}`,
+        code: 'INVALID_LIMIT' 
+      }, { status: 400 });
+    }
+
+    // Bias to an explicit point (e.g. the other end of the trip), else the user's region
+    const lat = searchParams.get('lat');
+    const lon = searchParams.get('lon');
+    let near: LatLng | null = null;
+    if (lat !== null || lon !== null) {
+      near = parseLatLng(`${lat},${lon}`);
+      if (!near) {
+        return NextResponse.json({ 
+          error: 'lat and lon must both be numbers',
+          code: 'INVALID_COORDINATES' 
+        }, { status: 400 });
+      }
+    } else {
+      near = await userRegion(session.user.id);
+    }
+
+    const { geocoder } = getRoutingProvider();
+    // Dropped unanswered if the client has moved on to a newer keystroke
+    const suggestions = await geocoder.suggest(query, { limit, near, signal: request.signal });
+
+    return NextResponse.json({ suggestions: rankSuggestions(suggestions, near).slice(0, limit) }, { status: 200 });
+  } catch (error) {
+    console.error('GET geocode suggest error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error')
+    }, { status: 500 });
+  }
+}
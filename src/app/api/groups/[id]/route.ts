@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { groups, groupMembers, user, trips } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import { decodeRouteGeometry, expandRouteData } from '@/lib/routing/route-storage';
 
 export async function GET(request: NextRequest) {
   try {
@@ -97,7 +98,11 @@ export async function GET(request: NextRequest) {
         .limit(1);
 
       if (tripResult.length > 0) {
-        tripDetails = tripResult[0];
+        tripDetails = {
+          ...tripResult[0],
+          routeGeometry: decodeRouteGeometry(tripResult[0].routeGeometry),
+          routeData: expandRouteData(tripResult[0].routeData, 'full', tripResult[0].routeGeometry),
+        };
       }
     }
 
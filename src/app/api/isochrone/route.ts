@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoutingProvider, type TransportMode } from '@/lib/routing';
+import { parseLatLng } from '@/lib/routing/geo';
+import { ISOCHRONE_MODES, MAX_ISOCHRONE_CONTOURS, MAX_ISOCHRONE_MINUTES } from '@/lib/routing/isochrone';
+
+// GET /api/isochrone?lat=..&lon=..&mode=car&minutes=10,20,30
+// Returns a GeoJSON FeatureCollection with one polygon per time budget
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const origin = parseLatLng(`${searchParams.get('lat')},${searchParams.get('lon')}`);
+
+    if (!origin || Math.abs(origin[0]) > 90 || Math.abs(origin[1]) > 180) {
+      return NextResponse.json({ 
+        error: 'Valid lat and lon query parameters are required',
+        code: 'INVALID_COORDINATES' 
+      }, { status: 400 });
+    }
+
+    const mode = (searchParams.get('mode') || 'car') as TransportMode;
+    if (!ISOCHRONE_MODES.includes(mode)) {
+      return NextResponse.json({ 
+        error: `mode must be one of: ${ISOCHRONE_MODES.join(', ')}`,
+        code: 'INVALID_MODE' 
+      }, { status: 400 });
+    }
+
+    const minutes = (searchParams.get('minutes') || '15').split(',').map(Number);
+    if (
+      minutes.length > MAX_ISOCHRONE_CONTOURS ||
+      minutes.some((budget) => !Number.isInteger(budget) || budget < 1 || budget > MAX_ISOCHRONE_MINUTES)
+    ) {
+      return NextResponse.json({ 
+        error: `minutes must be up to ${MAX_ISOCHRONE_CONTOURS} whole numbers between 1 and ${MAX_ISOCHRONE_MINUTES}`,
+        code: 'INVALID_MINUTES' 
+      }, { status: 400 });
+    }
+
+    const { router } = getRoutingProvider();
+    const isochrones = await router.isochrone(origin, mode, Array.from(new Set(minutes)));
+
+    if (!isochrones) {
+      return NextResponse.json({ 
+        error: 'Unable to calculate the reachable area from this location',
+        code: 'ISOCHRONE_FAILED' 
+      }, { status: 502 });
+    }
+
+    return NextResponse.json(isochrones, { status: 200 });
+  } catch (error) {
+    console.error('GET isochrone error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error')
+    }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { userProfiles } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import { parseInstructionSettings } from '@/lib/routing/instructions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -57,6 +58,15 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Direction language and units live in the travel preferences
+    const instructionSettings = parseInstructionSettings(travelPreferences);
+    if (typeof instructionSettings === 'string') {
+      return NextResponse.json({ 
+        error: instructionSettings,
+        code: 'INVALID_TRAVEL_PREFERENCES' 
+      }, { status: 400 });
+    }
+
     const existingProfile = await db.select()
       .from(userProfiles)
       .where(eq(userProfiles.userId, session.user.id))
@@ -1,204 +1,462 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  getRoutingProvider,
+  type Geocoder,
+  type LatLng,
+  type OptimizationMode,
+  type RouteInstruction,
+  type RoutePreferences,
+  type RouteResult,
+  type TimeMode,
+  type TransportMode,
+  type TripMode,
+} from "@/lib/routing";
+import { rankRoutes, routeCandidates, ROUTE_ALTERNATIVES } from "@/lib/routing/route-service";
+import { isLatLng } from "@/lib/routing/geo";
+import { estimateCost, type CostBreakdown, type CostOptions } from "@/lib/cost/model";
+import { estimateEmissions } from "@/lib/emissions/model";
+import {
+  describeTransitLegs,
+  isTransitMode,
+  planTransitJourney,
+  transitLegMode,
+  transitDistance,
+  transitGeometry,
+  type TransitItinerary,
+} from "@/lib/transit/planner";
+import { flightGeometry, MAX_AIRPORT_DISTANCE_KM, MIN_FLIGHT_DISTANCE_KM, planFlightJourney } from "@/lib/flight/planner";
+import type { Airport } from "@/lib/flight/airports";
+import { multimodalGeometry, planMultimodalJourney } from "@/lib/multimodal/planner";
+import {
+  buildSchedule,
+  localMidnight,
+  scheduleLegs,
+  TIME_MODES,
+  type ScheduleLeg,
+  type TimedLeg,
+  type TripSchedule,
+} from "@/lib/routing/schedule";
+import {
+  checkPreferences,
+  filterCompliantRoutes,
+  parseRoutePreferences,
+  type PreferenceCheck,
+} from "@/lib/routing/preferences";
+import { getElevationSource } from "@/lib/elevation";
+import { ELEVATION_MODES, elevationProfile, type ElevationProfile } from "@/lib/elevation/profile";
 
-type TransportMode = "car" | "cycling" | "walking" | "bus" | "train" | "flight";
-type OptimizationMode = "shortest" | "cheapest" | "fastest";
+// "independent": each boarding point gets its own route to the destination.
+// "sequential": boarding points are ordered pickup stops on one vehicle route.
+type WaypointMode = "independent" | "sequential";
 
 interface RouteRequest {
   boardingPoints: string[];
   destination: string;
-  transportMode: TransportMode;
+  // Coordinates the user already picked (suggestion or map click), by position;
+  // places without one are geocoded from their name
+  boardingPointCoordinates?: (LatLng | null)[];
+  destinationCoordinates?: LatLng | null;
+  transportMode: TripMode;
   optimizationMode: OptimizationMode;
+  waypointMode?: WaypointMode;
+  // Used for timetables, traffic and the schedule; defaults to now
+  travelDate?: string;
+  travelTime?: string;
+  // Whether travelTime is the departure (default) or the latest arrival
+  timeMode?: TimeMode;
+  // Liters per 100 km of the user's vehicle, for fuel cost
+  fuelEfficiency?: number;
+  // Roads to avoid and other routing constraints
+  preferences?: RoutePreferences;
 }
 
-interface RouteData {
+interface RouteStop {
+  name: string;
+  coordinates: LatLng;
+  type: "start" | "pickup" | "destination";
+}
+
+interface RouteLegData {
+  from: string;
+  to: string;
+  distance: number;
+  duration: number;
+  instructions: RouteInstruction[];
+  // Set when legs of one journey use different modes
+  mode?: TransportMode;
+  coordinates?: LatLng[];
+  cost?: number;
+  co2Kg?: number;
+}
+
+// Metrics for one candidate route, so the client can compare alternatives
+interface RouteAlternative {
+  rank: number;
   coordinates: [number, number][];
   distance: number;
   duration: number;
   cost: number;
-  mode: TransportMode;
-  instructions?: Array<{
-    distance: number;
-    duration: number;
-    instruction: string;
-    name: string;
-    type: string;
-  }>;
+  tollDistance: number;
+  label?: string;
 }
 
-// Map transport modes to OSRM profiles
-function mapToOSRMProfile(mode: TransportMode): string {
-  const profileMap: Record<TransportMode, string> = {
-    car: 'car',
-    cycling: 'bike',
-    walking: 'foot',
-    bus: 'car', // Fallback to car for bus
-    train: 'car', // Fallback to car for train
-    flight: 'car', // Fallback to car for flight
-  };
-  return profileMap[mode] || 'car';
+interface RouteData {
+  coordinates: [number, number][];
+  distance: number;
+  duration: number;
+  cost: number;
+  costBreakdown: CostBreakdown;
+  co2Kg: number;
+  mode: TripMode;
+  optimizationMode: OptimizationMode;
+  instructions?: RouteInstruction[];
+  stops?: RouteStop[];
+  legs?: RouteLegData[];
+  alternatives?: RouteAlternative[];
+  transit?: TransitItinerary;
+  flight?: { originAirport: Airport; destinationAirport: Airport };
+  // When the traveler leaves, reaches each stop and arrives
+  schedule?: TripSchedule | null;
+  // Whether each requested preference held on this route
+  preferenceChecks?: PreferenceCheck[];
+  // Cycling and walking routes, when elevation data covers them
+  elevation?: ElevationProfile;
 }
 
-// Geocoding function using Nominatim (OpenStreetMap)
-async function geocode(location: string): Promise<[number, number] | null> {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(location)}&limit=1`,
-      {
-        headers: {
-          'User-Agent': 'TravelCompanionApp/1.0',
-        },
-      }
-    );
+// Names shown for the two ends of a journey in its schedule
+interface EndpointNames {
+  origin: string;
+  destination: string;
+}
 
-    const data = await response.json();
-    
-    if (data && data.length > 0) {
-      const { lat, lon } = data[0];
-      return [parseFloat(lon), parseFloat(lat)];
-    }
-    return null;
-  } catch (error) {
-    console.error("Geocoding error:", error);
-    return null;
-  }
+// Use picked coordinates when given, so ambiguous names are not re-geocoded
+async function resolveLocation(geocoder: Geocoder, name: string, coordinates: unknown): Promise<LatLng | null> {
+  if (isLatLng(coordinates)) return coordinates;
+  return (await geocoder.geocode(name))?.coordinates || null;
 }
 
-// Calculate route using OSRM (Open Source Routing Machine)
-async function calculateRoute(
-  start: [number, number],
-  end: [number, number],
-  mode: TransportMode
-): Promise<{ coordinates: [number, number][]; distance: number; duration: number; instructions?: any[] } | null> {
-  try {
-    const profile = mapToOSRMProfile(mode);
-    const coords = `${start[0]},${start[1]};${end[0]},${end[1]}`;
-    
-    const response = await fetch(
-      `https://router.project-osrm.org/route/v1/${profile}/${coords}?overview=full&geometries=geojson&steps=true&alternatives=false`,
-      {
-        headers: {
-          'User-Agent': 'TravelCompanionApp/1.0',
+// Pick the best candidate for the optimization mode, keeping the ranked list
+function selectRoute(
+  route: RouteResult,
+  transportMode: TransportMode,
+  optimizationMode: OptimizationMode,
+  costOptions: Omit<CostOptions, "origin"> = {},
+  preferences: RoutePreferences = {}
+): { chosen: RouteResult; data: RouteData } {
+  const candidates = filterCompliantRoutes(routeCandidates(route), transportMode, preferences);
+  const ranked = rankRoutes(candidates, transportMode, optimizationMode, costOptions);
+  const [best] = ranked;
+
+  return {
+    chosen: best.route,
+    data: {
+      coordinates: best.route.coordinates,
+      distance: best.route.distance,
+      duration: best.route.duration,
+      cost: best.cost,
+      costBreakdown: best.costBreakdown,
+      co2Kg: estimateEmissions([{ mode: transportMode, distance: best.route.distance }]),
+      mode: transportMode,
+      optimizationMode,
+      instructions: best.route.instructions,
+      alternatives: ranked.map(({ route, cost, rank }) => ({
+        rank,
+        coordinates: route.coordinates,
+        distance: route.distance,
+        duration: route.duration,
+        cost,
+        tollDistance: route.tollDistance,
+      })),
+      preferenceChecks: checkPreferences(preferences, [
+        {
+          mode: transportMode,
+          distance: best.route.distance,
+          tollDistance: best.route.tollDistance,
+          appliedPreferences: best.route.appliedPreferences,
         },
-      }
-    );
+      ]),
+    },
+  };
+}
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('OSRM API error:', response.status, error);
-      return null;
-    }
+// Climbing slows cyclists and walkers: attach the elevation profile and add
+// its climbing time to the duration
+async function withElevation(data: RouteData, transportMode: TransportMode): Promise<RouteData> {
+  const source = getElevationSource();
+  if (!source || !ELEVATION_MODES.includes(transportMode)) return data;
 
-    const data = await response.json();
-    
-    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
-      console.error('No routes found in OSRM response:', data.code);
-      return null;
-    }
+  const elevation = await elevationProfile(source, data.coordinates, transportMode);
+  if (!elevation) return data;
+  return { ...data, duration: data.duration + elevation.climbingTime, elevation };
+}
 
-    const route = data.routes[0];
-    
-    // Extract coordinates from GeoJSON geometry (already in [lon, lat] format)
-    const coordinates: [number, number][] = route.geometry.coordinates.map(
-      (coord: number[]) => [coord[1], coord[0]] // Convert [lon, lat] to [lat, lon] for Leaflet
-    );
-    
-    // Extract turn-by-turn instructions from legs
-    const instructions: any[] = [];
-    if (route.legs && route.legs[0]?.steps) {
-      route.legs[0].steps.forEach((step: any) => {
-        if (step.maneuver) {
-          const instruction = formatManeuver(step.maneuver, step.name);
-          instructions.push({
-            distance: step.distance,
-            duration: step.duration,
-            instruction: instruction,
-            name: step.name || 'Unnamed road',
-            type: step.maneuver.type,
-          });
-        }
-      });
-    }
+// Requested travel time, defaulting to departing now
+function requestedTimeOf({ travelDate, travelTime, timeMode }: RouteRequest) {
+  const now = new Date().toISOString();
+  return {
+    travelDate: travelDate || now.slice(0, 10),
+    travelTime: travelTime || now.slice(11, 16),
+    timeMode: timeMode || ("depart_at" as TimeMode),
+  };
+}
 
-    return {
-      coordinates: coordinates,
-      distance: route.distance, // in meters
-      duration: route.duration, // in seconds
-      instructions: instructions,
-    };
-  } catch (error) {
-    console.error("Route calculation error:", error);
-    return null;
-  }
+// Timetabled legs are timed from midnight of the travel date
+function timetableSchedule(request: RouteRequest, legs: TimedLeg[], names: EndpointNames): TripSchedule | null {
+  const { travelDate, timeMode } = requestedTimeOf(request);
+  const midnight = localMidnight(travelDate);
+  if (midnight === null) return null;
+  return buildSchedule(
+    timeMode,
+    legs.map((leg) => ({ ...leg, departureTime: midnight + leg.departureTime, arrivalTime: midnight + leg.arrivalTime })),
+    names
+  );
 }
 
-// Format OSRM maneuver into human-readable instruction
-function formatManeuver(maneuver: any, roadName: string): string {
-  const name = roadName || 'the road';
-  
-  switch (maneuver.type) {
-    case 'depart':
-      return `Head ${getDirection(maneuver.bearing_after)} on ${name}`;
-    case 'arrive':
-      return `Arrive at your destination`;
-    case 'turn':
-      if (maneuver.modifier === 'left') return `Turn left onto ${name}`;
-      if (maneuver.modifier === 'right') return `Turn right onto ${name}`;
-      if (maneuver.modifier === 'sharp left') return `Sharp left onto ${name}`;
-      if (maneuver.modifier === 'sharp right') return `Sharp right onto ${name}`;
-      if (maneuver.modifier === 'slight left') return `Slight left onto ${name}`;
-      if (maneuver.modifier === 'slight right') return `Slight right onto ${name}`;
-      return `Turn onto ${name}`;
-    case 'continue':
-      return `Continue on ${name}`;
-    case 'merge':
-      return `Merge onto ${name}`;
-    case 'on ramp':
-      return `Take the ramp onto ${name}`;
-    case 'off ramp':
-      return `Take the exit onto ${name}`;
-    case 'fork':
-      if (maneuver.modifier === 'left') return `Keep left at the fork onto ${name}`;
-      if (maneuver.modifier === 'right') return `Keep right at the fork onto ${name}`;
-      return `Continue at the fork onto ${name}`;
-    case 'roundabout':
-    case 'rotary':
-      const exit = maneuver.exit || 1;
-      return `At the roundabout, take exit ${exit} onto ${name}`;
-    case 'end of road':
-      if (maneuver.modifier === 'left') return `At the end of the road, turn left onto ${name}`;
-      if (maneuver.modifier === 'right') return `At the end of the road, turn right onto ${name}`;
-      return `At the end of the road, continue onto ${name}`;
-    default:
-      return `Continue on ${name}`;
-  }
+// Road legs are timed with the time-of-day traffic profile
+function scheduleOf(request: RouteRequest, legs: ScheduleLeg[], names?: EndpointNames): TripSchedule | null {
+  const { travelDate, travelTime, timeMode } = requestedTimeOf(request);
+  return scheduleLegs(legs, travelDate, travelTime, timeMode, names);
+}
+
+// Plan a timetable-based journey for bus and train modes
+async function calculateTransitRoute(
+  origin: LatLng,
+  destination: LatLng,
+  request: RouteRequest,
+  names: EndpointNames
+): Promise<RouteData | null> {
+  const { transportMode, optimizationMode, fuelEfficiency } = request;
+  if (!isTransitMode(transportMode)) return null;
+
+  const itinerary = await planTransitJourney({
+    origin,
+    destination,
+    mode: transportMode,
+    ...requestedTimeOf(request),
+    maxWalkingDistance: request.preferences?.maxWalkingDistance,
+  });
+  if (!itinerary) return null;
+
+  // Every ride is a separate boarding with its own fare
+  const segments = itinerary.legs.map((leg) => ({
+    mode: transitLegMode(leg, transportMode),
+    distance: leg.distance,
+    tollDistance: 0,
+  }));
+  const costBreakdown = estimateCost(segments, { origin, fuelEfficiency });
+
+  return {
+    coordinates: transitGeometry(itinerary),
+    distance: transitDistance(itinerary),
+    duration: itinerary.duration,
+    cost: costBreakdown.total,
+    costBreakdown,
+    co2Kg: estimateEmissions(segments),
+    mode: transportMode,
+    optimizationMode,
+    instructions: describeTransitLegs(itinerary),
+    transit: itinerary,
+    preferenceChecks: checkPreferences(request.preferences || {}, segments),
+    schedule: timetableSchedule(
+      request,
+      itinerary.legs.map((leg) => ({
+        from: leg.from.name,
+        to: leg.to.name,
+        departureTime: leg.departureTime,
+        arrivalTime: leg.arrivalTime,
+      })),
+      names
+    ),
+  };
 }
 
-// Get cardinal direction from bearing
-function getDirection(bearing: number): string {
-  const directions = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
-  const index = Math.round(bearing / 45) % 8;
-  return directions[index];
+// Drive to the nearest suitable airport, fly, then drive to the destination
+async function calculateFlightRoute(
+  origin: LatLng,
+  destination: LatLng,
+  request: RouteRequest,
+  names: EndpointNames
+): Promise<RouteData | null> {
+  const { transportMode, optimizationMode, fuelEfficiency } = request;
+  const { router } = getRoutingProvider();
+  const itinerary = await planFlightJourney(origin, destination, router, request.preferences);
+  if (!itinerary) return null;
+
+  const segments = itinerary.legs.map((leg) => ({
+    mode: leg.type === "air" ? ("flight" as const) : ("car" as const),
+    distance: leg.distance,
+    tollDistance: leg.tollDistance,
+  }));
+  const costBreakdown = estimateCost(segments, { origin, fuelEfficiency });
+
+  return {
+    coordinates: flightGeometry(itinerary),
+    distance: itinerary.distance,
+    duration: itinerary.duration,
+    cost: costBreakdown.total,
+    costBreakdown,
+    co2Kg: estimateEmissions(segments),
+    mode: transportMode,
+    optimizationMode,
+    instructions: itinerary.legs.flatMap((leg) => leg.instructions),
+    legs: itinerary.legs.map(({ from, to, distance, duration, instructions }) => ({
+      from,
+      to,
+      distance,
+      duration,
+      instructions,
+    })),
+    flight: {
+      originAirport: itinerary.originAirport,
+      destinationAirport: itinerary.destinationAirport,
+    },
+    preferenceChecks: checkPreferences(
+      request.preferences || {},
+      itinerary.legs.map((leg, index) => ({ ...segments[index], appliedPreferences: leg.appliedPreferences }))
+    ),
+    // Drives to and from the airports are subject to traffic
+    schedule: scheduleOf(
+      request,
+      itinerary.legs.map((leg, index) => ({
+        from: leg.from,
+        to: leg.to,
+        mode: segments[index].mode,
+        duration: leg.duration,
+      })),
+      names
+    ),
+  };
 }
 
-// Estimate cost based on distance and mode
-function estimateCost(distanceKm: number, mode: TransportMode): number {
-  const costPerKm: Record<TransportMode, number> = {
-    car: 0.5,
-    cycling: 0,
-    walking: 0,
-    bus: 0.15,
-    train: 0.25,
-    flight: 0.8,
+// Combine walking, cycling, driving and transit legs; the best combination
+// for the optimization mode is returned with the others as alternatives
+async function calculateMultimodalRoute(
+  origin: LatLng,
+  destination: LatLng,
+  request: RouteRequest,
+  names: EndpointNames
+): Promise<RouteData | null> {
+  const { router } = getRoutingProvider();
+  const itineraries = await planMultimodalJourney(
+    {
+      origin,
+      destination,
+      optimizationMode: request.optimizationMode,
+      fuelEfficiency: request.fuelEfficiency,
+      preferences: request.preferences,
+      ...requestedTimeOf(request),
+    },
+    router
+  );
+  if (itineraries.length === 0) return null;
+
+  const [best] = itineraries;
+  return {
+    coordinates: multimodalGeometry(best),
+    distance: best.distance,
+    duration: best.duration,
+    cost: best.cost,
+    costBreakdown: best.costBreakdown,
+    co2Kg: best.co2Kg,
+    mode: "multimodal",
+    optimizationMode: request.optimizationMode,
+    instructions: best.legs.flatMap((leg) => leg.instructions),
+    legs: best.legs.map((leg) => ({
+      from: leg.from,
+      to: leg.to,
+      distance: leg.distance,
+      duration: leg.duration,
+      instructions: leg.instructions,
+      mode: leg.mode,
+      coordinates: leg.coordinates,
+      cost: leg.cost,
+      co2Kg: leg.co2Kg,
+    })),
+    alternatives: itineraries.map((itinerary, index) => ({
+      rank: index + 1,
+      coordinates: multimodalGeometry(itinerary),
+      distance: itinerary.distance,
+      duration: itinerary.duration,
+      cost: itinerary.cost,
+      tollDistance: itinerary.legs.reduce((sum, leg) => sum + leg.tollDistance, 0),
+      label: itinerary.label,
+    })),
+    schedule: timetableSchedule(request, best.legs, names),
+    preferenceChecks: checkPreferences(request.preferences || {}, best.legs),
   };
-  
-  const rate = costPerKm[mode] || 0.3;
-  return distanceKm * rate;
+}
+
+// Route start -> pickup 1 -> ... -> destination as one vehicle itinerary
+async function calculateSequentialRoute(request: RouteRequest & { transportMode: TransportMode }) {
+  const { boardingPoints, destination, transportMode, optimizationMode, fuelEfficiency } = request;
+  const { geocoder, router } = getRoutingProvider();
+  const names = [...boardingPoints, destination];
+  const pickedCoordinates = [...boardingPoints.map((_, i) => request.boardingPointCoordinates?.[i]), request.destinationCoordinates];
+
+  const stops: RouteStop[] = [];
+  for (let i = 0; i < names.length; i++) {
+    const coordinates = await resolveLocation(geocoder, names[i], pickedCoordinates[i]);
+    if (!coordinates) {
+      return NextResponse.json(
+        { error: `Unable to find "${names[i]}". Please use a more specific address (e.g., 'New York, NY, USA')` },
+        { status: 400 }
+      );
+    }
+    stops.push({
+      name: names[i],
+      coordinates,
+      type: i === 0 ? "start" : i === names.length - 1 ? "destination" : "pickup",
+    });
+  }
+
+  const route = await router.route(
+    stops.map((stop) => stop.coordinates),
+    transportMode,
+    { alternatives: ROUTE_ALTERNATIVES, preferences: request.preferences }
+  );
+  if (!route) {
+    return NextResponse.json(
+      { error: "Unable to calculate route. Please try different locations or transport mode." },
+      { status: 400 }
+    );
+  }
+
+  // Everyone picked up shares the vehicle's running costs
+  const selected = selectRoute(
+    route,
+    transportMode,
+    optimizationMode,
+    { passengers: boardingPoints.length, fuelEfficiency },
+    request.preferences
+  );
+  const { chosen } = selected;
+  const data = await withElevation(selected.data, transportMode);
+
+  // Climbing time is spread over the legs in proportion to their duration
+  const climbFactor = selected.data.duration > 0 ? data.duration / selected.data.duration : 1;
+  const legs: RouteLegData[] = chosen.legs.map((leg, index) => ({
+    from: stops[index].name,
+    to: stops[index + 1].name,
+    distance: leg.distance,
+    duration: leg.duration * climbFactor,
+    instructions: leg.instructions,
+  }));
+
+  // Pickup times along the way, with the time-of-day traffic profile applied
+  const schedule = scheduleOf(
+    request,
+    legs.map((leg) => ({ from: leg.from, to: leg.to, mode: transportMode, duration: leg.duration }))
+  );
+
+  const routes: RouteData[] = [{ ...data, stops, legs, schedule }];
+
+  return NextResponse.json({ routes });
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: RouteRequest = await request.json();
-    const { boardingPoints, destination, transportMode, optimizationMode } = body;
+    const { boardingPoints, destination, transportMode, optimizationMode = "fastest", waypointMode = "independent" } = body;
 
     // Validate input
     if (!boardingPoints || boardingPoints.length === 0) {
@@ -215,63 +473,124 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Geocode all locations
-    const startCoords = await geocode(boardingPoints[0]);
-    const destCoords = await geocode(destination);
+    if (body.fuelEfficiency !== undefined && !(typeof body.fuelEfficiency === "number" && body.fuelEfficiency > 0)) {
+      return NextResponse.json(
+        { error: "Fuel efficiency must be a positive number of liters per 100 km" },
+        { status: 400 }
+      );
+    }
 
-    if (!startCoords || !destCoords) {
+    if (body.timeMode !== undefined && !TIME_MODES.includes(body.timeMode)) {
+      return NextResponse.json(
+        { error: `timeMode must be one of: ${TIME_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const preferences = parseRoutePreferences(body.preferences);
+    if (typeof preferences === "string") {
+      return NextResponse.json(
+        { error: preferences },
+        { status: 400 }
+      );
+    }
+    body.preferences = preferences;
+
+    if (waypointMode === "sequential") {
+      if (isTransitMode(transportMode) || transportMode === "flight" || transportMode === "multimodal") {
+        return NextResponse.json(
+          { error: "Pickup stops are only supported for car, cycling and walking trips" },
+          { status: 400 }
+        );
+      }
+      return calculateSequentialRoute({ ...body, transportMode, optimizationMode });
+    }
+
+    const { geocoder, router } = getRoutingProvider();
+
+    // Geocode the destination once; each boarding point is routed to it independently
+    const destCoords = await resolveLocation(geocoder, destination, body.destinationCoordinates);
+
+    if (!destCoords) {
       return NextResponse.json(
         { error: "Unable to find one or more locations. Please use more specific addresses (e.g., 'New York, NY, USA')" },
         { status: 400 }
       );
     }
 
-    // Calculate routes for the selected transport mode
     const routes: RouteData[] = [];
 
-    // Main route
-    const mainRoute = await calculateRoute(startCoords, destCoords, transportMode);
-    if (mainRoute) {
-      const distance = mainRoute.distance;
-      const duration = mainRoute.duration;
-      let cost = estimateCost(distance / 1000, transportMode);
+    for (let i = 0; i < boardingPoints.length; i++) {
+      const pointCoords = await resolveLocation(geocoder, boardingPoints[i], body.boardingPointCoordinates?.[i]);
+      if (!pointCoords) {
+        // The main boarding point must resolve; additional ones are best effort
+        if (i === 0) {
+          return NextResponse.json(
+            { error: "Unable to find one or more locations. Please use more specific addresses (e.g., 'New York, NY, USA')" },
+            { status: 400 }
+          );
+        }
+        continue;
+      }
 
-      // Adjust based on optimization mode
-      if (optimizationMode === "cheapest") {
-        cost = cost * 0.8; // Apply discount for cheapest route
+      const names = { origin: boardingPoints[i], destination };
+
+      if (isTransitMode(transportMode)) {
+        const transitRoute = await calculateTransitRoute(pointCoords, destCoords, { ...body, optimizationMode }, names);
+        if (transitRoute) {
+          routes.push(transitRoute);
+        }
+        continue;
       }
 
-      routes.push({
-        coordinates: mainRoute.coordinates,
-        distance: mainRoute.distance,
-        duration: mainRoute.duration,
-        cost,
-        mode: transportMode,
-        instructions: mainRoute.instructions,
-      });
-    }
+      if (transportMode === "multimodal") {
+        const multimodalRoute = await calculateMultimodalRoute(pointCoords, destCoords, { ...body, optimizationMode }, names);
+        if (multimodalRoute) {
+          routes.push(multimodalRoute);
+        }
+        continue;
+      }
 
-    // If multiple boarding points, calculate additional routes
-    for (let i = 1; i < boardingPoints.length; i++) {
-      const pointCoords = await geocode(boardingPoints[i]);
-      if (pointCoords) {
-        const route = await calculateRoute(pointCoords, destCoords, transportMode);
-        if (route) {
-          routes.push({
-            coordinates: route.coordinates,
-            distance: route.distance,
-            duration: route.duration,
-            cost: estimateCost(route.distance / 1000, transportMode),
-            mode: transportMode,
-            instructions: route.instructions,
-          });
+      if (transportMode === "flight") {
+        const flightRoute = await calculateFlightRoute(pointCoords, destCoords, { ...body, optimizationMode }, names);
+        if (flightRoute) {
+          routes.push(flightRoute);
         }
+        continue;
+      }
+
+      const route = await router.route([pointCoords, destCoords], transportMode, {
+        alternatives: ROUTE_ALTERNATIVES,
+        preferences,
+      });
+      if (route) {
+        const selected = selectRoute(
+          route,
+          transportMode,
+          optimizationMode,
+          { fuelEfficiency: body.fuelEfficiency },
+          preferences
+        );
+        const data = await withElevation(selected.data, transportMode);
+        routes.push({
+          ...data,
+          schedule: scheduleOf(
+            body,
+            [{ from: names.origin, to: names.destination, mode: transportMode, duration: data.duration }]
+          ),
+        });
       }
     }
 
     if (routes.length === 0) {
       return NextResponse.json(
-        { error: "Unable to calculate route. Please try different locations or transport mode." },
+        {
+          error: isTransitMode(transportMode)
+            ? "No public transit itinerary found for this date and time. Try a different time or transport mode."
+            : transportMode === "flight"
+              ? `No flight found. Both ends need an airport within ${MAX_AIRPORT_DISTANCE_KM} km, at least ${MIN_FLIGHT_DISTANCE_KM} km apart.`
+              : "Unable to calculate route. Please try different locations or transport mode.",
+        },
         { status: 400 }
       );
     }
@@ -284,4 +603,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { trips } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import type { LatLng, RouteInstruction } from '@/lib/routing';
+import { parseLatLng } from '@/lib/routing/geo';
+import { decodeRouteGeometry, expandRouteData } from '@/lib/routing/route-storage';
+import { EXPORT_FORMATS, exportRoute, type ExportFormat, type ExportWaypoint } from '@/lib/route-files/export';
+import type { Airport } from '@/lib/flight/airports';
+
+// What the export reads from a trip's first planned route
+interface PlannedRoute {
+  coordinates?: LatLng[];
+  stops?: ExportWaypoint[];
+  instructions?: RouteInstruction[];
+  flight?: { originAirport: Airport; destinationAirport: Airport };
+}
+
+// GET /api/trips/:id/export?format=gpx|kml|geojson
+// Downloads the trip's route, stops and turn instructions
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract trip ID from URL path
+    const tripIdParam = request.nextUrl.pathname.split('/')[3];
+
+    if (!tripIdParam || isNaN(parseInt(tripIdParam))) {
+      return NextResponse.json(
+        { error: 'Valid trip ID is required', code: 'INVALID_TRIP_ID' },
+        { status: 400 }
+      );
+    }
+
+    const tripId = parseInt(tripIdParam);
+
+    const format = (request.nextUrl.searchParams.get('format') || 'gpx').toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}`, code: 'INVALID_FORMAT' },
+        { status: 400 }
+      );
+    }
+
+    const tripResult = await db.select()
+      .from(trips)
+      .where(eq(trips.id, tripId))
+      .limit(1);
+
+    if (tripResult.length === 0) {
+      return NextResponse.json(
+        { error: 'Trip not found', code: 'TRIP_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const trip = tripResult[0];
+
+    if (trip.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: You do not own this trip', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    // The first planned route carries the stops and instructions shown in the
+    // app. Its line goes through any pickups, so it is exported rather than
+    // the trip's direct route whenever it has one.
+    const routeData = expandRouteData(trip.routeData, 'full', trip.routeGeometry);
+    const planned: PlannedRoute | null = Array.isArray(routeData) ? routeData[0] ?? null : null;
+    const geometry: LatLng[] = planned?.coordinates && planned.coordinates.length >= 2
+      ? planned.coordinates
+      : decodeRouteGeometry(trip.routeGeometry) || [];
+
+    if (geometry.length < 2) {
+      return NextResponse.json(
+        { error: 'Trip has no route to export', code: 'NO_ROUTE' },
+        { status: 400 }
+      );
+    }
+
+    const waypoints: ExportWaypoint[] = Array.isArray(planned?.stops)
+      ? planned.stops.map((stop) => ({ name: stop.name, coordinates: stop.coordinates, type: stop.type }))
+      : [
+          { name: trip.source, coordinates: parseLatLng(trip.sourceCoordinates) || geometry[0], type: 'start' },
+          {
+            name: trip.destination,
+            coordinates: parseLatLng(trip.destinationCoordinates) || geometry[geometry.length - 1],
+            type: 'destination',
+          },
+        ];
+    if (planned?.flight) {
+      for (const airport of [planned.flight.originAirport, planned.flight.destinationAirport]) {
+        waypoints.push({ name: `${airport.iata} ${airport.name}`, coordinates: airport.coordinates, type: 'airport' });
+      }
+    }
+
+    const instructions = Array.isArray(planned?.instructions) ? planned.instructions : [];
+
+    const { body, contentType } = exportRoute(
+      {
+        name: `${trip.source} to ${trip.destination}`,
+        description: `${trip.transportMode} trip on ${trip.travelDate} at ${trip.travelTime}`,
+        geometry,
+        waypoints,
+        instructions,
+      },
+      format
+    );
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="trip-${trip.id}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('GET trip export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
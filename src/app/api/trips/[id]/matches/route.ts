@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { trips, tripMatches, user } from '@/db/schema';
 import { eq, desc } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import { expandRouteData } from '@/lib/routing/route-storage';
 
 export async function GET(request: NextRequest) {
   try {
@@ -58,6 +59,7 @@ export async function GET(request: NextRequest) {
       .select({
         matchId: tripMatches.id,
         matchScore: tripMatches.matchScore,
+        scoreBreakdown: tripMatches.scoreBreakdown,
         status: tripMatches.status,
         matchedTrip: {
           id: trips.id,
@@ -66,6 +68,8 @@ export async function GET(request: NextRequest) {
           destination: trips.destination,
           travelDate: trips.travelDate,
           travelTime: trips.travelTime,
+          timeMode: trips.timeMode,
+          departureWindow: trips.departureWindow,
           transportMode: trips.transportMode,
           optimizationMode: trips.optimizationMode,
           status: trips.status,
@@ -85,7 +89,14 @@ export async function GET(request: NextRequest) {
       .where(eq(tripMatches.tripId, tripId))
       .orderBy(desc(tripMatches.matchScore));
 
-    return NextResponse.json(matches, { status: 200 });
+    // Matched routes are summarized, not drawn, so their geometry is left out
+    return NextResponse.json(
+      matches.map((match) => ({
+        ...match,
+        matchedTrip: { ...match.matchedTrip, routeData: expandRouteData(match.matchedTrip.routeData, 'none') },
+      })),
+      { status: 200 }
+    );
   } catch (error) {
     console.error('GET trip matches error:', error);
     return NextResponse.json(
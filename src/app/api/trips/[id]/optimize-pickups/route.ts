@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { trips, tripMatches, user } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { getRoutingProvider, type LatLng, type TransportMode } from '@/lib/routing';
+import { parseLatLng } from '@/lib/routing/geo';
+import { optimizePickupOrder, type PickupObjective } from '@/lib/routing/pickup-order';
+import { formatLocalTime, parseLocalTime } from '@/lib/routing/schedule';
+
+const OBJECTIVES: PickupObjective[] = ['driver_time', 'rider_wait'];
+
+interface Stop {
+  type: 'start' | 'pickup' | 'destination';
+  name: string;
+  coordinates: LatLng;
+  tripId: number;
+  userName?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authentication check
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract trip ID from URL path
+    const tripIdParam = request.nextUrl.pathname.split('/')[3];
+
+    if (!tripIdParam || isNaN(parseInt(tripIdParam))) {
+      return NextResponse.json(
+        { error: 'Valid trip ID is required', code: 'INVALID_TRIP_ID' },
+        { status: 400 }
+      );
+    }
+
+    const tripId = parseInt(tripIdParam);
+
+    const body = await request.json().catch(() => ({}));
+    const objective: PickupObjective = body.objective || 'driver_time';
+
+    if (!OBJECTIVES.includes(objective)) {
+      return NextResponse.json(
+        { error: `objective must be one of: ${OBJECTIVES.join(', ')}`, code: 'INVALID_OBJECTIVE' },
+        { status: 400 }
+      );
+    }
+
+    const tripResult = await db.select()
+      .from(trips)
+      .where(eq(trips.id, tripId))
+      .limit(1);
+
+    if (tripResult.length === 0) {
+      return NextResponse.json(
+        { error: 'Trip not found', code: 'TRIP_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const trip = tripResult[0];
+
+    if (trip.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: You do not own this trip', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const origin = parseLatLng(trip.sourceCoordinates);
+    const destination = parseLatLng(trip.destinationCoordinates);
+
+    if (!origin || !destination) {
+      return NextResponse.json(
+        { error: 'Trip has no resolved coordinates', code: 'MISSING_COORDINATES' },
+        { status: 400 }
+      );
+    }
+
+    // Boarding points of every accepted companion
+    const accepted = await db.select({
+      tripId: trips.id,
+      source: trips.source,
+      sourceCoordinates: trips.sourceCoordinates,
+      userName: user.name,
+    })
+      .from(tripMatches)
+      .innerJoin(trips, eq(tripMatches.matchedTripId, trips.id))
+      .innerJoin(user, eq(trips.userId, user.id))
+      .where(
+        and(
+          eq(tripMatches.tripId, tripId),
+          eq(tripMatches.status, 'accepted')
+        )
+      );
+
+    const pickups: Stop[] = [];
+    for (const companion of accepted) {
+      const coordinates = parseLatLng(companion.sourceCoordinates);
+      if (coordinates) {
+        pickups.push({
+          type: 'pickup',
+          name: companion.source,
+          coordinates,
+          tripId: companion.tripId,
+          userName: companion.userName,
+        });
+      }
+    }
+
+    const stops: Stop[] = [
+      { type: 'start', name: trip.source, coordinates: origin, tripId: trip.id },
+      ...pickups,
+      { type: 'destination', name: trip.destination, coordinates: destination, tripId: trip.id },
+    ];
+
+    const { router } = getRoutingProvider();
+    const matrix = await router.matrix(stops.map((stop) => stop.coordinates), trip.transportMode as TransportMode);
+
+    if (!matrix) {
+      return NextResponse.json(
+        { error: 'Unable to compute travel times between stops', code: 'MATRIX_FAILED' },
+        { status: 502 }
+      );
+    }
+
+    const result = optimizePickupOrder(matrix.durations, objective);
+
+    if (!isFinite(result.driverTime)) {
+      return NextResponse.json(
+        { error: 'One or more pickups cannot be reached', code: 'UNREACHABLE_STOP' },
+        { status: 400 }
+      );
+    }
+
+    // Arrive-by trips leave early enough to reach the destination on time
+    const requested = parseLocalTime(trip.travelDate, trip.travelTime);
+    const start = requested === null ? null : trip.timeMode === 'arrive_by' ? requested - result.driverTime : requested;
+    const sequence = result.order.map((index, position) => ({
+      ...stops[index],
+      arrivalOffset: result.arrivalOffsets[position],
+      eta: start === null ? null : formatLocalTime(start + result.arrivalOffsets[position]),
+    }));
+
+    return NextResponse.json({
+      objective,
+      exact: result.exact,
+      totalDriverTime: result.driverTime,
+      totalRiderWait: result.riderWait,
+      sequence,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('POST optimize pickups error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
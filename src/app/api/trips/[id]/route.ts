@@ -3,6 +3,17 @@ import { db } from '@/db';
 import { trips, tripMatches, groups, groupMembers } from '@/db/schema';
 import { eq, and, or } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import { splitCost, type CostBreakdown } from '@/lib/cost/model';
+import { co2SavedBySharing } from '@/lib/emissions/model';
+import { parseMaxDetour } from '@/lib/matching/detour';
+import { parseDepartureWindow } from '@/lib/matching/time-window';
+import { tripSpatialColumns } from '@/lib/matching/spatial';
+import { getRoutingProvider, type LatLng, type TimeMode } from '@/lib/routing';
+import { scheduleLegs, TIME_MODES } from '@/lib/routing/schedule';
+import { formatLatLng, isLatLng, parseLatLng } from '@/lib/routing/geo';
+import { parseRoutePreferences } from '@/lib/routing/preferences';
+import { compactRouteData, decodeRouteGeometry, encodeRouteGeometry, expandRouteData } from '@/lib/routing/route-storage';
+import { planTripRoute } from '@/lib/trips/planner';
 
 export async function GET(request: NextRequest) {
   try {
@@ -66,10 +77,13 @@ export async function GET(request: NextRequest) {
       destination: trips.destination,
       travelDate: trips.travelDate,
       travelTime: trips.travelTime,
+      timeMode: trips.timeMode,
+      departureWindow: trips.departureWindow,
       transportMode: trips.transportMode,
       optimizationMode: trips.optimizationMode,
       status: trips.status,
       routeData: trips.routeData,
+      co2Kg: trips.co2Kg,
       createdAt: trips.createdAt,
       updatedAt: trips.updatedAt,
     })
@@ -98,10 +112,14 @@ export async function GET(request: NextRequest) {
         destination: match.destination,
         travelDate: match.travelDate,
         travelTime: match.travelTime,
+        timeMode: match.timeMode,
+        departureWindow: match.departureWindow,
         transportMode: match.transportMode,
         optimizationMode: match.optimizationMode,
         status: match.status,
-        routeData: match.routeData,
+        // Companions' routes are not drawn here; keep their summaries only
+        routeData: expandRouteData(match.routeData, 'none'),
+        co2Kg: match.co2Kg,
         createdAt: match.createdAt,
         updatedAt: match.updatedAt,
       }
@@ -147,11 +165,26 @@ export async function GET(request: NextRequest) {
       };
     }
 
+    // Running costs are shared with every accepted companion
+    const storedRoutes = trip[0].routeData as { costBreakdown?: CostBreakdown }[] | null;
+    const storedBreakdown = Array.isArray(storedRoutes) ? storedRoutes[0]?.costBreakdown : undefined;
+    const acceptedCompanions = matchedTrips.filter(match => match.matchStatus === 'accepted').length;
+    const costBreakdown = storedBreakdown ? splitCost(storedBreakdown, 1 + acceptedCompanions) : null;
+
+    // Emissions avoided by sharing with accepted companions
+    const co2Saved = matchedTrips
+      .filter(match => match.matchStatus === 'accepted')
+      .reduce((sum, match) => sum + co2SavedBySharing(trip[0], match.trip), 0);
+
     // Return trip with nested data
     return NextResponse.json({
       ...trip[0],
+      routeGeometry: decodeRouteGeometry(trip[0].routeGeometry),
+      routeData: expandRouteData(trip[0].routeData, 'full', trip[0].routeGeometry),
       matchedTrips,
       group: groupInfo,
+      costBreakdown,
+      co2Saved,
     }, { status: 200 });
 
   } catch (error) {
@@ -226,6 +259,10 @@ export async function PUT(request: NextRequest) {
       'destination',
       'travelDate',
       'travelTime',
+      'timeMode',
+      'departureWindow',
+      'maxDetour',
+      'routePreferences',
       'transportMode',
       'optimizationMode',
       'routeData'
@@ -237,13 +274,155 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    if ('routePreferences' in updates) {
+      const routePreferences = parseRoutePreferences(updates.routePreferences);
+      if (typeof routePreferences === 'string') {
+        return NextResponse.json({ 
+          error: routePreferences,
+          code: 'INVALID_PREFERENCES' 
+        }, { status: 400 });
+      }
+      updates.routePreferences = Object.keys(routePreferences).length > 0 ? routePreferences : null;
+    }
+
+    if ('timeMode' in updates && !TIME_MODES.includes(updates.timeMode)) {
+      return NextResponse.json({ 
+        error: `timeMode must be one of: ${TIME_MODES.join(', ')}`,
+        code: 'INVALID_TIME_MODE' 
+      }, { status: 400 });
+    }
+
+    if ('departureWindow' in updates) {
+      const departureWindow = parseDepartureWindow(updates.departureWindow);
+      if (typeof departureWindow === 'string') {
+        return NextResponse.json({ 
+          error: departureWindow,
+          code: 'INVALID_DEPARTURE_WINDOW' 
+        }, { status: 400 });
+      }
+      updates.departureWindow = departureWindow;
+    }
+
+    if ('maxDetour' in updates) {
+      const maxDetour = parseMaxDetour(updates.maxDetour);
+      if (typeof maxDetour === 'string') {
+        return NextResponse.json({ 
+          error: maxDetour,
+          code: 'INVALID_MAX_DETOUR' 
+        }, { status: 400 });
+      }
+      updates.maxDetour = maxDetour;
+    }
+
+    // New endpoints, a new mode, new routing choices or a new time need a new
+    // route, and with it a new box for matching and new route data with its
+    // schedule. Coordinates picked by the user win over geocoding a new name.
+    const routeFields = [
+      'source',
+      'destination',
+      'sourceCoordinates',
+      'destinationCoordinates',
+      'transportMode',
+      'optimizationMode',
+      'routePreferences',
+    ];
+    const timeFields = ['travelDate', 'travelTime', 'timeMode'];
+    const retimed = timeFields.some((field) => field in updateData);
+    // Imported tracks keep their recorded line when only their time changes
+    const storedRoutes = expandRouteData(existingTrip[0].routeData, 'full', existingTrip[0].routeGeometry);
+    const importedRoute: Record<string, any> | null =
+      Array.isArray(storedRoutes) && storedRoutes[0]?.imported ? storedRoutes[0] : null;
+    const replanned = routeFields.some((field) => field in updateData) || (retimed && !importedRoute);
+    if (replanned) {
+      for (const coordinates of [updateData.sourceCoordinates, updateData.destinationCoordinates]) {
+        if (coordinates !== undefined && coordinates !== null && !isLatLng(coordinates)) {
+          return NextResponse.json({ 
+            error: 'Coordinates must be [lat, lon] pairs',
+            code: 'INVALID_COORDINATES' 
+          }, { status: 400 });
+        }
+      }
+
+      const trip = { ...existingTrip[0], ...updates };
+      const { geocoder, router } = getRoutingProvider();
+      const locate = async (coordinates: unknown, name: unknown, stored: string | null): Promise<LatLng | null> => {
+        if (isLatLng(coordinates)) return coordinates;
+        if (typeof name === 'string') return (await geocoder.geocode(name.trim()))?.coordinates ?? null;
+        return parseLatLng(stored);
+      };
+      const sourceCoords = await locate(updateData.sourceCoordinates, updates.source, trip.sourceCoordinates);
+      const destCoords = await locate(updateData.destinationCoordinates, updates.destination, trip.destinationCoordinates);
+
+      if (!sourceCoords || !destCoords) {
+        return NextResponse.json({ 
+          error: 'Unable to geocode source or destination',
+          code: 'GEOCODING_FAILED' 
+        }, { status: 400 });
+      }
+
+      const planned = await planTripRoute({
+        origin: sourceCoords,
+        destination: destCoords,
+        transportMode: trip.transportMode,
+        optimizationMode: trip.optimizationMode,
+        travelDate: trip.travelDate,
+        travelTime: trip.travelTime,
+        timeMode: trip.timeMode as TimeMode,
+        preferences: trip.routePreferences || {},
+        names: { origin: trip.source, destination: trip.destination },
+      }, router);
+
+      Object.assign(updates, {
+        sourceCoordinates: formatLatLng(sourceCoords),
+        destinationCoordinates: formatLatLng(destCoords),
+        ...tripSpatialColumns(sourceCoords, destCoords, planned.geometry),
+        routeGeometry: encodeRouteGeometry(planned.geometry),
+        co2Kg: planned.co2Kg,
+        originAirport: planned.originAirport,
+        destinationAirport: planned.destinationAirport,
+        routeData: planned.routeData ? [planned.routeData] : null,
+      });
+    } else if (retimed && importedRoute) {
+      const trip = { ...existingTrip[0], ...updates };
+      updates.routeData = [{
+        ...importedRoute,
+        schedule: scheduleLegs(
+          [{ from: trip.source, to: trip.destination, mode: importedRoute.mode, duration: importedRoute.duration }],
+          trip.travelDate,
+          trip.travelTime,
+          trip.timeMode as TimeMode
+        ),
+      }];
+    }
+
+    // Stored against the line the trip is left with, so it is not kept twice
+    if ('routeData' in updates) {
+      const routeGeometry = 'routeGeometry' in updates ? updates.routeGeometry : existingTrip[0].routeGeometry;
+      updates.routeData = compactRouteData(updates.routeData, decodeRouteGeometry(routeGeometry));
+    }
+
     // Update trip
     const updatedTrip = await db.update(trips)
       .set(updates)
       .where(eq(trips.id, tripId))
       .returning();
 
-    return NextResponse.json(updatedTrip[0], { status: 200 });
+    // Pending matches were scored against the old route and times, so they
+    // go; trips created from now on are matched against the new ones. Accepted
+    // matches stand, as the travellers have already agreed to share.
+    if (replanned || retimed) {
+      await db.delete(tripMatches)
+        .where(and(
+          or(eq(tripMatches.tripId, tripId), eq(tripMatches.matchedTripId, tripId)),
+          eq(tripMatches.status, 'pending')
+        ));
+    }
+
+    return NextResponse.json({
+      ...updatedTrip[0],
+      routeGeometry: decodeRouteGeometry(updatedTrip[0].routeGeometry),
+      routeData: expandRouteData(updatedTrip[0].routeData, 'full', updatedTrip[0].routeGeometry),
+    }, { status: 200 });
 
   } catch (error) {
     console.error('PUT trip error:', error);
@@ -309,7 +488,11 @@ export async function DELETE(request: NextRequest) {
 
     return NextResponse.json({
       message: 'Trip deleted successfully',
-      trip: deletedTrip[0]
+      trip: {
+        ...deletedTrip[0],
+        routeGeometry: decodeRouteGeometry(deletedTrip[0].routeGeometry),
+        routeData: expandRouteData(deletedTrip[0].routeData, 'full', deletedTrip[0].routeGeometry),
+      }
     }, { status: 200 });
 
   } catch (error) {
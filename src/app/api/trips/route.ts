@@ -3,141 +3,36 @@ import { db } from '@/db';
 import { trips, tripMatches } from '@/db/schema';
 import { eq, and, like, sql, desc, ne } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
-
-// Geocoding function using Nominatim (OpenStreetMap)
-async function geocode(location: string): Promise<[number, number] | null> {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(location)}&limit=1`,
-      {
-        headers: {
-          'User-Agent': 'TravelCompanionApp/1.0',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      console.error("Nominatim API error:", response.statusText);
-      return null;
-    }
-
-    const data = await response.json();
-    
-    if (data.length > 0) {
-      const lat = parseFloat(data[0].lat);
-      const lon = parseFloat(data[0].lon);
-      return [lat, lon];
-    }
-    return null;
-  } catch (error) {
-    console.error("Geocoding error:", error);
-    return null;
-  }
-}
-
-// Map transport modes to OSRM profiles
-function mapToOSRMProfile(mode: string): string {
-  const modeMap: Record<string, string> = {
-    car: 'car',
-    cycling: 'bike',
-    walking: 'foot',
-    bus: 'car',
-    train: 'car',
-    flight: 'car',
-  };
-  return modeMap[mode] || 'car';
-}
-
-// Calculate route using OSRM (OpenStreetMap Routing)
-async function calculateRouteGeometry(
-  start: [number, number],
-  end: [number, number],
-  mode: string
-): Promise<{ coordinates: [number, number][]; distance: number; duration: number } | null> {
-  try {
-    const profile = mapToOSRMProfile(mode);
-    
-    // OSRM expects lon,lat format (not lat,lon)
-    const startLonLat = `${start[1]},${start[0]}`;
-    const endLonLat = `${end[1]},${end[0]}`;
-    
-    // Use public OSRM demo server
-    const osrmUrl = `https://router.project-osrm.org/route/v1/${profile}/${startLonLat};${endLonLat}?overview=full&geometries=geojson&steps=true`;
-    
-    const response = await fetch(osrmUrl, {
-      headers: {
-        'User-Agent': 'TravelCompanionApp/1.0',
-      },
-    });
-
-    if (!response.ok) {
-      console.error('OSRM API error:', response.statusText);
-      return null;
-    }
-
-    const data = await response.json();
-    
-    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
-      console.error('OSRM error:', data.code);
-      return null;
-    }
-
-    const route = data.routes[0];
-    
-    // Convert GeoJSON coordinates from [lon, lat] to [lat, lon]
-    const coordinates: [number, number][] = route.geometry.coordinates.map(
-      (coord: [number, number]) => [coord[1], coord[0]]
-    );
-
-    return {
-      coordinates,
-      distance: route.distance, // in meters
-      duration: route.duration, // in seconds
-    };
-  } catch (error) {
-    console.error("Route calculation error:", error);
-    return null;
-  }
-}
-
-// Calculate distance between two points (Haversine formula)
-function calculateDistance(start: [number, number], end: [number, number]): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = toRad(end[0] - start[0]);
-  const dLon = toRad(end[1] - start[1]);
-  const lat1 = toRad(start[0]);
-  const lat2 = toRad(end[0]);
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-function toRad(degrees: number): number {
-  return degrees * (Math.PI / 180);
-}
-
-// Calculate minimum distance from a point to a route
-function distanceToRoute(point: [number, number], routeCoordinates: [number, number][]): number {
-  let minDistance = Infinity;
-  
-  for (const routePoint of routeCoordinates) {
-    const distance = calculateDistance(point, routePoint);
-    if (distance < minDistance) {
-      minDistance = distance;
-    }
-  }
-  
-  return minDistance;
-}
-
-// Check if a point is along a route (within threshold)
-function isAlongRoute(point: [number, number], routeCoordinates: [number, number][], thresholdKm: number = 5): boolean {
-  const distance = distanceToRoute(point, routeCoordinates);
-  return distance <= thresholdKm;
-}
+import { getRoutingProvider, type LatLng, type TimeMode, type TransportMode } from '@/lib/routing';
+import { co2SavedBySharing, estimateEmissions } from '@/lib/emissions/model';
+import { planTripRoute } from '@/lib/trips/planner';
+import { formatLatLng, isLatLng } from '@/lib/routing/geo';
+import { scheduleLegs, TIME_MODES } from '@/lib/routing/schedule';
+import {
+  compactRouteData,
+  decodeRouteGeometry,
+  encodeRouteGeometry,
+  expandRouteData,
+  GEOMETRY_DETAILS,
+  type GeometryDetail,
+} from '@/lib/routing/route-storage';
+import { parseRoutePreferences } from '@/lib/routing/preferences';
+import { getMatchingConfig } from '@/lib/matching/config';
+import { isMatch, scoreMatch, toMatchTrip } from '@/lib/matching/engine';
+import { measureDetours, offersRides, parseMaxDetour } from '@/lib/matching/detour';
+import { nearbyTripsFilter, routeBounds, tripSpatialColumns } from '@/lib/matching/spatial';
+import { parseDepartureWindow } from '@/lib/matching/time-window';
+import { estimateCost } from '@/lib/cost/model';
+import { getElevationSource } from '@/lib/elevation';
+import { ELEVATION_MODES, elevationProfile } from '@/lib/elevation/profile';
+import {
+  MAX_TRACK_FILE_BYTES,
+  parseTrackFile,
+  trackDistance,
+  trackDuration,
+  TRACK_MODES,
+  type ImportedTrack,
+} from '@/lib/route-files/import';
 
 export async function POST(request: NextRequest) {
   try {
@@ -165,33 +60,127 @@ export async function POST(request: NextRequest) {
       destination, 
       travelDate, 
       travelTime, 
+      timeMode = 'depart_at',
+      departureWindow,
+      maxDetour,
       transportMode, 
       optimizationMode,
-      routeData 
+      routeData,
+      sourceCoordinates,
+      destinationCoordinates,
+      preferences,
+      track
     } = requestBody;
 
-    // Validate required fields
-    if (!source || !destination || !travelDate || !travelTime || !transportMode || !optimizationMode) {
+    // Validate required fields; an imported track can name its own endpoints
+    if ((!track && (!source || !destination)) || !travelDate || !travelTime || !transportMode || !optimizationMode) {
       return NextResponse.json({ 
         error: 'Missing required fields: source, destination, travelDate, travelTime, transportMode, optimizationMode',
         code: 'MISSING_REQUIRED_FIELDS' 
       }, { status: 400 });
     }
 
+    // A GPX or GeoJSON track uploaded in place of a routed path
+    let importedTrack: ImportedTrack | null = null;
+    if (track) {
+      if (typeof track.content !== 'string' || track.content.length > MAX_TRACK_FILE_BYTES) {
+        return NextResponse.json({ 
+          error: `track.content must be the text of a GPX or GeoJSON file of at most ${MAX_TRACK_FILE_BYTES / 1024 / 1024} MB`,
+          code: 'INVALID_TRACK' 
+        }, { status: 400 });
+      }
+      if (!TRACK_MODES.includes(transportMode)) {
+        return NextResponse.json({ 
+          error: `Imported tracks can only be used for ${TRACK_MODES.join(', ')} trips`,
+          code: 'INVALID_TRANSPORT_MODE' 
+        }, { status: 400 });
+      }
+
+      const parsed = parseTrackFile(track.content, typeof track.fileName === 'string' ? track.fileName : undefined);
+      if (typeof parsed === 'string') {
+        return NextResponse.json({ 
+          error: parsed,
+          code: 'INVALID_TRACK' 
+        }, { status: 400 });
+      }
+      importedTrack = parsed;
+    }
+
+    if (!TIME_MODES.includes(timeMode)) {
+      return NextResponse.json({ 
+        error: `timeMode must be one of: ${TIME_MODES.join(', ')}`,
+        code: 'INVALID_TIME_MODE' 
+      }, { status: 400 });
+    }
+
+    const parsedDepartureWindow = parseDepartureWindow(departureWindow);
+    if (typeof parsedDepartureWindow === 'string') {
+      return NextResponse.json({ 
+        error: parsedDepartureWindow,
+        code: 'INVALID_DEPARTURE_WINDOW' 
+      }, { status: 400 });
+    }
+
+    const parsedMaxDetour = parseMaxDetour(maxDetour);
+    if (typeof parsedMaxDetour === 'string') {
+      return NextResponse.json({ 
+        error: parsedMaxDetour,
+        code: 'INVALID_MAX_DETOUR' 
+      }, { status: 400 });
+    }
+
+    const routePreferences = parseRoutePreferences(preferences);
+    if (typeof routePreferences === 'string') {
+      return NextResponse.json({ 
+        error: routePreferences,
+        code: 'INVALID_PREFERENCES' 
+      }, { status: 400 });
+    }
+
     // Sanitize inputs
     const sanitizedData = {
-      source: source.trim(),
-      destination: destination.trim(),
+      source: typeof source === 'string' ? source.trim() : '',
+      destination: typeof destination === 'string' ? destination.trim() : '',
       travelDate: travelDate.trim(),
       travelTime: travelTime.trim(),
+      timeMode: timeMode as TimeMode,
       transportMode: transportMode.trim(),
       optimizationMode: optimizationMode.trim(),
       routeData: routeData || null
     };
 
-    // Geocode source and destination using OpenStreetMap Nominatim
-    const sourceCoords = await geocode(sanitizedData.source);
-    const destCoords = await geocode(sanitizedData.destination);
+    for (const coordinates of [sourceCoordinates, destinationCoordinates]) {
+      if (coordinates !== undefined && coordinates !== null && !isLatLng(coordinates)) {
+        return NextResponse.json({ 
+          error: 'Coordinates must be [lat, lon] pairs',
+          code: 'INVALID_COORDINATES' 
+        }, { status: 400 });
+      }
+    }
+
+    const { geocoder, router } = getRoutingProvider();
+
+    // Imported tracks start and end where the file does, named by reverse
+    // geocoding unless the user named them
+    if (importedTrack) {
+      const geometry = importedTrack.geometry;
+      const placeName = async (point: LatLng) =>
+        (await geocoder.reverse(point))?.displayName || `${point[0].toFixed(5)}, ${point[1].toFixed(5)}`;
+      sanitizedData.source ||= await placeName(geometry[0]);
+      sanitizedData.destination ||= await placeName(geometry[geometry.length - 1]);
+    }
+
+    // Coordinates picked by the user win; otherwise geocode with the configured geocoder
+    const sourceCoords = importedTrack
+      ? importedTrack.geometry[0]
+      : isLatLng(sourceCoordinates)
+        ? sourceCoordinates
+        : (await geocoder.geocode(sanitizedData.source))?.coordinates;
+    const destCoords = importedTrack
+      ? importedTrack.geometry[importedTrack.geometry.length - 1]
+      : isLatLng(destinationCoordinates)
+        ? destinationCoordinates
+        : (await geocoder.geocode(sanitizedData.destination))?.coordinates;
 
     if (!sourceCoords || !destCoords) {
       return NextResponse.json({ 
@@ -200,11 +189,59 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Calculate route geometry using OSRM (OpenStreetMap Routing)
-    let routeGeometry = null;
-    const route = await calculateRouteGeometry(sourceCoords, destCoords, sanitizedData.transportMode);
-    if (route) {
-      routeGeometry = route.coordinates;
+    // Calculate route geometry with the planner for the mode; imported
+    // tracks are their own route
+    const planned = importedTrack ? null : await planTripRoute({
+      origin: sourceCoords,
+      destination: destCoords,
+      transportMode: sanitizedData.transportMode,
+      optimizationMode: sanitizedData.optimizationMode,
+      travelDate: sanitizedData.travelDate,
+      travelTime: sanitizedData.travelTime,
+      timeMode: sanitizedData.timeMode,
+      preferences: routePreferences,
+      names: { origin: sanitizedData.source, destination: sanitizedData.destination },
+    }, router);
+    let routeGeometry = planned?.geometry ?? null;
+    let co2Kg = planned?.co2Kg ?? null;
+
+    // Imported tracks are stored as uploaded, with distance measured along them
+    if (importedTrack) {
+      const transportModeValue = sanitizedData.transportMode as TransportMode;
+      routeGeometry = importedTrack.geometry;
+      const distance = trackDistance(importedTrack.geometry);
+      const elevationSource = getElevationSource();
+      const elevation = elevationSource && ELEVATION_MODES.includes(transportModeValue)
+        ? await elevationProfile(elevationSource, importedTrack.geometry, transportModeValue)
+        : null;
+      // A recorded duration already includes the climbing
+      const duration = trackDuration(importedTrack, distance, transportModeValue) +
+        (elevation && importedTrack.recordedDuration === null ? elevation.climbingTime : 0);
+      const costBreakdown = estimateCost(
+        [{ mode: transportModeValue, distance, tollDistance: 0 }],
+        { origin: sourceCoords }
+      );
+      co2Kg = estimateEmissions([{ mode: transportModeValue, distance }]);
+
+      sanitizedData.routeData ||= [{
+        coordinates: importedTrack.geometry,
+        distance,
+        duration,
+        cost: costBreakdown.total,
+        costBreakdown,
+        co2Kg,
+        mode: transportModeValue,
+        optimizationMode: sanitizedData.optimizationMode,
+        instructions: [],
+        imported: { name: importedTrack.name, fileName: track.fileName ?? null },
+        elevation: elevation ?? undefined,
+        schedule: scheduleLegs(
+          [{ from: sanitizedData.source, to: sanitizedData.destination, mode: transportModeValue, duration }],
+          sanitizedData.travelDate,
+          sanitizedData.travelTime,
+          sanitizedData.timeMode
+        ),
+      }];
     }
 
     // Create trip
@@ -214,15 +251,23 @@ export async function POST(request: NextRequest) {
         userId: session.user.id,
         source: sanitizedData.source,
         destination: sanitizedData.destination,
-        sourceCoordinates: sourceCoords ? `${sourceCoords[0]},${sourceCoords[1]}` : null,
-        destinationCoordinates: destCoords ? `${destCoords[0]},${destCoords[1]}` : null,
+        sourceCoordinates: formatLatLng(sourceCoords),
+        destinationCoordinates: formatLatLng(destCoords),
+        ...tripSpatialColumns(sourceCoords, destCoords, routeGeometry),
         travelDate: sanitizedData.travelDate,
         travelTime: sanitizedData.travelTime,
+        timeMode: sanitizedData.timeMode,
+        departureWindow: parsedDepartureWindow,
+        maxDetour: parsedMaxDetour,
+        routePreferences: Object.keys(routePreferences).length > 0 ? routePreferences : null,
         transportMode: sanitizedData.transportMode,
         optimizationMode: sanitizedData.optimizationMode,
         status: 'active',
-        routeData: sanitizedData.routeData,
-        routeGeometry: routeGeometry,
+        routeData: compactRouteData(sanitizedData.routeData, routeGeometry),
+        routeGeometry: encodeRouteGeometry(routeGeometry),
+        originAirport: planned?.originAirport ?? null,
+        destinationAirport: planned?.destinationAirport ?? null,
+        co2Kg,
         createdAt: timestamp,
         updatedAt: timestamp
       })
@@ -239,95 +284,52 @@ export async function POST(request: NextRequest) {
 
     // Run enhanced matching algorithm for carpooling
     try {
-      // Find all active trips from other users
+      const matchingConfig = getMatchingConfig();
+
+      // Active trips from other users whose routes come near this one
       const potentialMatches = await db.select()
         .from(trips)
         .where(
           and(
             eq(trips.status, 'active'),
-            ne(trips.userId, session.user.id)
+            ne(trips.userId, session.user.id),
+            nearbyTripsFilter(routeBounds([sourceCoords, ...(routeGeometry || []), destCoords]), matchingConfig.alongRouteKm)
           )
         );
 
-      // Calculate match scores and create matches
+      // Score the pair from each side; a side is only offered the match when
+      // the other trip suits it
       const matchInserts = [];
       const matchTimestamp = new Date().toISOString();
-
-      for (const potentialMatch of potentialMatches) {
-        let matchScore = 0;
-        let matchReason = '';
-
-        // Parse coordinates
-        const potentialSourceCoords = potentialMatch.sourceCoordinates 
-          ? potentialMatch.sourceCoordinates.split(',').map(parseFloat) as [number, number]
-          : null;
-        const potentialDestCoords = potentialMatch.destinationCoordinates
-          ? potentialMatch.destinationCoordinates.split(',').map(parseFloat) as [number, number]
-          : null;
-        const potentialRouteGeometry = potentialMatch.routeGeometry as [number, number][] | null;
-
-        // Rule 1: Same destination (50 points)
-        if (sanitizedData.destination.toLowerCase() === potentialMatch.destination.toLowerCase()) {
-          matchScore += 50;
-          matchReason = 'same_destination';
-        }
-
-        // Rule 2: Source within 5km of their route (pickup along route) (40 points)
-        if (sourceCoords && potentialRouteGeometry && potentialRouteGeometry.length > 0) {
-          if (isAlongRoute(sourceCoords, potentialRouteGeometry, 5)) {
-            matchScore += 40;
-            matchReason = matchReason ? matchReason + ',pickup_along_route' : 'pickup_along_route';
-          }
-        }
-
-        // Rule 3: Destination along their route (dropoff along route) (40 points)
-        if (destCoords && potentialRouteGeometry && potentialRouteGeometry.length > 0) {
-          if (isAlongRoute(destCoords, potentialRouteGeometry, 5)) {
-            matchScore += 40;
-            matchReason = matchReason ? matchReason + ',dropoff_along_route' : 'dropoff_along_route';
-          }
-        }
-
-        // Rule 4: Their source is near our route (routes overlap) (30 points)
-        if (potentialSourceCoords && routeGeometry && routeGeometry.length > 0) {
-          if (isAlongRoute(potentialSourceCoords, routeGeometry, 5)) {
-            matchScore += 30;
-            matchReason = matchReason ? matchReason + ',routes_overlap' : 'routes_overlap';
-          }
-        }
-
-        // Rule 5: Same travel date (30 points)
-        if (potentialMatch.travelDate === sanitizedData.travelDate) {
-          matchScore += 30;
-        }
-
-        // Rule 6: Compatible transport mode (20 points)
-        if (potentialMatch.transportMode.toLowerCase() === sanitizedData.transportMode.toLowerCase()) {
-          matchScore += 20;
-        }
-
-        // Only create matches with score > 50
-        if (matchScore > 50) {
-          // Create bidirectional matches
-          matchInserts.push(
-            // Trip -> Matched Trip
-            {
-              tripId: createdTrip.id,
-              matchedTripId: potentialMatch.id,
-              matchScore,
-              status: 'pending',
-              createdAt: matchTimestamp
-            },
-            // Matched Trip -> Trip
-            {
-              tripId: potentialMatch.id,
-              matchedTripId: createdTrip.id,
-              matchScore,
-              status: 'pending',
-              createdAt: matchTimestamp
-            }
-          );
-        }
+      const createdMatchTrip = toMatchTrip(createdTrip);
+
+      // Scores without the detour first, so only promising pairs cost a
+      // routing request; a driver's detour can then still rule the pair out.
+      // The detours are measured together, in as few requests as possible.
+      const sides = potentialMatches.flatMap((potentialMatch) => {
+        const potentialMatchTrip = toMatchTrip(potentialMatch);
+        return [
+          { tripId: createdTrip.id, matchedTripId: potentialMatch.id, companion: createdMatchTrip, driver: potentialMatchTrip },
+          { tripId: potentialMatch.id, matchedTripId: createdTrip.id, companion: potentialMatchTrip, driver: createdMatchTrip },
+        ].map((side) => ({ ...side, breakdown: scoreMatch(side.companion, side.driver, matchingConfig) }));
+      });
+      const detourSides = sides.filter((side) => isMatch(side.breakdown, matchingConfig) && offersRides(side.driver));
+      const detours = await measureDetours(detourSides, router);
+      detourSides.forEach((side, index) => {
+        const detour = detours[index];
+        if (detour) side.breakdown = scoreMatch(side.companion, side.driver, matchingConfig, detour);
+      });
+
+      for (const { tripId, matchedTripId, breakdown } of sides) {
+        if (!isMatch(breakdown, matchingConfig)) continue;
+        matchInserts.push({
+          tripId,
+          matchedTripId,
+          matchScore: breakdown.score,
+          scoreBreakdown: breakdown,
+          status: 'pending',
+          createdAt: matchTimestamp
+        });
       }
 
       // Insert all matches if any found
@@ -339,7 +341,11 @@ export async function POST(request: NextRequest) {
       // Don't fail the trip creation if matching fails
     }
 
-    return NextResponse.json(createdTrip, { status: 201 });
+    return NextResponse.json({
+      ...createdTrip,
+      routeGeometry,
+      routeData: expandRouteData(createdTrip.routeData, 'full', createdTrip.routeGeometry),
+    }, { status: 201 });
 
   } catch (error) {
     console.error('POST error:', error);
@@ -363,6 +369,15 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const statusFilter = searchParams.get('status');
 
+    // Route geometry is left out of the list unless asked for
+    const geometry = (searchParams.get('geometry') || 'none') as GeometryDetail;
+    if (!GEOMETRY_DETAILS.includes(geometry)) {
+      return NextResponse.json({ 
+        error: `geometry must be one of: ${GEOMETRY_DETAILS.join(', ')}`,
+        code: 'INVALID_GEOMETRY' 
+      }, { status: 400 });
+    }
+
     // Build query with userId filter
     let query = db.select().from(trips);
 
@@ -380,7 +395,7 @@ export async function GET(request: NextRequest) {
     // Order by createdAt DESC
     const userTrips = await query.orderBy(desc(trips.createdAt));
 
-    // Add match count to each trip
+    // Add match count and CO2 saved to each trip
     const tripsWithMatchCount = await Promise.all(
       userTrips.map(async (trip) => {
         const matchCountResult = await db.select({ 
@@ -394,9 +409,26 @@ export async function GET(request: NextRequest) {
             )
           );
 
+        // Emissions avoided by sharing with accepted companions
+        const companions = await db.select({
+          transportMode: trips.transportMode,
+          co2Kg: trips.co2Kg,
+        })
+          .from(tripMatches)
+          .innerJoin(trips, eq(tripMatches.matchedTripId, trips.id))
+          .where(
+            and(
+              eq(tripMatches.tripId, trip.id),
+              eq(tripMatches.status, 'accepted')
+            )
+          );
+
         return {
           ...trip,
-          matchCount: matchCountResult[0]?.count || 0
+          routeGeometry: decodeRouteGeometry(trip.routeGeometry, geometry),
+          routeData: expandRouteData(trip.routeData, geometry, trip.routeGeometry),
+          matchCount: matchCountResult[0]?.count || 0,
+          co2Saved: companions.reduce((sum, companion) => sum + co2SavedBySharing(trip, companion), 0)
         };
       })
     );
@@ -20,6 +20,7 @@ import {
   User,
   Home,
   LogOut,
+  Leaf,
 } from "lucide-react";
 import { useSession, authClient } from "@/lib/auth-client";
 import { toast } from "sonner";
@@ -30,9 +31,12 @@ interface Trip {
   destination: string;
   travelDate: string;
   travelTime: string;
+  timeMode: "depart_at" | "arrive_by";
   transportMode: string;
   status: string;
   matchCount: number;
+  co2Kg: number | null;
+  co2Saved: number;
 }
 
 interface Group {
@@ -210,7 +214,7 @@ export default function DashboardPage() {
         </Card>
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <Card className="p-6">
             <div className="flex items-center justify-between">
               <div>
@@ -248,6 +252,23 @@ export default function DashboardPage() {
               </div>
             </div>
           </Card>
+
+          <Card className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">CO₂ Saved</p>
+                <p className="text-3xl font-bold mt-2">
+                  {trips.reduce((sum, trip) => sum + trip.co2Saved, 0).toFixed(1)} kg
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {trips.reduce((sum, trip) => sum + (trip.co2Kg || 0), 0).toFixed(1)} kg emitted across all trips
+                </p>
+              </div>
+              <div className="h-12 w-12 rounded-full bg-emerald-100 flex items-center justify-center">
+                <Leaf className="h-6 w-6 text-emerald-600" />
+              </div>
+            </div>
+          </Card>
         </div>
 
         {/* Active Groups */}
@@ -348,6 +369,7 @@ export default function DashboardPage() {
                             </span>
                             <span className="flex items-center gap-1">
                               <Clock className="h-3 w-3" />
+                              {trip.timeMode === "arrive_by" && "Arrive by "}
                               {formatTime(trip.travelTime)}
                             </span>
                             <Badge variant="outline" className="capitalize">
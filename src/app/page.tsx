@@ -9,6 +9,9 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import LocationInput from "@/components/LocationInput";
+import RouteInstructions, { useInstructionSettings, type RouteInstruction } from "@/components/RouteInstructions";
 import { 
   Plus, 
   X, 
@@ -31,9 +34,13 @@ import {
   MessageSquare,
   Leaf,
   LogOut,
-  User
+  User,
+  Shuffle,
+  Radar,
+  Upload
 } from "lucide-react";
 import { authClient, useSession } from "@/lib/auth-client";
+import { formatDistance as formatLength } from "@/lib/routing/instructions";
 import { toast } from "sonner";
 
 const MapComponent = dynamic(() => import("@/components/MapComponent"), {
@@ -45,22 +52,148 @@ const MapComponent = dynamic(() => import("@/components/MapComponent"), {
   ),
 });
 
-type TransportMode = "car" | "cycling" | "walking" | "bus" | "train" | "flight";
+type TransportMode = "car" | "cycling" | "walking" | "bus" | "train" | "flight" | "multimodal";
 type OptimizationMode = "shortest" | "cheapest" | "fastest";
+type TimeMode = "depart_at" | "arrive_by";
+
+// Time budgets shown when previewing the reachable area around the start
+const ISOCHRONE_MINUTES = [10, 20, 30];
+// Departure flexibility choices, in minutes either side
+const DEPARTURE_WINDOWS = [0, 15, 30, 60, 120];
+// Longest extra drive a driver accepts to pick up a companion, in minutes
+const MAX_DETOURS = [5, 10, 15, 30];
+// Modes that follow a continuous path on the road network; reachable areas
+// and imported tracks only make sense for these
+const ROAD_MODES: TransportMode[] = ["car", "cycling", "walking"];
+
+interface IsochroneCollection {
+  type: "FeatureCollection";
+  features: Array<{
+    type: "Feature";
+    properties: { minutes: number };
+    geometry: { type: "Polygon"; coordinates: number[][][] };
+  }>;
+}
+
+interface RoutePreferences {
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+  avoidFerries?: boolean;
+  preferBikeLanes?: boolean;
+  maxWalkingDistance?: number;
+}
+
+type RoutePreference = keyof RoutePreferences;
+
+interface PreferenceCheck {
+  preference: RoutePreference;
+  status: "honored" | "violated" | "unsupported" | "not_applicable";
+}
+
+const PREFERENCE_LABELS: Record<RoutePreference, string> = {
+  avoidTolls: "Avoid tolls",
+  avoidHighways: "Avoid highways",
+  avoidFerries: "Avoid ferries",
+  preferBikeLanes: "Prefer bike lanes",
+  maxWalkingDistance: "Max walking distance",
+};
+
+const PREFERENCE_STATUS_LABELS: Record<PreferenceCheck["status"], string> = {
+  honored: "Honored",
+  violated: "Not possible",
+  unsupported: "Not supported",
+  not_applicable: "n/a",
+};
+
+interface RouteStop {
+  name: string;
+  coordinates: [number, number];
+  type: "start" | "pickup" | "destination";
+}
+
+interface RouteLeg {
+  from: string;
+  to: string;
+  distance: number;
+  duration: number;
+  mode?: TransportMode;
+  coordinates?: [number, number][];
+  cost?: number;
+}
+
+interface RouteAlternative {
+  rank: number;
+  coordinates: [number, number][];
+  distance: number;
+  duration: number;
+  cost: number;
+  tollDistance: number;
+  label?: string;
+}
+
+interface TransitLeg {
+  type: "walk" | "cycle" | "drive" | "transit";
+  from: { name: string };
+  to: { name: string };
+  departureTime: number;
+  arrivalTime: number;
+  distance: number;
+  line?: { shortName: string | null; longName: string | null; headsign: string | null };
+  transferTime?: number;
+}
+
+// Times are local "YYYY-MM-DDTHH:MM"
+interface TripSchedule {
+  timeMode: TimeMode;
+  departure: string;
+  arrival: string;
+  stops: Array<{ name: string; arrival?: string; departure?: string }>;
+}
+
+interface CostBreakdown {
+  currency: string;
+  items: Array<{ kind: string; label: string; amount: number; shared: boolean }>;
+  total: number;
+  passengers: number;
+  perPassenger: number;
+}
 
 interface RouteData {
   coordinates: [number, number][];
   distance: number;
   duration: number;
   cost: number;
+  costBreakdown?: CostBreakdown;
+  co2Kg?: number;
   mode: TransportMode;
+  stops?: RouteStop[];
+  legs?: RouteLeg[];
+  alternatives?: RouteAlternative[];
+  transit?: { transfers: number; legs: TransitLeg[] };
+  flight?: {
+    originAirport: { iata: string; name: string; coordinates: [number, number] };
+    destinationAirport: { iata: string; name: string; coordinates: [number, number] };
+  };
+  schedule?: TripSchedule | null;
+  preferenceChecks?: PreferenceCheck[];
+  instructions?: RouteInstruction[];
 }
 
 export default function Home() {
   const [source, setSource] = useState("");
   const [destination, setDestination] = useState("");
+  // Resolved by picking a suggestion or clicking the map; typing clears them
+  const [sourceCoordinates, setSourceCoordinates] = useState<[number, number] | null>(null);
+  const [destinationCoordinates, setDestinationCoordinates] = useState<[number, number] | null>(null);
+  const [pickingTarget, setPickingTarget] = useState<"source" | "destination" | null>(null);
+  const [pickupStops, setPickupStops] = useState<string[]>([]);
   const [travelDate, setTravelDate] = useState("");
   const [travelTime, setTravelTime] = useState("");
+  const [timeMode, setTimeMode] = useState<TimeMode>("depart_at");
+  // Minutes either side of the departure the user could leave, for matching
+  const [departureWindow, setDepartureWindow] = useState(30);
+  const [maxDetour, setMaxDetour] = useState(15);
+  const [preferences, setPreferences] = useState<RoutePreferences>({});
   const [transportMode, setTransportMode] = useState<TransportMode>("car");
   const [optimizationMode, setOptimizationMode] = useState<OptimizationMode>("fastest");
   const [routes, setRoutes] = useState<RouteData[]>([]);
@@ -68,8 +201,13 @@ export default function Home() {
   const [error, setError] = useState("");
   const [showInstructions, setShowInstructions] = useState(true);
   const [createdTripId, setCreatedTripId] = useState<number | null>(null);
+  const [isochrones, setIsochrones] = useState<IsochroneCollection | null>(null);
+  const [loadingIsochrones, setLoadingIsochrones] = useState(false);
+  // GPX or GeoJSON track used instead of calculating a route
+  const [trackFile, setTrackFile] = useState<{ name: string; content: string } | null>(null);
   
   const { data: session, isPending, refetch } = useSession();
+  const instructionSettings = useInstructionSettings(!!session?.user);
   const router = useRouter();
 
   const transportModes = [
@@ -79,6 +217,7 @@ export default function Home() {
     { value: "bus", label: "Bus", icon: Bus, color: "#f59e0b" },
     { value: "train", label: "Train", icon: Train, color: "#ef4444" },
     { value: "flight", label: "Flight", icon: Plane, color: "#06b6d4" },
+    { value: "multimodal", label: "Multimodal", icon: Shuffle, color: "#ec4899" },
   ];
 
   const handleSignOut = async () => {
@@ -93,6 +232,93 @@ export default function Home() {
     }
   };
 
+  // Unset options are left out so the request only carries what was chosen
+  const setPreference = <K extends RoutePreference>(preference: K, value: RoutePreferences[K] | false) => {
+    setPreferences((current) => {
+      const next = { ...current };
+      if (value === undefined || value === false) {
+        delete next[preference];
+      } else {
+        next[preference] = value;
+      }
+      return next;
+    });
+  };
+
+  // A reachable area drawn for another start or mode would be misleading
+  useEffect(() => {
+    setIsochrones(null);
+  }, [sourceCoordinates, transportMode]);
+
+  const toggleIsochrones = async () => {
+    if (isochrones) {
+      setIsochrones(null);
+      return;
+    }
+    if (!sourceCoordinates) {
+      toast.error("Pick a starting point from the suggestions or the map first");
+      return;
+    }
+
+    setLoadingIsochrones(true);
+    try {
+      const params = new URLSearchParams({
+        lat: String(sourceCoordinates[0]),
+        lon: String(sourceCoordinates[1]),
+        mode: transportMode,
+        minutes: ISOCHRONE_MINUTES.join(","),
+      });
+      const response = await fetch(`/api/isochrone?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load reachable area");
+      }
+      setIsochrones(data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load reachable area");
+    } finally {
+      setLoadingIsochrones(false);
+    }
+  };
+
+  // Set the location being picked from a map click, named by reverse geocoding
+  const handleMapClick = async (point: [number, number]) => {
+    if (!pickingTarget) return;
+    const target = pickingTarget;
+    setPickingTarget(null);
+
+    let name = `${point[0].toFixed(5)}, ${point[1].toFixed(5)}`;
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/geocode/reverse?lat=${point[0]}&lon=${point[1]}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (response.ok) {
+        const place = await response.json();
+        name = place.displayName || name;
+      }
+    } catch {
+      // Keep the coordinates as the name
+    }
+
+    if (target === "source") {
+      setSource(name);
+      setSourceCoordinates(point);
+    } else {
+      setDestination(name);
+      setDestinationCoordinates(point);
+    }
+  };
+
+  const handleTrackFile = async (file: File | undefined) => {
+    if (!file) return;
+    setTrackFile({ name: file.name, content: await file.text() });
+    if (!ROAD_MODES.includes(transportMode)) {
+      setTransportMode("cycling");
+    }
+    toast.success(`Loaded ${file.name}. Start and destination come from the track unless you name them.`);
+  };
+
   const createTrip = async () => {
     setError("");
     
@@ -103,15 +329,19 @@ export default function Home() {
       return;
     }
     
-    // Validation
-    if (!source.trim()) {
+    // Validation; an imported track supplies its own endpoints
+    if (!trackFile && !source.trim()) {
       setError("Please enter your starting point");
       return;
     }
-    if (!destination.trim()) {
+    if (!trackFile && !destination.trim()) {
       setError("Please enter a destination");
       return;
     }
+    if (trackFile && !ROAD_MODES.includes(transportMode)) {
+      setError("Imported tracks can only be used for car, cycling and walking trips");
+      return;
+    }
     if (!travelDate) {
       setError("Please select a travel date");
       return;
@@ -121,29 +351,43 @@ export default function Home() {
       return;
     }
 
+    const pickups = pickupStops.map((stop) => stop.trim()).filter(Boolean);
+
     setLoading(true);
     
     try {
-      // First calculate the route
-      const routeResponse = await fetch("/api/route", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          boardingPoints: [source],
-          destination,
-          transportMode,
-          optimizationMode,
-        }),
-      });
+      // First calculate the route, unless the user brought their own
+      let calculatedRoutes: RouteData[] | null = null;
+      if (!trackFile) {
+        const routeResponse = await fetch("/api/route", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            boardingPoints: [source, ...pickups],
+            destination,
+            boardingPointCoordinates: [sourceCoordinates],
+            destinationCoordinates,
+            transportMode,
+            optimizationMode,
+            waypointMode: pickups.length > 0 ? "sequential" : "independent",
+            travelDate,
+            travelTime,
+            timeMode,
+            preferences,
+          }),
+        });
 
-      if (!routeResponse.ok) {
-        throw new Error("Failed to calculate route");
-      }
+        if (!routeResponse.ok) {
+          const routeError = await routeResponse.json().catch(() => null);
+          throw new Error(routeError?.error || "Failed to calculate route");
+        }
 
-      const routeData = await routeResponse.json();
-      setRoutes(routeData.routes);
+        const routeData = await routeResponse.json();
+        calculatedRoutes = routeData.routes;
+        setRoutes(routeData.routes);
+      }
 
       // Then create the trip in database with route data
       const token = localStorage.getItem("bearer_token");
@@ -156,20 +400,33 @@ export default function Home() {
         body: JSON.stringify({
           source,
           destination,
+          sourceCoordinates,
+          destinationCoordinates,
           travelDate,
           travelTime,
+          timeMode,
+          departureWindow,
+          maxDetour,
+          preferences,
           transportMode,
           optimizationMode,
-          routeData: routeData.routes,
+          routeData: calculatedRoutes,
+          track: trackFile ? { content: trackFile.content, fileName: trackFile.name } : undefined,
         }),
       });
 
       if (!tripResponse.ok) {
-        throw new Error("Failed to create trip");
+        const tripError = await tripResponse.json().catch(() => null);
+        throw new Error(tripError?.error || "Failed to create trip");
       }
 
       const trip = await tripResponse.json();
       setCreatedTripId(trip.id);
+      if (trackFile) {
+        setRoutes(trip.routeData || []);
+        setSource(trip.source);
+        setDestination(trip.destination);
+      }
       
       toast.success("Trip created! Searching for travel companions...", {
         duration: 5000,
@@ -201,10 +458,7 @@ export default function Home() {
     }
   };
 
-  const formatDistance = (meters: number) => {
-    if (meters < 1000) return `${meters.toFixed(0)}m`;
-    return `${(meters / 1000).toFixed(2)}km`;
-  };
+  const formatDistance = (meters: number) => formatLength(meters, instructionSettings.distanceUnits);
 
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -213,8 +467,22 @@ export default function Home() {
     return `${minutes}m`;
   };
 
-  const formatCost = (cost: number) => {
-    return `$${cost.toFixed(2)}`;
+  // GTFS times are seconds after midnight and may run past 24:00
+  const formatClockTime = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600) % 24;
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+  };
+
+  const formatCost = (cost: number, currency = "USD") => {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cost);
+  };
+
+  // Schedule times are naive local times; the date is shown only when it
+  // differs from the trip's departure day
+  const formatScheduleTime = (value: string, departure?: string) => {
+    const time = value.slice(11, 16);
+    return departure && value.slice(0, 10) !== departure.slice(0, 10) ? `${value.slice(5, 10)} ${time}` : time;
   };
 
   const getCurrentModeIcon = () => {
@@ -326,23 +594,96 @@ export default function Home() {
                 <MapPin className="h-4 w-4" />
                 Starting Point
               </label>
-              <Input
+              <LocationInput
                 placeholder="e.g., New York, NY"
                 value={source}
-                onChange={(e) => setSource(e.target.value)}
+                near={destinationCoordinates}
+                picking={pickingTarget === "source"}
+                onChange={(value) => {
+                  setSource(value);
+                  setSourceCoordinates(null);
+                }}
+                onSelect={(location) => {
+                  setSource(location.name);
+                  setSourceCoordinates(location.coordinates);
+                }}
+                onPickOnMap={() => setPickingTarget(pickingTarget === "source" ? null : "source")}
               />
+              {ROAD_MODES.includes(transportMode) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start text-muted-foreground"
+                  onClick={toggleIsochrones}
+                  disabled={loadingIsochrones}
+                >
+                  {loadingIsochrones ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Radar className="h-4 w-4 mr-2" />
+                  )}
+                  {isochrones
+                    ? "Hide reachable area"
+                    : `Show where you can reach in ${ISOCHRONE_MINUTES.join(" / ")} min`}
+                </Button>
+              )}
             </div>
 
+            {/* Pickup Stops */}
+            {pickupStops.map((stop, index) => (
+              <div key={index} className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Pickup {index + 1}
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="e.g., Newark, NJ"
+                    value={stop}
+                    onChange={(e) =>
+                      setPickupStops(pickupStops.map((s, i) => (i === index ? e.target.value : s)))
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPickupStops(pickupStops.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => setPickupStops([...pickupStops, ""])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Pickup Stop
+            </Button>
+
             {/* Destination */}
             <div className="space-y-2">
               <label className="text-sm font-medium flex items-center gap-2">
                 <Navigation className="h-4 w-4" />
                 Destination
               </label>
-              <Input
+              <LocationInput
                 placeholder="e.g., Los Angeles, CA"
                 value={destination}
-                onChange={(e) => setDestination(e.target.value)}
+                near={sourceCoordinates}
+                picking={pickingTarget === "destination"}
+                onChange={(value) => {
+                  setDestination(value);
+                  setDestinationCoordinates(null);
+                }}
+                onSelect={(location) => {
+                  setDestination(location.name);
+                  setDestinationCoordinates(location.coordinates);
+                }}
+                onPickOnMap={() => setPickingTarget(pickingTarget === "destination" ? null : "destination")}
               />
             </div>
 
@@ -363,7 +704,7 @@ export default function Home() {
               <div className="space-y-2">
                 <label className="text-sm font-medium flex items-center gap-2">
                   <Clock className="h-4 w-4" />
-                  Time
+                  {timeMode === "arrive_by" ? "Arrive by" : "Depart at"}
                 </label>
                 <Input
                   type="time"
@@ -372,6 +713,37 @@ export default function Home() {
                 />
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={timeMode === "depart_at" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setTimeMode("depart_at")}
+              >
+                Depart at
+              </Button>
+              <Button
+                variant={timeMode === "arrive_by" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setTimeMode("arrive_by")}
+              >
+                Arrive by
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Departure Flexibility</label>
+              <div className="grid grid-cols-5 gap-2">
+                {DEPARTURE_WINDOWS.map((minutes) => (
+                  <Button
+                    key={minutes}
+                    variant={departureWindow === minutes ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setDepartureWindow(minutes)}
+                  >
+                    {minutes === 0 ? "Exact" : `±${minutes}m`}
+                  </Button>
+                ))}
+              </div>
+            </div>
 
             {/* Transport Mode */}
             <div className="space-y-2">
@@ -385,7 +757,7 @@ export default function Home() {
                       variant={transportMode === mode.value ? "default" : "outline"}
                       size="sm"
                       onClick={() => setTransportMode(mode.value as TransportMode)}
-                      className="flex flex-col h-auto py-3 gap-1"
+                      className={`flex flex-col h-auto py-3 gap-1 ${mode.value === "multimodal" ? "col-span-3" : ""}`}
                     >
                       <ModeIcon className="h-5 w-5" />
                       <span className="text-xs">{mode.label}</span>
@@ -395,6 +767,25 @@ export default function Home() {
               </div>
             </div>
 
+            {/* Drivers choose how far they will go out of their way for companions */}
+            {transportMode === "car" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Max Detour for Pickups</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {MAX_DETOURS.map((minutes) => (
+                    <Button
+                      key={minutes}
+                      variant={maxDetour === minutes ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setMaxDetour(minutes)}
+                    >
+                      {minutes} min
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Optimization Mode */}
             <div className="space-y-2">
               <label className="text-sm font-medium">Optimize For</label>
@@ -429,6 +820,78 @@ export default function Home() {
               </div>
             </div>
 
+            {/* Route Options */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Route Options</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(["avoidTolls", "avoidHighways", "avoidFerries"] as const).map((preference) => (
+                  <label key={preference} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={!!preferences[preference]}
+                      onCheckedChange={(checked) => setPreference(preference, checked === true)}
+                    />
+                    {PREFERENCE_LABELS[preference]}
+                  </label>
+                ))}
+                {transportMode === "cycling" && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={!!preferences.preferBikeLanes}
+                      onCheckedChange={(checked) => setPreference("preferBikeLanes", checked === true)}
+                    />
+                    {PREFERENCE_LABELS.preferBikeLanes}
+                  </label>
+                )}
+              </div>
+              {["walking", "bus", "train", "multimodal"].includes(transportMode) && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground flex-shrink-0">Max walk (m)</span>
+                  <Input
+                    type="number"
+                    min={100}
+                    step={100}
+                    placeholder="No limit"
+                    value={preferences.maxWalkingDistance ?? ""}
+                    onChange={(e) => {
+                      const meters = parseFloat(e.target.value);
+                      setPreference("maxWalkingDistance", meters > 0 ? meters : undefined);
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Track Import */}
+            <div className="space-y-2">
+              {trackFile ? (
+                <div className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2 text-sm">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Upload className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <span className="truncate">Using track {trackFile.name}</span>
+                  </span>
+                  <Button variant="ghost" size="icon" onClick={() => setTrackFile(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" className="w-full" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import GPX / GeoJSON Track
+                    <input
+                      type="file"
+                      accept=".gpx,.geojson,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        handleTrackFile(e.target.files?.[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+              )}
+            </div>
+
             {/* Create Trip Button */}
             <Button
               className="w-full"
@@ -472,7 +935,7 @@ export default function Home() {
                   
                   // Calculate eco score (lower is better)
                   const ecoScore = route.mode === 'walking' || route.mode === 'cycling' ? 100 : 
-                                   route.mode === 'bus' || route.mode === 'train' ? 75 :
+                                   route.mode === 'bus' || route.mode === 'train' || route.mode === 'multimodal' ? 75 :
                                    route.mode === 'car' ? 50 : 25;
                   
                   return (
@@ -481,6 +944,11 @@ export default function Home() {
                         <div className="flex items-center gap-2">
                           <ModeIcon className="h-5 w-5" style={{ color: mode?.color }} />
                           <span className="font-medium capitalize">{route.mode}</span>
+                          {route.flight && (
+                            <span className="text-xs text-muted-foreground">
+                              {route.flight.originAirport.iata} → {route.flight.destinationAirport.iata}
+                            </span>
+                          )}
                         </div>
                         <Badge style={{ backgroundColor: mode?.color, color: 'white' }}>
                           Recommended
@@ -497,9 +965,139 @@ export default function Home() {
                         </div>
                         <div>
                           <div className="text-muted-foreground text-xs">Cost</div>
-                          <div className="font-medium">{formatCost(route.cost)}</div>
+                          <div className="font-medium">{formatCost(route.cost, route.costBreakdown?.currency)}</div>
                         </div>
                       </div>
+                      {route.schedule && (
+                        <div className="space-y-1 pt-2 border-t">
+                          <div className="text-muted-foreground text-xs">
+                            Schedule · leave {formatScheduleTime(route.schedule.departure)} · arrive{" "}
+                            {formatScheduleTime(route.schedule.arrival, route.schedule.departure)}
+                          </div>
+                          {route.schedule.stops.map((stop, stopIndex) => (
+                            <div key={stopIndex} className="flex items-center justify-between text-xs gap-2">
+                              <span className="truncate">{stop.name}</span>
+                              <span className="text-muted-foreground flex-shrink-0">
+                                {stop.arrival && formatScheduleTime(stop.arrival, route.schedule?.departure)}
+                                {stop.arrival && stop.departure && stop.departure !== stop.arrival && "–"}
+                                {stop.departure && stop.departure !== stop.arrival && formatScheduleTime(stop.departure, route.schedule?.departure)}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {route.preferenceChecks && route.preferenceChecks.length > 0 && (
+                        <div className="space-y-1 pt-2 border-t">
+                          <div className="text-muted-foreground text-xs">Route Options</div>
+                          {route.preferenceChecks.map((check) => (
+                            <div key={check.preference} className="flex items-center justify-between text-xs">
+                              <span>{PREFERENCE_LABELS[check.preference]}</span>
+                              <Badge variant={check.status === "honored" ? "secondary" : "outline"} className="text-xs">
+                                {PREFERENCE_STATUS_LABELS[check.status]}
+                              </Badge>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {route.costBreakdown && route.costBreakdown.items.length > 0 && (
+                        <div className="space-y-1 pt-2 border-t">
+                          <div className="text-muted-foreground text-xs">Cost Breakdown</div>
+                          {route.costBreakdown.items.map((item) => (
+                            <div key={item.kind} className="flex items-center justify-between text-xs">
+                              <span>{item.label}</span>
+                              <span>{formatCost(item.amount, route.costBreakdown?.currency)}</span>
+                            </div>
+                          ))}
+                          {route.costBreakdown.passengers > 1 && (
+                            <div className="flex items-center justify-between text-xs font-medium">
+                              <span>Per passenger ({route.costBreakdown.passengers})</span>
+                              <span>{formatCost(route.costBreakdown.perPassenger, route.costBreakdown.currency)}</span>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {route.legs && route.legs.length > 1 && (
+                        <div className="space-y-1 pt-2 border-t">
+                          <div className="text-muted-foreground text-xs">Itinerary</div>
+                          {route.legs.map((leg, legIndex) => {
+                            const legMode = transportModes.find((m) => m.value === leg.mode);
+                            const LegIcon = legMode?.icon;
+                            return (
+                            <div key={legIndex} className="flex items-center justify-between text-xs gap-2">
+                              <span className="truncate flex items-center gap-1">
+                                {LegIcon ? (
+                                  <LegIcon className="h-3 w-3 flex-shrink-0" style={{ color: legMode?.color }} />
+                                ) : (
+                                  `${legIndex + 1}.`
+                                )}{" "}
+                                {leg.from} → {leg.to}
+                              </span>
+                              <span className="text-muted-foreground flex-shrink-0">
+                                {formatDistance(leg.distance)} · {formatDuration(leg.duration)}
+                                {leg.cost ? ` · ${formatCost(leg.cost, route.costBreakdown?.currency)}` : ""}
+                              </span>
+                            </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                      {route.transit && (
+                        <div className="space-y-1 pt-2 border-t">
+                          <div className="text-muted-foreground text-xs">
+                            Transit · {route.transit.transfers} transfer{route.transit.transfers === 1 ? "" : "s"}
+                          </div>
+                          {route.transit.legs.map((leg, legIndex) => (
+                            <div key={legIndex} className="text-xs">
+                              {leg.type === "transit" ? (
+                                <>
+                                  <div className="flex items-center justify-between gap-2">
+                                    <span className="font-medium truncate">
+                                      {leg.line?.shortName || leg.line?.longName || "Service"}
+                                      {leg.line?.headsign && ` → ${leg.line.headsign}`}
+                                    </span>
+                                    <span className="text-muted-foreground flex-shrink-0">
+                                      {formatClockTime(leg.departureTime)}–{formatClockTime(leg.arrivalTime)}
+                                    </span>
+                                  </div>
+                                  <div className="text-muted-foreground truncate">
+                                    {leg.from.name} → {leg.to.name}
+                                    {leg.transferTime ? ` · ${formatDuration(leg.transferTime)} wait` : ""}
+                                  </div>
+                                </>
+                              ) : (
+                                <div className="text-muted-foreground truncate">
+                                  {leg.type === "cycle" ? "Cycle" : leg.type === "drive" ? "Drive" : "Walk"}{" "}
+                                  {formatDistance(leg.distance)} to {leg.to.name}
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {route.instructions && route.instructions.length > 0 && (
+                        <div className="space-y-1 pt-2 border-t">
+                          <div className="text-muted-foreground text-xs">Directions</div>
+                          <RouteInstructions instructions={route.instructions} settings={instructionSettings} />
+                        </div>
+                      )}
+                      {route.alternatives && route.alternatives.length > 1 && (
+                        <div className="space-y-1 pt-2 border-t">
+                          <div className="text-muted-foreground text-xs">Compared Routes</div>
+                          {route.alternatives.map((alternative) => (
+                            <div
+                              key={alternative.rank}
+                              className={`grid grid-cols-4 gap-2 text-xs ${alternative.rank === 1 ? "font-medium" : "text-muted-foreground"}`}
+                            >
+                              <span className="truncate">
+                                {alternative.rank === 1 ? "Selected" : alternative.label || `Option ${alternative.rank}`}
+                              </span>
+                              <span>{formatDistance(alternative.distance)}</span>
+                              <span>{formatDuration(alternative.duration)}</span>
+                              <span>{formatCost(alternative.cost, route.costBreakdown?.currency)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       <div className="flex items-center gap-2 pt-2 border-t">
                         <Leaf className="h-4 w-4 text-green-600" />
                         <div className="flex-1">
@@ -512,6 +1110,11 @@ export default function Home() {
                           </div>
                         </div>
                         <span className="text-xs font-medium">{ecoScore}%</span>
+                        {route.co2Kg !== undefined && (
+                          <span className="text-xs text-muted-foreground">
+                            {route.co2Kg.toFixed(1)} kg CO₂
+                          </span>
+                        )}
                       </div>
                     </Card>
                   );
@@ -533,7 +1136,22 @@ export default function Home() {
 
         {/* Map */}
         <div className="flex-1 h-full relative">
-          <MapComponent routes={routes} transportModes={transportModes} />
+          <MapComponent
+            routes={routes}
+            transportModes={transportModes}
+            onMapClick={handleMapClick}
+            picking={pickingTarget !== null}
+            pickedLocations={[
+              ...(sourceCoordinates ? [{ label: source, coordinates: sourceCoordinates }] : []),
+              ...(destinationCoordinates ? [{ label: destination, coordinates: destinationCoordinates }] : []),
+            ]}
+            isochrones={isochrones}
+          />
+          {pickingTarget && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] rounded-md bg-card border border-border px-3 py-2 text-sm shadow-md">
+              Click the map to set your {pickingTarget === "source" ? "starting point" : "destination"}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -8,6 +8,8 @@ import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { readTravelPreferences } from "@/components/RouteInstructions";
 import {
   User,
   Phone,
@@ -19,8 +21,19 @@ import {
   Mail,
   Calendar,
   Edit,
+  Navigation,
 } from "lucide-react";
 import { useSession } from "@/lib/auth-client";
+import {
+  DISTANCE_UNITS,
+  INSTRUCTION_LOCALES,
+  LOCALE_LABELS,
+  defaultInstructionSettings,
+  parseInstructionSettings,
+  type DistanceUnits,
+  type InstructionLocale,
+  type InstructionSettings,
+} from "@/lib/routing/instructions";
 import { toast } from "sonner";
 
 interface UserProfile {
@@ -34,6 +47,17 @@ interface UserProfile {
   updatedAt: string;
 }
 
+const DISTANCE_UNIT_LABELS: Record<DistanceUnits, string> = {
+  metric: "Kilometers and meters",
+  imperial: "Miles and feet",
+};
+
+// Saved direction settings, filled in from the browser's language
+function instructionSettingsOf(profile: UserProfile): InstructionSettings {
+  const saved = parseInstructionSettings(readTravelPreferences(profile.travelPreferences));
+  return { ...defaultInstructionSettings(navigator.language), ...(typeof saved === "string" ? {} : saved) };
+}
+
 export default function ProfilePage() {
   const router = useRouter();
   const { data: session, isPending } = useSession();
@@ -47,6 +71,7 @@ export default function ProfilePage() {
     phone: "",
     emergencyContactName: "",
     emergencyContactPhone: "",
+    ...defaultInstructionSettings(),
   });
 
   useEffect(() => {
@@ -78,6 +103,7 @@ export default function ProfilePage() {
           phone: data.phone || "",
           emergencyContactName: data.emergencyContactName || "",
           emergencyContactPhone: data.emergencyContactPhone || "",
+          ...instructionSettingsOf(data),
         });
       }
     } catch (err) {
@@ -93,13 +119,21 @@ export default function ProfilePage() {
 
     try {
       const token = localStorage.getItem("bearer_token");
+      const { language, distanceUnits, ...contact } = formData;
       const response = await fetch("/api/profile", {
-        method: "PUT",
+        method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...contact,
+          travelPreferences: {
+            ...readTravelPreferences(profile?.travelPreferences),
+            language,
+            distanceUnits,
+          },
+        }),
       });
 
       if (!response.ok) {
@@ -309,6 +343,62 @@ export default function ProfilePage() {
               </div>
             </div>
 
+            <div className="border-t pt-4">
+              <div className="flex items-center gap-2 mb-3">
+                <Navigation className="h-4 w-4" />
+                <Label className="text-base font-semibold">
+                  Directions
+                </Label>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="directionsLanguage">Language</Label>
+                  <Select
+                    value={formData.language}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, language: value as InstructionLocale })
+                    }
+                    disabled={!editing}
+                  >
+                    <SelectTrigger id="directionsLanguage" className="mt-1 w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INSTRUCTION_LOCALES.map((locale) => (
+                        <SelectItem key={locale} value={locale}>
+                          {LOCALE_LABELS[locale]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="distanceUnits">Distance Units</Label>
+                  <Select
+                    value={formData.distanceUnits}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, distanceUnits: value as DistanceUnits })
+                    }
+                    disabled={!editing}
+                  >
+                    <SelectTrigger id="distanceUnits" className="mt-1 w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DISTANCE_UNITS.map((units) => (
+                        <SelectItem key={units} value={units}>
+                          {DISTANCE_UNIT_LABELS[units]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Turn-by-turn directions are shown in this language and these units
+              </p>
+            </div>
+
             {editing && (
               <div className="flex gap-2 pt-4">
                 <Button
@@ -338,6 +428,7 @@ export default function ProfilePage() {
                         phone: profile.phone || "",
                         emergencyContactName: profile.emergencyContactName || "",
                         emergencyContactPhone: profile.emergencyContactPhone || "",
+                        ...instructionSettingsOf(profile),
                       });
                     }
                   }}
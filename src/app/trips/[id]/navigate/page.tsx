@@ -0,0 +1,498 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import dynamic from "next/dynamic";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useInstructionSettings, type RouteInstruction } from "@/components/RouteInstructions";
+import {
+  ArrowLeft,
+  Navigation,
+  Square,
+  Volume2,
+  VolumeX,
+  Loader2,
+  AlertTriangle,
+  Flag,
+} from "lucide-react";
+import { useSession } from "@/lib/auth-client";
+import { announceManeuver, formatDistance, renderInstruction } from "@/lib/routing/instructions";
+import { currentStep, prepareNavigationRoute, routeProgress, type RouteProgress } from "@/lib/routing/navigation";
+import { parseLatLng } from "@/lib/routing/geo";
+import { toast } from "sonner";
+
+const MapComponent = dynamic(() => import("@/components/MapComponent"), {
+  ssr: false,
+  loading: () => (
+    <div className="w-full h-full flex items-center justify-center bg-muted">
+      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+    </div>
+  ),
+});
+
+// A fix further than this from the route, or than its own accuracy, is off route
+const OFF_ROUTE_METERS = 40;
+// Off-route fixes in a row before a new route is requested
+const OFF_ROUTE_FIXES = 3;
+const REROUTE_COOLDOWN_MS = 30000;
+// Remaining distance at which the traveller has arrived
+const ARRIVAL_METERS = 25;
+// Distances ahead of a maneuver at which it is announced, furthest first; the
+// last announces it without a distance, as it happens
+const ANNOUNCE_DISTANCES: Record<string, number[]> = {
+  car: [1000, 300, 40],
+  cycling: [200, 60, 15],
+  walking: [100, 30, 10],
+};
+
+interface RouteStop {
+  name: string;
+  coordinates: [number, number];
+  type: "start" | "pickup" | "destination";
+}
+
+interface Trip {
+  id: number;
+  source: string;
+  destination: string;
+  transportMode: string;
+  optimizationMode: string;
+  routePreferences: Record<string, unknown> | null;
+  routeData: any;
+  routeGeometry: [number, number][] | null;
+  destinationCoordinates: string | null;
+}
+
+// The route being followed: the saved one, or a reroute from where the
+// traveller left it
+interface ActiveRoute {
+  coordinates: [number, number][];
+  instructions: RouteInstruction[];
+  distance: number;
+  duration: number;
+  stops?: RouteStop[];
+}
+
+export default function TripNavigationPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, isPending } = useSession();
+  const settings = useInstructionSettings(!!session?.user);
+  const tripId = params.id as string;
+
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [route, setRoute] = useState<ActiveRoute | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tracking, setTracking] = useState(false);
+  const [voice, setVoice] = useState(true);
+  const [position, setPosition] = useState<{ coordinates: [number, number]; accuracy: number } | null>(null);
+  const [progress, setProgress] = useState<RouteProgress | null>(null);
+  const [offRoute, setOffRoute] = useState(false);
+  const [rerouting, setRerouting] = useState(false);
+  const [arrived, setArrived] = useState(false);
+  const [geolocationError, setGeolocationError] = useState("");
+
+  const watchIdRef = useRef<number | null>(null);
+  // Progress along the route from the last on-route fix
+  const travelledRef = useRef(0);
+  const offRouteFixesRef = useRef(0);
+  const lastRerouteRef = useRef(0);
+  // "<step>:<distance>" for each announcement already made
+  const announcedRef = useRef(new Set<string>());
+  const activeStepRef = useRef<HTMLLIElement | null>(null);
+
+  useEffect(() => {
+    if (!isPending && !session?.user) {
+      router.push(`/login?redirect=${encodeURIComponent(window.location.pathname)}`);
+    }
+  }, [session, isPending, router]);
+
+  useEffect(() => {
+    if (session?.user && tripId) {
+      fetchTrip();
+    }
+  }, [session, tripId]);
+
+  // Stop watching the position when leaving the page
+  useEffect(() => stopTracking, []);
+
+  const fetchTrip = async () => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/trips/${tripId}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to load trip");
+      }
+
+      const data: Trip = await response.json();
+      const saved = data.routeData?.[0];
+      // The saved route's instructions are laid along its own line, which
+      // runs through any pickups; the trip's direct geometry is only a
+      // fallback for routes saved without one
+      const followSaved = Array.isArray(saved?.coordinates) && saved.coordinates.length >= 2;
+      setTrip(data);
+      setRoute({
+        coordinates: followSaved ? saved.coordinates : data.routeGeometry || [],
+        instructions: followSaved ? saved.instructions || [] : [],
+        distance: saved?.distance || 0,
+        duration: saved?.duration || 0,
+        stops: saved?.stops,
+      });
+    } catch (err) {
+      toast.error("Failed to load trip");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const navigation = useMemo(
+    () => (route ? prepareNavigationRoute(route.coordinates, route.instructions) : null),
+    [route]
+  );
+
+  const mapRoutes = useMemo(
+    () =>
+      route && trip
+        ? [{ coordinates: route.coordinates, distance: route.distance, duration: route.duration, cost: 0, mode: trip.transportMode, stops: route.stops }]
+        : [],
+    [route, trip]
+  );
+
+  const speak = (text: string) => {
+    if (!voice || typeof window === "undefined" || !("speechSynthesis" in window)) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = settings.language;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const startTracking = () => {
+    if (!("geolocation" in navigator)) {
+      setGeolocationError("This browser cannot share its location");
+      return;
+    }
+    setGeolocationError("");
+    setArrived(false);
+    setTracking(true);
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      (fix) =>
+        setPosition({
+          coordinates: [fix.coords.latitude, fix.coords.longitude],
+          accuracy: fix.coords.accuracy,
+        }),
+      (error) => {
+        setGeolocationError(
+          error.code === error.PERMISSION_DENIED
+            ? "Location access was denied. Allow it in your browser to navigate."
+            : "Your location is unavailable right now"
+        );
+      },
+      { enableHighAccuracy: true, maximumAge: 1000, timeout: 15000 }
+    );
+  };
+
+  function stopTracking() {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    if (typeof window !== "undefined" && "speechSynthesis" in window) {
+      window.speechSynthesis.cancel();
+    }
+    setTracking(false);
+  }
+
+  // Ask for a new route from the current position, keeping any pickups
+  // that are still ahead
+  const reroute = async (from: [number, number]) => {
+    if (!trip || !route || !navigation) return;
+    if (rerouting || Date.now() - lastRerouteRef.current < REROUTE_COOLDOWN_MS) return;
+    lastRerouteRef.current = Date.now();
+    setRerouting(true);
+
+    try {
+      const pickups = (route.stops || []).filter((stop) => {
+        if (stop.type !== "pickup") return false;
+        const stopProgress = routeProgress(navigation, stop.coordinates);
+        return !!stopProgress && stopProgress.travelled > travelledRef.current;
+      });
+
+      const response = await fetch("/api/route", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          boardingPoints: ["Current location", ...pickups.map((stop) => stop.name)],
+          boardingPointCoordinates: [from, ...pickups.map((stop) => stop.coordinates)],
+          destination: trip.destination,
+          destinationCoordinates: parseLatLng(trip.destinationCoordinates),
+          transportMode: trip.transportMode,
+          optimizationMode: trip.optimizationMode,
+          waypointMode: pickups.length > 0 ? "sequential" : "independent",
+          preferences: trip.routePreferences || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      const next = data.routes?.[0];
+      if (!response.ok || !next) {
+        throw new Error(data.error || "Failed to find a new route");
+      }
+
+      travelledRef.current = 0;
+      offRouteFixesRef.current = 0;
+      announcedRef.current.clear();
+      setOffRoute(false);
+      setRoute({
+        coordinates: next.coordinates,
+        instructions: next.instructions || [],
+        distance: next.distance,
+        duration: next.duration,
+        stops: next.stops,
+      });
+      toast.success("Route updated");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to find a new route");
+    } finally {
+      setRerouting(false);
+    }
+  };
+
+  // Follow each fix along the route: progress, announcements and deviation
+  useEffect(() => {
+    if (!tracking || !position || !navigation || !route) return;
+
+    const next = routeProgress(navigation, position.coordinates, travelledRef.current);
+    if (!next) return;
+
+    const deviating = next.offRoute > Math.max(OFF_ROUTE_METERS, position.accuracy);
+    offRouteFixesRef.current = deviating ? offRouteFixesRef.current + 1 : 0;
+    setOffRoute(offRouteFixesRef.current >= OFF_ROUTE_FIXES);
+    if (deviating) {
+      if (offRouteFixesRef.current >= OFF_ROUTE_FIXES) reroute(position.coordinates);
+      return;
+    }
+
+    travelledRef.current = next.travelled;
+    setProgress(next);
+
+    if (navigation.length - next.travelled < ARRIVAL_METERS) {
+      const arrival = route.instructions[route.instructions.length - 1];
+      stopTracking();
+      if (!arrived && arrival) speak(renderInstruction(arrival, settings.language));
+      setArrived(true);
+      return;
+    }
+
+    // Announce the next maneuver once per threshold, only the nearest one
+    // already passed so a late start does not read out every distance
+    const upcomingIndex = currentStep(navigation, next.travelled) + 1;
+    const upcoming = route.instructions[upcomingIndex];
+    if (!upcoming) return;
+    const distance = navigation.stepStarts[upcomingIndex] - next.travelled;
+    const thresholds = ANNOUNCE_DISTANCES[trip?.transportMode || ""] || ANNOUNCE_DISTANCES.car;
+    const reached = thresholds.filter((threshold) => distance <= threshold);
+    const nearest = reached[reached.length - 1];
+    if (nearest === undefined || announcedRef.current.has(`${upcomingIndex}:${nearest}`)) return;
+
+    reached.forEach((threshold) => announcedRef.current.add(`${upcomingIndex}:${threshold}`));
+    speak(
+      nearest === thresholds[thresholds.length - 1]
+        ? renderInstruction(upcoming, settings.language)
+        : announceManeuver(upcoming, distance, settings)
+    );
+  }, [position, navigation]);
+
+  const upcomingIndex = navigation && progress ? currentStep(navigation, progress.travelled) + 1 : 1;
+
+  useEffect(() => {
+    activeStepRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [upcomingIndex]);
+
+  if (isPending || loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!trip || !route || !navigation || route.coordinates.length < 2) {
+    return (
+      <div className="flex h-screen items-center justify-center p-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertDescription>This trip has no route to navigate</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  // The line may be simplified, so remaining figures scale the routed totals
+  const remainingShare = navigation.length > 0 ? Math.max(0, navigation.length - (progress?.travelled || 0)) / navigation.length : 1;
+  const remainingDistance = (route.distance || navigation.length) * remainingShare;
+  const remainingDuration = route.duration * remainingShare;
+  const eta = new Date(Date.now() + remainingDuration * 1000).toLocaleTimeString(settings.language, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const upcoming = route.instructions[upcomingIndex];
+  const distanceToUpcoming = upcoming ? navigation.stepStarts[upcomingIndex] - (progress?.travelled || 0) : 0;
+
+  const formatDuration = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.round((seconds % 3600) / 60);
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m`;
+  };
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card px-4 py-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-3 min-w-0">
+            <Button variant="ghost" size="sm" onClick={() => router.push(`/trips/${tripId}`)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Trip
+            </Button>
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">To {trip.destination}</p>
+              <p className="text-xs text-muted-foreground capitalize">{trip.transportMode}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setVoice(!voice)}
+              title={voice ? "Mute voice guidance" : "Turn on voice guidance"}
+            >
+              {voice ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+            </Button>
+            {tracking ? (
+              <Button variant="destructive" size="sm" onClick={stopTracking}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button size="sm" onClick={startTracking}>
+                <Navigation className="h-4 w-4 mr-2" />
+                {progress ? "Resume" : "Start"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <div className="flex flex-1 flex-col md:flex-row overflow-hidden">
+        {/* Map */}
+        <div className="relative flex-1 min-h-[50vh]">
+          <MapComponent
+            routes={mapRoutes}
+            transportModes={[]}
+            currentPosition={tracking ? position?.coordinates ?? null : null}
+          />
+          {upcoming && !arrived && (
+            <div className="absolute top-4 left-4 right-4 z-[1000] rounded-lg bg-card border border-border p-4 shadow-md" lang={settings.language}>
+              <div className="text-2xl font-bold">
+                {formatDistance(Math.max(0, distanceToUpcoming), settings.distanceUnits, settings.language)}
+              </div>
+              <div className="text-base">{renderInstruction(upcoming, settings.language)}</div>
+            </div>
+          )}
+        </div>
+
+        {/* Progress and directions */}
+        <div className="w-full md:w-96 border-t md:border-t-0 md:border-l border-border bg-card flex flex-col overflow-hidden">
+          <div className="p-4 space-y-3 border-b border-border">
+            {geolocationError && (
+              <Alert variant="destructive">
+                <AlertDescription>{geolocationError}</AlertDescription>
+              </Alert>
+            )}
+            {arrived && (
+              <Alert>
+                <Flag className="h-4 w-4" />
+                <AlertDescription>You have arrived at {trip.destination}</AlertDescription>
+              </Alert>
+            )}
+            {offRoute && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription className="flex items-center gap-2">
+                  {rerouting ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Off route, finding a new one...
+                    </>
+                  ) : (
+                    "Off route"
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <div className="text-muted-foreground text-xs">Remaining</div>
+                <div className="font-medium">
+                  {formatDistance(remainingDistance, settings.distanceUnits, settings.language)}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground text-xs">Time left</div>
+                <div className="font-medium">{formatDuration(remainingDuration)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground text-xs">Arrival</div>
+                <div className="font-medium">{eta}</div>
+              </div>
+            </div>
+            {tracking && position && (
+              <Badge variant="secondary" className="text-xs">
+                GPS ± {Math.round(position.accuracy)} m
+              </Badge>
+            )}
+          </div>
+
+          {route.instructions.length > 0 ? (
+            <ol className="flex-1 overflow-y-auto p-2" lang={settings.language}>
+              {route.instructions.map((step, index) => (
+                <li
+                  key={index}
+                  ref={index === upcomingIndex ? activeStepRef : undefined}
+                  className={`flex items-start justify-between gap-2 rounded-md px-2 py-2 text-sm ${
+                    index === upcomingIndex
+                      ? "bg-primary text-primary-foreground"
+                      : index < upcomingIndex - 1
+                        ? "text-muted-foreground line-through"
+                        : ""
+                  }`}
+                >
+                  <span>{renderInstruction(step, settings.language)}</span>
+                  {step.distance > 0 && (
+                    <span className="flex-shrink-0 text-xs opacity-80">
+                      {formatDistance(step.distance, settings.distanceUnits, settings.language)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="p-4 text-sm text-muted-foreground">
+              This route has no turn-by-turn directions; follow the line on the map.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
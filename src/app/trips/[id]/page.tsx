@@ -9,6 +9,8 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import ElevationChart, { type ElevationProfile } from "@/components/ElevationChart";
+import RouteInstructions, { useInstructionSettings, type RouteInstruction } from "@/components/RouteInstructions";
 import {
   ArrowLeft,
   MapPin,
@@ -31,6 +33,11 @@ import {
   Mail,
   Phone,
   Shield,
+  Leaf,
+  Shuffle,
+  Download,
+  Mountain,
+  Navigation,
 } from "lucide-react";
 import { useSession } from "@/lib/auth-client";
 import { toast } from "sonner";
@@ -44,6 +51,31 @@ const MapComponent = dynamic(() => import("@/components/MapComponent"), {
   ),
 });
 
+interface CostBreakdown {
+  version: string;
+  currency: string;
+  items: Array<{ kind: string; label: string; amount: number; shared: boolean }>;
+  total: number;
+  passengers: number;
+  perPassenger: number;
+}
+
+// Times are local "YYYY-MM-DDTHH:MM"
+interface TripSchedule {
+  timeMode: "depart_at" | "arrive_by";
+  departure: string;
+  arrival: string;
+  stops: Array<{ name: string; arrival?: string; departure?: string }>;
+}
+
+interface RoutePreferences {
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+  avoidFerries?: boolean;
+  preferBikeLanes?: boolean;
+  maxWalkingDistance?: number;
+}
+
 interface Trip {
   id: number;
   userId: string;
@@ -51,6 +83,9 @@ interface Trip {
   destination: string;
   travelDate: string;
   travelTime: string;
+  timeMode: "depart_at" | "arrive_by";
+  departureWindow: number;
+  routePreferences: RoutePreferences | null;
   transportMode: string;
   optimizationMode: string;
   status: string;
@@ -58,6 +93,9 @@ interface Trip {
   routeGeometry: [number, number][] | null;
   sourceCoordinates: string | null;
   destinationCoordinates: string | null;
+  costBreakdown: CostBreakdown | null;
+  co2Kg: number | null;
+  co2Saved: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -67,6 +105,10 @@ interface Match {
   tripId: number;
   matchedTripId: number;
   matchScore: number;
+  // Missing on matches made before scores were broken down
+  scoreBreakdown: {
+    rules: Array<{ rule: string; matched: boolean; weight: number; distanceKm?: number; overlapMinutes?: number; detourMinutes?: number }>;
+  } | null;
   status: string;
   createdAt: string;
   matchedTrip: {
@@ -76,7 +118,10 @@ interface Match {
     destination: string;
     travelDate: string;
     travelTime: string;
+    timeMode: "depart_at" | "arrive_by";
+    departureWindow: number;
     transportMode: string;
+    routeData: Array<{ schedule?: TripSchedule | null }> | null;
     user?: {
       name: string;
       email: string;
@@ -85,6 +130,19 @@ interface Match {
   };
 }
 
+const matchRuleLabels: Record<string, string> = {
+  same_destination: "Same destination",
+  same_departure_airport: "Same departure airport",
+  same_arrival_airport: "Same arrival airport",
+  pickup_along_route: "Pickup along their route",
+  dropoff_along_route: "Drop-off along their route",
+  detour: "Their detour",
+  routes_overlap: "They start along your route",
+  departure_window: "Departure times overlap",
+  same_date: "Same day",
+  same_mode: "Same transport mode",
+};
+
 const transportModes = [
   { value: "car", label: "Car", icon: Car, color: "#3b82f6" },
   { value: "cycling", label: "Cycling", icon: Bike, color: "#10b981" },
@@ -92,12 +150,14 @@ const transportModes = [
   { value: "bus", label: "Bus", icon: Bus, color: "#f59e0b" },
   { value: "train", label: "Train", icon: Train, color: "#ef4444" },
   { value: "flight", label: "Flight", icon: Plane, color: "#06b6d4" },
+  { value: "multimodal", label: "Multimodal", icon: Shuffle, color: "#ec4899" },
 ];
 
 export default function TripDetailsPage() {
   const params = useParams();
   const router = useRouter();
   const { data: session, isPending } = useSession();
+  const instructionSettings = useInstructionSettings(!!session?.user);
   const tripId = params.id as string;
 
   const [trip, setTrip] = useState<Trip | null>(null);
@@ -188,6 +248,32 @@ export default function TripDetailsPage() {
     }
   };
 
+  // Save the route as a file for navigation devices and other mapping tools
+  const handleExport = async (format: "gpx" | "kml" | "geojson") => {
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/trips/${tripId}/export?format=${format}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to export route");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `trip-${tripId}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to export route");
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       weekday: "short",
@@ -205,6 +291,8 @@ export default function TripDetailsPage() {
     return `${displayHour}:${minutes} ${ampm}`;
   };
 
+  const formatScheduleTime = (value: string) => formatTime(value.slice(11, 16));
+
   const getTransportIcon = (mode: string) => {
     const transport = transportModes.find((t) => t.value === mode);
     return transport?.icon || Car;
@@ -224,6 +312,10 @@ export default function TripDetailsPage() {
       .slice(0, 2);
   };
 
+  const formatCost = (cost: number, currency = "USD") => {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cost);
+  };
+
   const getMatchScoreColor = (score: number) => {
     if (score >= 80) return "text-green-600 bg-green-50 border-green-200";
     if (score >= 60) return "text-blue-600 bg-blue-50 border-blue-200";
@@ -255,6 +347,17 @@ export default function TripDetailsPage() {
   }
 
   const TransportIcon = getTransportIcon(trip.transportMode);
+  const schedule: TripSchedule | null = trip.routeData?.[0]?.schedule || null;
+  const elevation: ElevationProfile | null = trip.routeData?.[0]?.elevation || null;
+  const instructions: RouteInstruction[] = trip.routeData?.[0]?.instructions || [];
+
+  const preferenceLabels = [
+    trip.routePreferences?.avoidTolls && "Avoid tolls",
+    trip.routePreferences?.avoidHighways && "Avoid highways",
+    trip.routePreferences?.avoidFerries && "Avoid ferries",
+    trip.routePreferences?.preferBikeLanes && "Prefer bike lanes",
+    trip.routePreferences?.maxWalkingDistance && `Walk at most ${trip.routePreferences.maxWalkingDistance} m`,
+  ].filter((label): label is string => !!label);
   
   // Use routeGeometry if available, otherwise fall back to routeData
   const routes = trip.routeGeometry 
@@ -338,10 +441,13 @@ export default function TripDetailsPage() {
                   <div className="space-y-1">
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
                       <Clock className="h-3 w-3" />
-                      Time
+                      {trip.timeMode === "arrive_by" ? "Arrive by" : "Depart at"}
                     </div>
                     <p className="text-sm font-medium">
                       {formatTime(trip.travelTime)}
+                      {trip.departureWindow > 0 && (
+                        <span className="text-muted-foreground font-normal"> ±{trip.departureWindow} min</span>
+                      )}
                     </p>
                   </div>
                   <div className="space-y-1">
@@ -363,19 +469,90 @@ export default function TripDetailsPage() {
                     </p>
                   </div>
                 </div>
+
+                {preferenceLabels.length > 0 && (
+                  <div className="flex flex-wrap gap-2 pt-4 border-t">
+                    {preferenceLabels.map((label) => (
+                      <Badge key={label} variant="outline">{label}</Badge>
+                    ))}
+                  </div>
+                )}
               </div>
             </Card>
 
             {/* Route Map */}
             {routes.length > 0 && (
               <Card className="p-6">
-                <h2 className="text-lg font-semibold mb-4">Route Preview</h2>
+                <div className="flex items-center justify-between mb-4 gap-2">
+                  <h2 className="text-lg font-semibold">Route Preview</h2>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => router.push(`/trips/${tripId}/navigate`)}>
+                      <Navigation className="h-4 w-4 mr-1" />
+                      Navigate
+                    </Button>
+                    {(["gpx", "kml", "geojson"] as const).map((format) => (
+                      <Button key={format} variant="outline" size="sm" onClick={() => handleExport(format)}>
+                        <Download className="h-4 w-4 mr-1" />
+                        {format.toUpperCase()}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
                 <div className="h-96 rounded-lg overflow-hidden border border-border">
                   <MapComponent routes={routes} transportModes={transportModes} />
                 </div>
               </Card>
             )}
 
+            {/* Elevation */}
+            {elevation && (
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <Mountain className="h-5 w-5" />
+                  Elevation
+                </h2>
+                <ElevationChart profile={elevation} />
+              </Card>
+            )}
+
+            {/* Directions */}
+            {instructions.length > 0 && (
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <Navigation className="h-5 w-5" />
+                  Directions
+                </h2>
+                <RouteInstructions instructions={instructions} settings={instructionSettings} initialSteps={10} />
+              </Card>
+            )}
+
+            {/* Schedule */}
+            {schedule && (
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  Schedule
+                </h2>
+                <div className="space-y-3">
+                  {schedule.stops.map((stop, index) => (
+                    <div key={index} className="flex items-center justify-between gap-4 text-sm">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <MapPin
+                          className={`h-4 w-4 flex-shrink-0 ${index === schedule.stops.length - 1 ? "text-primary" : "text-muted-foreground"}`}
+                        />
+                        <span className="truncate">{stop.name}</span>
+                      </div>
+                      <span className="font-medium flex-shrink-0">
+                        {stop.arrival && formatScheduleTime(stop.arrival)}
+                        {stop.arrival && stop.departure && stop.departure !== stop.arrival && " – "}
+                        {stop.departure && stop.departure !== stop.arrival && formatScheduleTime(stop.departure)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
             {/* Potential Matches */}
             <Card className="p-6">
               <div className="flex items-center justify-between mb-4">
@@ -407,6 +584,7 @@ export default function TripDetailsPage() {
                     const userName = match.matchedTrip.user?.name || "Anonymous User";
                     const userEmail = match.matchedTrip.user?.email || "No email available";
                     const userImage = match.matchedTrip.user?.image || null;
+                    const matchSchedule = match.matchedTrip.routeData?.[0]?.schedule;
                     
                     return (
                     <Card key={match.id} className="p-4 hover:shadow-md transition-shadow">
@@ -449,7 +627,12 @@ export default function TripDetailsPage() {
                             </div>
                             <div className="flex items-center gap-2">
                               <Clock className="h-3 w-3 text-muted-foreground" />
-                              <span>{formatTime(match.matchedTrip.travelTime)}</span>
+                              <span>
+                                {matchSchedule
+                                  ? `${formatScheduleTime(matchSchedule.departure)} → ${formatScheduleTime(matchSchedule.arrival)}`
+                                  : `${match.matchedTrip.timeMode === "arrive_by" ? "By " : ""}${formatTime(match.matchedTrip.travelTime)}`}
+                                {match.matchedTrip.departureWindow > 0 && ` ±${match.matchedTrip.departureWindow} min`}
+                              </span>
                             </div>
                             <div className="flex items-center gap-2 capitalize">
                               {(() => {
@@ -460,6 +643,23 @@ export default function TripDetailsPage() {
                             </div>
                           </div>
 
+                          {match.scoreBreakdown && (
+                            <div className="flex flex-wrap gap-1 mb-3">
+                              {match.scoreBreakdown.rules
+                                .filter((result) => result.matched)
+                                .map((result) => (
+                                  <Badge key={result.rule} variant="secondary" className="text-xs font-normal">
+                                    <Check className="h-3 w-3 mr-1" />
+                                    {matchRuleLabels[result.rule] || result.rule}
+                                    {result.detourMinutes !== undefined
+                                      ? ` +${result.detourMinutes} min (${result.distanceKm} km)`
+                                      : result.distanceKm !== undefined && ` (${result.distanceKm} km)`}
+                                    {result.overlapMinutes !== undefined && ` (${result.overlapMinutes} min)`}
+                                  </Badge>
+                                ))}
+                            </div>
+                          )}
+
                           {match.status === "pending" ? (
                             <div className="flex gap-2">
                               <Button
@@ -522,6 +722,64 @@ export default function TripDetailsPage() {
               </div>
             </Card>
 
+            {/* Trip Cost */}
+            {trip.costBreakdown && (
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold flex items-center gap-2 mb-4">
+                  <DollarSign className="h-5 w-5" />
+                  Trip Cost
+                </h2>
+                <div className="space-y-2 text-sm">
+                  {trip.costBreakdown.items.map((item) => (
+                    <div key={item.kind} className="flex items-center justify-between">
+                      <span className="text-muted-foreground">
+                        {item.label}
+                        {item.shared && trip.costBreakdown!.passengers > 1 && " (shared)"}
+                      </span>
+                      <span>{formatCost(item.amount, trip.costBreakdown!.currency)}</span>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between pt-2 border-t font-medium">
+                    <span>Total</span>
+                    <span>{formatCost(trip.costBreakdown.total, trip.costBreakdown.currency)}</span>
+                  </div>
+                  <div className="flex items-center justify-between font-medium">
+                    <span>
+                      Your share
+                      {trip.costBreakdown.passengers > 1 && ` (${trip.costBreakdown.passengers} travelers)`}
+                    </span>
+                    <span>{formatCost(trip.costBreakdown.perPassenger, trip.costBreakdown.currency)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Cost model {trip.costBreakdown.version}</p>
+                </div>
+              </Card>
+            )}
+
+            {/* Emissions */}
+            {trip.co2Kg !== null && (
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold flex items-center gap-2 mb-4">
+                  <Leaf className="h-5 w-5 text-green-600" />
+                  Emissions
+                </h2>
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Estimated CO₂</span>
+                    <span className="font-medium">{trip.co2Kg.toFixed(1)} kg</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Saved by sharing</span>
+                    <span className="font-medium text-green-600">{trip.co2Saved.toFixed(1)} kg</span>
+                  </div>
+                  {trip.co2Saved === 0 && trip.transportMode === "car" && (
+                    <p className="text-xs text-muted-foreground">
+                      Connect with a companion to share the ride and cut emissions.
+                    </p>
+                  )}
+                </div>
+              </Card>
+            )}
+
             {/* Safety Tips */}
             <Card className="p-6 bg-muted/50">
               <h2 className="text-lg font-semibold flex items-center gap-2 mb-3">
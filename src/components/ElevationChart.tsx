@@ -0,0 +1,90 @@
+"use client";
+
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+export interface ElevationProfile {
+  ascent: number;
+  descent: number;
+  minElevation: number;
+  maxElevation: number;
+  maxGrade: number;
+  climbingTime: number;
+  points: Array<{ distance: number; elevation: number; grade: number }>;
+}
+
+const chartConfig = {
+  elevation: {
+    label: "Elevation (m)",
+    color: "#10b981",
+  },
+} satisfies ChartConfig;
+
+export default function ElevationChart({ profile }: { profile: ElevationProfile }) {
+  const data = profile.points.map((point) => ({
+    km: Math.round(point.distance / 100) / 10,
+    elevation: point.elevation,
+    grade: point.grade,
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <div className="text-xs text-muted-foreground">Ascent</div>
+          <div className="font-medium">↑ {profile.ascent} m</div>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Descent</div>
+          <div className="font-medium">↓ {profile.descent} m</div>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Range</div>
+          <div className="font-medium">
+            {profile.minElevation}–{profile.maxElevation} m
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Steepest</div>
+          <div className="font-medium">{profile.maxGrade}%</div>
+        </div>
+      </div>
+      <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+        <AreaChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="km" type="number" domain={["dataMin", "dataMax"]} tickLine={false} unit=" km" />
+          <YAxis
+            dataKey="elevation"
+            domain={["dataMin - 10", "dataMax + 10"]}
+            tickLine={false}
+            width={48}
+            unit=" m"
+            allowDecimals={false}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const point = payload?.[0]?.payload;
+                  return point ? `${point.km} km · ${point.grade}% grade` : "";
+                }}
+              />
+            }
+          />
+          <Area
+            dataKey="elevation"
+            type="monotone"
+            stroke="var(--color-elevation)"
+            fill="var(--color-elevation)"
+            fillOpacity={0.25}
+          />
+        </AreaChart>
+      </ChartContainer>
+      {profile.climbingTime > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Includes about {Math.round(profile.climbingTime / 60)} min extra for climbing.
+        </p>
+      )}
+    </div>
+  );
+}
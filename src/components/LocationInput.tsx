@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Crosshair, Loader2, MapPin } from "lucide-react";
+
+export interface PickedLocation {
+  name: string;
+  coordinates: [number, number];
+}
+
+interface Suggestion {
+  displayName: string;
+  coordinates: [number, number];
+}
+
+interface LocationInputProps {
+  value: string;
+  placeholder?: string;
+  // Point to bias suggestions towards, e.g. the other end of the trip
+  near?: [number, number] | null;
+  // Whether the map is waiting for a click to set this location
+  picking?: boolean;
+  onChange: (value: string) => void;
+  onSelect: (location: PickedLocation) => void;
+  onPickOnMap?: () => void;
+}
+
+const SUGGEST_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+export default function LocationInput({
+  value,
+  placeholder,
+  near,
+  picking = false,
+  onChange,
+  onSelect,
+  onPickOnMap,
+}: LocationInputProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  // Set after a pick so the chosen name does not trigger another search
+  const selectedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const query = value.trim();
+    if (query.length < MIN_QUERY_LENGTH || selectedRef.current === value) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ q: query });
+        if (near) {
+          params.set("lat", String(near[0]));
+          params.set("lon", String(near[1]));
+        }
+        const token = localStorage.getItem("bearer_token");
+        const response = await fetch(`/api/geocode/suggest?${params}`, {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setSuggestions(data.suggestions || []);
+        }
+      } catch {
+        // Aborted by a newer keystroke, or the lookup failed; typing still works
+      } finally {
+        setLoading(false);
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, near?.[0], near?.[1]]);
+
+  const select = (suggestion: Suggestion) => {
+    selectedRef.current = suggestion.displayName;
+    setOpen(false);
+    setSuggestions([]);
+    onSelect({ name: suggestion.displayName, coordinates: suggestion.coordinates });
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Input
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => {
+              selectedRef.current = null;
+              setOpen(true);
+              onChange(e.target.value);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+          />
+          {loading && (
+            <Loader2 className="h-4 w-4 animate-spin absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          )}
+        </div>
+        {onPickOnMap && (
+          <Button
+            type="button"
+            variant={picking ? "default" : "outline"}
+            size="icon"
+            onClick={onPickOnMap}
+            title="Pick on map"
+          >
+            <Crosshair className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {open && suggestions.length > 0 && (
+        <div className="absolute z-[1000] mt-1 w-full rounded-md border border-border bg-popover shadow-md overflow-hidden">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={`${suggestion.displayName}-${index}`}
+              type="button"
+              className="flex w-full items-start gap-2 px-3 py-2 text-left text-sm hover:bg-muted"
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(suggestion);
+              }}
+            >
+              <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+              <span className="line-clamp-2">{suggestion.displayName}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
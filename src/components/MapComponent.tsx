@@ -1,9 +1,27 @@
 "use client";
 
 import { useEffect, useRef } from "react";
-import { MapContainer, TileLayer, Polyline, Marker, Popup, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Polyline, Marker, Popup, GeoJSON, CircleMarker, useMap, useMapEvents } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import { unwrapLongitudes } from "@/lib/routing/geo";
+
+interface RouteStop {
+  name: string;
+  coordinates: [number, number];
+  type: "start" | "pickup" | "destination";
+}
+
+interface Airport {
+  iata: string;
+  name: string;
+  coordinates: [number, number];
+}
+
+interface RouteLeg {
+  mode?: string;
+  coordinates?: [number, number][];
+}
 
 interface RouteData {
   coordinates: [number, number][];
@@ -11,6 +29,10 @@ interface RouteData {
   duration: number;
   cost: number;
   mode: string;
+  stops?: RouteStop[];
+  legs?: RouteLeg[];
+  alternatives?: Array<{ rank: number; coordinates: [number, number][] }>;
+  flight?: { originAirport: Airport; destinationAirport: Airport };
 }
 
 interface TransportMode {
@@ -20,11 +42,40 @@ interface TransportMode {
   color: string;
 }
 
+// A location the user set before any route exists, e.g. from a suggestion
+interface PickedLocation {
+  label: string;
+  coordinates: [number, number];
+}
+
+// GeoJSON reachability polygon for one time budget, as /api/isochrone returns it
+interface IsochroneFeature {
+  type: "Feature";
+  properties: { minutes: number };
+  geometry: { type: "Polygon"; coordinates: number[][][] };
+}
+
+interface IsochroneCollection {
+  type: "FeatureCollection";
+  features: IsochroneFeature[];
+}
+
 interface MapComponentProps {
   routes: RouteData[];
   transportModes: TransportMode[];
+  // When set, clicks on the map report the clicked point
+  onMapClick?: (point: [number, number]) => void;
+  picking?: boolean;
+  pickedLocations?: PickedLocation[];
+  // Areas reachable from a point, drawn under any routes
+  isochrones?: IsochroneCollection | null;
+  // The traveller's live position while navigating; the map follows it
+  currentPosition?: [number, number] | null;
 }
 
+// Shortest budget darkest; later contours fade out
+const ISOCHRONE_COLORS = ["#1d4ed8", "#3b82f6", "#60a5fa", "#93c5fd"];
+
 // Fix for default marker icons in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -33,26 +84,73 @@ L.Icon.Default.mergeOptions({
   shadowUrl: "https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png",
 });
 
-function MapUpdater({ routes }: { routes: RouteData[] }) {
+function MapUpdater({ routes, isochrones }: { routes: RouteData[]; isochrones?: IsochroneCollection | null }) {
   const map = useMap();
 
   useEffect(() => {
     if (routes.length > 0) {
-      const allCoordinates = routes.flatMap(route => route.coordinates);
+      const allCoordinates = routes.flatMap(route => unwrapLongitudes(route.coordinates));
       if (allCoordinates.length > 0) {
         const bounds = L.latLngBounds(allCoordinates);
         map.fitBounds(bounds, { padding: [50, 50] });
       }
+    } else if (isochrones && isochrones.features.length > 0) {
+      // Features are largest first
+      map.fitBounds(L.geoJSON(isochrones.features[0]).getBounds(), { padding: [50, 50] });
+    }
+  }, [routes, isochrones, map]);
+
+  return null;
+}
+
+// Legs drawn one after another, each continuing from where the last ended so
+// a flight across the antimeridian stays in one copy of the world
+function unwrapLegs(legs: RouteLeg[]): [number, number][][] {
+  let reference: number | undefined;
+  return legs.map((leg) => {
+    const points = unwrapLongitudes(leg.coordinates || [], reference);
+    if (points.length > 0) reference = points[points.length - 1][1];
+    return points;
+  });
+}
+
+// Keep the traveller in view, zooming in on the first fix
+function PositionFollower({ position }: { position: [number, number] }) {
+  const map = useMap();
+  const followingRef = useRef(false);
+
+  useEffect(() => {
+    if (followingRef.current) {
+      map.panTo(position);
+    } else {
+      map.setView(position, 17);
+      followingRef.current = true;
     }
-  }, [routes, map]);
+  }, [position[0], position[1], map]);
+
+  return null;
+}
+
+function MapClickHandler({ onMapClick }: { onMapClick: (point: [number, number]) => void }) {
+  useMapEvents({
+    click: (event) => onMapClick([event.latlng.lat, event.latlng.lng]),
+  });
 
   return null;
 }
 
-export default function MapComponent({ routes, transportModes }: MapComponentProps) {
+export default function MapComponent({
+  routes,
+  transportModes,
+  onMapClick,
+  picking = false,
+  pickedLocations = [],
+  isochrones = null,
+  currentPosition = null,
+}: MapComponentProps) {
   const mapRef = useRef<L.Map | null>(null);
 
-  const getMarkerIcon = (color: string) => {
+  const getMarkerIcon = (color: string, label?: number) => {
     return L.divIcon({
       className: "custom-marker",
       html: `
@@ -61,45 +159,156 @@ export default function MapComponent({ routes, transportModes }: MapComponentPro
           width: 24px;
           height: 24px;
           border-radius: 50%;
-          border: 3px solid white;
+          border: 3px solid ${label ? "#1f2937" : "white"};
           box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-        "></div>
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          font-size: 11px;
+          font-weight: 700;
+          color: #1f2937;
+        ">${label ?? ""}</div>
       `,
       iconSize: [24, 24],
       iconAnchor: [12, 12],
     });
   };
 
+  const getAirportIcon = (color: string, iata: string) => {
+    return L.divIcon({
+      className: "custom-marker",
+      html: `
+        <div style="
+          background-color: white;
+          border: 2px solid ${color};
+          border-radius: 4px;
+          padding: 1px 4px;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          font-size: 11px;
+          font-weight: 700;
+          color: #1f2937;
+        ">✈ ${iata}</div>
+      `,
+      iconSize: [48, 20],
+      iconAnchor: [24, 10],
+    });
+  };
+
   return (
     <MapContainer
       center={[39.8283, -98.5795]} // Center of USA
       zoom={4}
-      style={{ height: "100%", width: "100%" }}
+      style={{ height: "100%", width: "100%", cursor: picking ? "crosshair" : undefined }}
       ref={mapRef}
     >
       <TileLayer
         attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
+
+      {/* Reachable areas; keyed on their outline so new data replaces the layer */}
+      {isochrones?.features.map((feature, index) => {
+        const color = ISOCHRONE_COLORS[isochrones.features.length - 1 - index] || ISOCHRONE_COLORS[ISOCHRONE_COLORS.length - 1];
+        return (
+          <GeoJSON
+            key={`isochrone-${feature.properties.minutes}-${feature.geometry.coordinates[0]?.[0]?.join(",")}`}
+            data={feature}
+            style={{ color, weight: 1, fillColor: color, fillOpacity: 0.15 }}
+          >
+            <Popup>
+              <div className="text-sm">Reachable within {feature.properties.minutes} min</div>
+            </Popup>
+          </GeoJSON>
+        );
+      })}
       
       {routes.map((route, index) => {
         const mode = transportModes.find(m => m.value === route.mode);
         const color = mode?.color || "#3b82f6";
+        const legPositions = unwrapLegs(route.legs || []);
         
         return (
           <div key={index}>
             {route.coordinates.length > 0 && (
               <>
-                {/* Route line */}
-                <Polyline
-                  positions={route.coordinates}
-                  pathOptions={{
-                    color: color,
-                    weight: 4,
-                    opacity: 0.7,
-                  }}
-                />
+                {/* Alternatives that were not selected */}
+                {route.alternatives
+                  ?.filter((alternative) => alternative.rank > 1)
+                  .map((alternative) => (
+                    <Polyline
+                      key={`alternative-${alternative.rank}`}
+                      positions={unwrapLongitudes(alternative.coordinates)}
+                      pathOptions={{
+                        color: "#6b7280",
+                        weight: 3,
+                        opacity: 0.5,
+                        dashArray: "6 8",
+                      }}
+                    />
+                  ))}
+
+                {/* Route line: one colored line per leg when legs use different modes */}
+                {route.legs?.some((leg) => leg.mode && leg.coordinates) ? (
+                  route.legs.map((leg, legIndex) => (
+                    <Polyline
+                      key={`leg-${legIndex}`}
+                      positions={legPositions[legIndex]}
+                      pathOptions={{
+                        color: transportModes.find((m) => m.value === leg.mode)?.color || color,
+                        weight: 4,
+                        opacity: 0.8,
+                        dashArray: leg.mode === "walking" ? "4 6" : undefined,
+                      }}
+                    />
+                  ))
+                ) : (
+                  <Polyline
+                    positions={unwrapLongitudes(route.coordinates)}
+                    pathOptions={{
+                      color: color,
+                      weight: 4,
+                      opacity: 0.7,
+                    }}
+                  />
+                )}
                 
+                {/* Pickup markers */}
+                {route.stops
+                  ?.filter((stop) => stop.type === "pickup")
+                  .map((stop, stopIndex) => (
+                    <Marker
+                      key={`pickup-${stopIndex}`}
+                      position={stop.coordinates}
+                      icon={getMarkerIcon("#ffffff", stopIndex + 1)}
+                    >
+                      <Popup>
+                        <div className="text-sm">
+                          <strong>Pickup {stopIndex + 1}</strong>
+                          <br />
+                          {stop.name}
+                        </div>
+                      </Popup>
+                    </Marker>
+                  ))}
+
+                {/* Airport markers */}
+                {route.flight &&
+                  [route.flight.originAirport, route.flight.destinationAirport].map((airport) => (
+                    <Marker
+                      key={`airport-${airport.iata}`}
+                      position={airport.coordinates}
+                      icon={getAirportIcon(color, airport.iata)}
+                    >
+                      <Popup>
+                        <div className="text-sm">
+                          <strong>{airport.iata}</strong>
+                          <br />
+                          {airport.name}
+                        </div>
+                      </Popup>
+                    </Marker>
+                  ))}
+
                 {/* Start marker */}
                 <Marker
                   position={route.coordinates[0]}
@@ -137,7 +346,34 @@ export default function MapComponent({ routes, transportModes }: MapComponentPro
         );
       })}
       
-      <MapUpdater routes={routes} />
+      {/* Picked locations, until a route is drawn through them */}
+      {routes.length === 0 &&
+        pickedLocations.map((location, index) => (
+          <Marker
+            key={`picked-${index}`}
+            position={location.coordinates}
+            icon={getMarkerIcon("#3b82f6")}
+          >
+            <Popup>
+              <div className="text-sm">{location.label}</div>
+            </Popup>
+          </Marker>
+        ))}
+
+      {currentPosition && (
+        <>
+          <CircleMarker
+            center={currentPosition}
+            radius={8}
+            pathOptions={{ color: "white", weight: 3, fillColor: "#2563eb", fillOpacity: 1 }}
+          />
+          <PositionFollower position={currentPosition} />
+        </>
+      )}
+
+      {onMapClick && <MapClickHandler onMapClick={onMapClick} />}
+      {/* Fit the whole route until there is a position to follow */}
+      {!currentPosition && <MapUpdater routes={routes} isochrones={isochrones} />}
     </MapContainer>
   );
 }
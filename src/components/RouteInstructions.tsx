@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Maneuver } from "@/lib/routing/types";
+import {
+  defaultInstructionSettings,
+  formatDistance,
+  parseInstructionSettings,
+  renderInstruction,
+  type InstructionSettings,
+} from "@/lib/routing/instructions";
+
+export interface RouteInstruction {
+  distance: number;
+  duration: number;
+  instruction: string;
+  maneuver?: Maneuver;
+}
+
+interface RouteInstructionsProps {
+  instructions: RouteInstruction[];
+  settings: InstructionSettings;
+  // Steps shown before the list is expanded
+  initialSteps?: number;
+}
+
+// Seeded profiles hold travel preferences as a JSON string
+export function readTravelPreferences(value: unknown): Record<string, unknown> {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+// Direction language and units: the profile's choice when signed in,
+// otherwise what the browser's language suggests
+export function useInstructionSettings(signedIn: boolean): InstructionSettings {
+  const [settings, setSettings] = useState<InstructionSettings>(() => defaultInstructionSettings());
+
+  useEffect(() => {
+    const browserDefaults = defaultInstructionSettings(navigator.language);
+    setSettings(browserDefaults);
+    if (!signedIn) return;
+
+    let cancelled = false;
+    const token = localStorage.getItem("bearer_token");
+    fetch("/api/profile", { headers: { Authorization: `Bearer ${token}` } })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((profile) => {
+        if (cancelled || !profile) return;
+        const saved = parseInstructionSettings(readTravelPreferences(profile.travelPreferences));
+        if (typeof saved !== "string") setSettings({ ...browserDefaults, ...saved });
+      })
+      .catch(() => {
+        // No profile yet; the browser defaults stay
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signedIn]);
+
+  return settings;
+}
+
+export default function RouteInstructions({ instructions, settings, initialSteps = 5 }: RouteInstructionsProps) {
+  const [expanded, setExpanded] = useState(false);
+  const steps = expanded ? instructions : instructions.slice(0, initialSteps);
+
+  return (
+    <div className="space-y-1" lang={settings.language}>
+      <ol className="space-y-1">
+        {steps.map((step, index) => (
+          <li key={index} className="flex items-start justify-between gap-2 text-xs">
+            <span>
+              <span className="text-muted-foreground">{index + 1}.</span> {renderInstruction(step, settings.language)}
+            </span>
+            {step.distance > 0 && (
+              <span className="text-muted-foreground flex-shrink-0">
+                {formatDistance(step.distance, settings.distanceUnits, settings.language)}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {instructions.length > initialSteps && (
+        <button
+          type="button"
+          className="text-xs text-primary hover:underline"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? "Show fewer steps" : `Show all ${instructions.length} steps`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { trips } from '@/db/schema';
+import { tripSpatialColumns } from '@/lib/matching/spatial';
+import { parseLatLng } from '@/lib/routing/geo';
+import { decodeRouteGeometry } from '@/lib/routing/route-storage';
+
+// Usage: bun src/db/backfill-trip-bounds.ts
+// Recomputes every trip's endpoints and route box from its stored coordinates
+// and route. The migration that added the boxes only covers the endpoints.
+async function main() {
+    const rows = await db.select({
+        id: trips.id,
+        sourceCoordinates: trips.sourceCoordinates,
+        destinationCoordinates: trips.destinationCoordinates,
+        routeGeometry: trips.routeGeometry,
+    }).from(trips);
+
+    let updated = 0;
+    for (const row of rows) {
+        const source = parseLatLng(row.sourceCoordinates);
+        const destination = parseLatLng(row.destinationCoordinates);
+        if (!source || !destination) continue;
+
+        await db.update(trips)
+            .set(tripSpatialColumns(source, destination, decodeRouteGeometry(row.routeGeometry)))
+            .where(eq(trips.id, row.id));
+        updated++;
+    }
+
+    console.log(`✅ Updated route bounds for ${updated} of ${rows.length} trips`);
+}
+
+main().catch((error) => {
+    console.error('❌ Backfill failed:', error);
+});
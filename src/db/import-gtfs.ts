@@ -0,0 +1,21 @@
+import { importGtfsFeed } from '@/lib/transit/gtfs-import';
+
+// Usage: bun src/db/import-gtfs.ts <extracted-gtfs-directory> <feed-name>
+async function main() {
+    const [directory, name] = process.argv.slice(2);
+
+    if (!directory || !name) {
+        console.error('❌ Usage: import-gtfs <extracted-gtfs-directory> <feed-name>');
+        return;
+    }
+
+    const summary = await importGtfsFeed(directory, name);
+
+    console.log(`✅ Imported GTFS feed "${name}" (id ${summary.feedId}):`);
+    console.log(`   ${summary.stops} stops, ${summary.routes} routes, ${summary.trips} trips`);
+    console.log(`   ${summary.stopTimes} stop times, ${summary.calendar} services, ${summary.calendarDates} service exceptions`);
+}
+
+main().catch((error) => {
+    console.error('❌ GTFS import failed:', error);
+});
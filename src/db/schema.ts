@@ -1,4 +1,4 @@
-import { sqliteTable, integer, text } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, integer, text, real, index } from 'drizzle-orm/sqlite-core';
 
 
 
@@ -75,16 +75,42 @@ export const trips = sqliteTable('trips', {
   destination: text('destination').notNull(),
   sourceCoordinates: text('source_coordinates'),
   destinationCoordinates: text('destination_coordinates'),
+  // Numeric endpoints and route bounding box for finding nearby trips, see matching/spatial
+  sourceLat: real('source_lat'),
+  sourceLon: real('source_lon'),
+  destinationLat: real('destination_lat'),
+  destinationLon: real('destination_lon'),
+  routeMinLat: real('route_min_lat'),
+  routeMaxLat: real('route_max_lat'),
+  routeMinLon: real('route_min_lon'),
+  routeMaxLon: real('route_max_lon'),
   travelDate: text('travel_date').notNull(),
   travelTime: text('travel_time').notNull(),
+  // 'depart_at' or 'arrive_by': what travelTime means
+  timeMode: text('time_mode').notNull().default('depart_at'),
+  // Minutes either side of the departure the traveller can leave, for matching
+  departureWindow: integer('departure_window').notNull().default(30),
+  // Most extra minutes the driver will spend picking up and dropping off a companion
+  maxDetour: integer('max_detour').notNull().default(15),
+  // Avoidance and routing options the route was planned with
+  routePreferences: text('route_preferences', { mode: 'json' }),
   transportMode: text('transport_mode').notNull(),
   optimizationMode: text('optimization_mode').notNull(),
   status: text('status').notNull().default('active'),
+  // Route data with coordinate lists stored as encoded polylines, see route-storage
   routeData: text('route_data', { mode: 'json' }),
-  routeGeometry: text('route_geometry', { mode: 'json' }),
+  // Encoded polyline; trips saved before encoding hold a JSON coordinate array
+  routeGeometry: text('route_geometry'),
+  // IATA codes for flight trips, so flights are matched on shared airports
+  originAirport: text('origin_airport'),
+  destinationAirport: text('destination_airport'),
+  // Estimated kg CO2e of the planned route
+  co2Kg: real('co2_kg'),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
-});
+}, (table) => [
+  index('trips_status_route_bounds_idx').on(table.status, table.routeMinLat, table.routeMaxLat),
+]);
 
 export const userProfiles = sqliteTable('user_profiles', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -120,6 +146,8 @@ export const tripMatches = sqliteTable('trip_matches', {
   tripId: integer('trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }),
   matchedTripId: integer('matched_trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }),
   matchScore: integer('match_score').notNull(),
+  // Rule-by-rule MatchBreakdown behind the score
+  scoreBreakdown: text('score_breakdown', { mode: 'json' }),
   status: text('status').notNull().default('pending'),
   createdAt: text('created_at').notNull(),
 });
@@ -130,4 +158,98 @@ export const messages = sqliteTable('messages', {
   userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
   message: text('message').notNull(),
   createdAt: text('created_at').notNull(),
-});
\ No newline at end of file
+});
+// Geocoding results keyed by normalized query, consulted before any upstream lookup
+export const geocodeCache = sqliteTable('geocode_cache', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  query: text('query').notNull().unique(),
+  provider: text('provider').notNull(),
+  lat: real('lat').notNull(),
+  lon: real('lon').notNull(),
+  displayName: text('display_name').notNull(),
+  boundingBox: text('bounding_box', { mode: 'json' }),
+  fetchedAt: text('fetched_at').notNull(),
+});
+
+// GTFS public transit feeds, imported by src/db/import-gtfs.ts
+export const gtfsFeeds = sqliteTable('gtfs_feeds', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  importedAt: text('imported_at').notNull(),
+});
+
+export const gtfsStops = sqliteTable('gtfs_stops', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => gtfsFeeds.id, { onDelete: 'cascade' }),
+  stopId: text('stop_id').notNull(),
+  name: text('name').notNull(),
+  lat: real('lat').notNull(),
+  lon: real('lon').notNull(),
+}, (table) => [
+  index('gtfs_stops_feed_stop_idx').on(table.feedId, table.stopId),
+  index('gtfs_stops_lat_lon_idx').on(table.lat, table.lon),
+]);
+
+export const gtfsRoutes = sqliteTable('gtfs_routes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => gtfsFeeds.id, { onDelete: 'cascade' }),
+  routeId: text('route_id').notNull(),
+  shortName: text('short_name'),
+  longName: text('long_name'),
+  routeType: integer('route_type').notNull(),
+}, (table) => [
+  index('gtfs_routes_feed_route_idx').on(table.feedId, table.routeId),
+]);
+
+export const gtfsTrips = sqliteTable('gtfs_trips', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => gtfsFeeds.id, { onDelete: 'cascade' }),
+  tripId: text('trip_id').notNull(),
+  routeId: text('route_id').notNull(),
+  serviceId: text('service_id').notNull(),
+  headsign: text('headsign'),
+}, (table) => [
+  index('gtfs_trips_feed_trip_idx').on(table.feedId, table.tripId),
+]);
+
+export const gtfsStopTimes = sqliteTable('gtfs_stop_times', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => gtfsFeeds.id, { onDelete: 'cascade' }),
+  tripId: text('trip_id').notNull(),
+  stopId: text('stop_id').notNull(),
+  stopSequence: integer('stop_sequence').notNull(),
+  // Seconds after midnight of the service day; may exceed 24h for overnight trips
+  arrivalTime: integer('arrival_time').notNull(),
+  departureTime: integer('departure_time').notNull(),
+}, (table) => [
+  index('gtfs_stop_times_feed_trip_idx').on(table.feedId, table.tripId),
+  index('gtfs_stop_times_departure_idx').on(table.feedId, table.departureTime),
+]);
+
+export const gtfsCalendar = sqliteTable('gtfs_calendar', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => gtfsFeeds.id, { onDelete: 'cascade' }),
+  serviceId: text('service_id').notNull(),
+  monday: integer('monday', { mode: 'boolean' }).notNull(),
+  tuesday: integer('tuesday', { mode: 'boolean' }).notNull(),
+  wednesday: integer('wednesday', { mode: 'boolean' }).notNull(),
+  thursday: integer('thursday', { mode: 'boolean' }).notNull(),
+  friday: integer('friday', { mode: 'boolean' }).notNull(),
+  saturday: integer('saturday', { mode: 'boolean' }).notNull(),
+  sunday: integer('sunday', { mode: 'boolean' }).notNull(),
+  // YYYYMMDD, as in calendar.txt
+  startDate: text('start_date').notNull(),
+  endDate: text('end_date').notNull(),
+});
+
+// calendar_dates.txt: days a service is added (1) or removed (2) on
+export const gtfsCalendarDates = sqliteTable('gtfs_calendar_dates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => gtfsFeeds.id, { onDelete: 'cascade' }),
+  serviceId: text('service_id').notNull(),
+  // YYYYMMDD
+  date: text('date').notNull(),
+  exceptionType: integer('exception_type').notNull(),
+}, (table) => [
+  index('gtfs_calendar_dates_date_idx').on(table.date),
+]);
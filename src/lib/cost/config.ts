@@ -0,0 +1,221 @@
+// Versioned cost model configuration. Each published version is kept so trips
+// priced under an older model can be explained later; COST_MODEL_VERSION picks
+// the version used for new estimates (default: the latest).
+//
+// Prices are in the region's local currency. A region is matched when the
+// trip's starting point lies in one of its boxes; the last region is the
+// fallback. Boxes of different regions must not overlap, so borders such as
+// US/Canada or Japan/Korea are traced by several boxes and are approximate
+// within a few km of the border.
+
+// [south, north, west, east]
+export type RegionBox = [number, number, number, number];
+
+export interface FareTable {
+  base: number;
+  perKm: number;
+  max?: number;
+}
+
+export interface CostRegion {
+  id: string;
+  name: string;
+  currency: string;
+  // null matches everywhere
+  bounds: RegionBox[] | null;
+  fuelPricePerLiter: number;
+  tollPerKm: number;
+  fares: {
+    bus: FareTable;
+    train: FareTable;
+    flight: FareTable;
+  };
+}
+
+export interface CostModelConfig {
+  version: string;
+  // Liters per 100 km for the default vehicle
+  fuelEfficiency: number;
+  regions: CostRegion[];
+}
+
+export const COST_MODELS: CostModelConfig[] = [
+  {
+    version: '2026-10',
+    fuelEfficiency: 8,
+    regions: [
+      {
+        id: 'us',
+        name: 'United States',
+        currency: 'USD',
+        bounds: [
+          // West, with Vancouver Island left to Canada
+          [24.5, 48.2, -125, -95.15],
+          [48.2, 49, -123.2, -95.15],
+          // Great Lakes and St Lawrence, south of the water border
+          [24.5, 48, -95.15, -89.6],
+          [24.5, 47, -89.6, -84.5],
+          [24.5, 45.8, -84.5, -82.4],
+          [24.5, 42.3, -82.4, -79],
+          [24.5, 43.5, -79, -76.3],
+          [24.5, 44.3, -76.3, -74.7],
+          [24.5, 45, -74.7, -71.1],
+          // Maine
+          [24.5, 47.4, -71.1, -66.9],
+        ],
+        fuelPricePerLiter: 1.05,
+        tollPerKm: 0.08,
+        fares: {
+          bus: { base: 2.5, perKm: 0.1, max: 120 },
+          train: { base: 3, perKm: 0.18, max: 250 },
+          flight: { base: 60, perKm: 0.09 },
+        },
+      },
+      {
+        id: 'ca',
+        name: 'Canada',
+        currency: 'CAD',
+        bounds: [
+          [49, 83.1, -141, -52.6],
+          [48.2, 49, -125, -123.2],
+          [48, 49, -95.15, -89.6],
+          [47, 49, -89.6, -84.5],
+          [45.8, 49, -84.5, -82.4],
+          [42.3, 49, -82.4, -79],
+          [43.5, 49, -79, -76.3],
+          [44.3, 49, -76.3, -74.7],
+          [45, 49, -74.7, -71.1],
+          [47.4, 49, -71.1, -66.9],
+          // Maritimes and Newfoundland
+          [41.7, 49, -66.9, -52.6],
+        ],
+        fuelPricePerLiter: 1.6,
+        tollPerKm: 0.1,
+        fares: {
+          bus: { base: 3.3, perKm: 0.12, max: 150 },
+          train: { base: 4, perKm: 0.2, max: 300 },
+          flight: { base: 80, perKm: 0.12 },
+        },
+      },
+      {
+        id: 'gb',
+        name: 'United Kingdom',
+        currency: 'GBP',
+        bounds: [
+          // England's south coast, short of Boulogne and Dieppe
+          [49.9, 51, -5.8, 1],
+          [51, 60.9, -5.8, 1.8],
+          // Western Scotland and Northern Ireland, leaving Ireland to Europe
+          [55.3, 60.9, -8.6, -5.8],
+          [54, 55.3, -7.5, -5.8],
+        ],
+        fuelPricePerLiter: 1.45,
+        tollPerKm: 0.05,
+        fares: {
+          bus: { base: 2, perKm: 0.08, max: 60 },
+          train: { base: 3, perKm: 0.25, max: 200 },
+          flight: { base: 40, perKm: 0.08 },
+        },
+      },
+      {
+        id: 'eu',
+        name: 'Europe',
+        currency: 'EUR',
+        bounds: [
+          [35, 49.9, -10.5, 31],
+          [49.9, 71, 1.8, 31],
+          [49.9, 51, 1, 1.8],
+          [60.9, 71, -10.5, 1.8],
+          // Ireland
+          [49.9, 60.9, -10.5, -8.6],
+          [49.9, 54, -8.6, -5.8],
+          [54, 55.3, -8.6, -7.5],
+        ],
+        fuelPricePerLiter: 1.75,
+        tollPerKm: 0.09,
+        fares: {
+          bus: { base: 2, perKm: 0.07, max: 80 },
+          train: { base: 3, perKm: 0.15, max: 180 },
+          flight: { base: 40, perKm: 0.08 },
+        },
+      },
+      {
+        id: 'jp',
+        name: 'Japan',
+        currency: 'JPY',
+        bounds: [
+          // Kyushu, Shikoku and Honshu up to Tsushima, east of Korea's coast
+          [24, 35, 129.15, 146],
+          [35, 41, 132, 146],
+          // Hokkaido
+          [41, 45.6, 139, 146],
+          // Okinawa and the Goto islands
+          [24, 33, 122.9, 129.15],
+          [33, 34, 127.5, 129.15],
+        ],
+        fuelPricePerLiter: 175,
+        tollPerKm: 25,
+        fares: {
+          bus: { base: 210, perKm: 15, max: 15000 },
+          train: { base: 170, perKm: 20, max: 30000 },
+          flight: { base: 8000, perKm: 12 },
+        },
+      },
+      {
+        id: 'kr',
+        name: 'South Korea',
+        currency: 'KRW',
+        bounds: [
+          [34, 38.7, 124.5, 129.15],
+          // East coast from Busan to Pohang, Ulleungdo
+          [35, 38.7, 129.15, 132],
+          // Jeju
+          [33, 34, 125.5, 127.5],
+        ],
+        fuelPricePerLiter: 1700,
+        tollPerKm: 50,
+        fares: {
+          bus: { base: 1500, perKm: 100, max: 45000 },
+          train: { base: 2600, perKm: 120, max: 80000 },
+          flight: { base: 40000, perKm: 100 },
+        },
+      },
+      {
+        id: 'au',
+        name: 'Australia',
+        currency: 'AUD',
+        bounds: [[-44, -10, 112, 154]],
+        fuelPricePerLiter: 1.95,
+        tollPerKm: 0.2,
+        fares: {
+          bus: { base: 3, perKm: 0.1, max: 150 },
+          train: { base: 4, perKm: 0.15, max: 250 },
+          flight: { base: 80, perKm: 0.12 },
+        },
+      },
+      {
+        id: 'default',
+        name: 'Rest of world',
+        currency: 'USD',
+        bounds: null,
+        fuelPricePerLiter: 1.3,
+        tollPerKm: 0.08,
+        fares: {
+          bus: { base: 2, perKm: 0.08, max: 100 },
+          train: { base: 3, perKm: 0.15, max: 200 },
+          flight: { base: 50, perKm: 0.1 },
+        },
+      },
+    ],
+  },
+];
+
+export const LATEST_COST_MODEL_VERSION = COST_MODELS[COST_MODELS.length - 1].version;
+
+// Model for the given version, falling back to the latest for unknown versions
+export function getCostModel(version: string | undefined = process.env.COST_MODEL_VERSION): CostModelConfig {
+  return (
+    COST_MODELS.find((model) => model.version === version) ||
+    COST_MODELS[COST_MODELS.length - 1]
+  );
+}
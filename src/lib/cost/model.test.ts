@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { COST_MODELS } from '@/lib/cost/config';
+import { estimateCost, resolveCostRegion } from '@/lib/cost/model';
+import type { LatLng } from '@/lib/routing/types';
+
+const config = COST_MODELS[COST_MODELS.length - 1];
+const regionAt = (point: LatLng) => resolveCostRegion(point, config).id;
+
+describe('resolveCostRegion', () => {
+  const cities: Array<[string, LatLng, string]> = [
+    ['New York', [40.71, -74.01], 'us'],
+    ['Seattle', [47.61, -122.33], 'us'],
+    ['Detroit', [42.33, -83.05], 'us'],
+    ['Buffalo', [42.89, -78.88], 'us'],
+    ['Portland, Maine', [43.66, -70.26], 'us'],
+    ['Toronto', [43.65, -79.38], 'ca'],
+    ['Montreal', [45.5, -73.57], 'ca'],
+    ['Vancouver', [49.28, -123.12], 'ca'],
+    ['Victoria', [48.43, -123.37], 'ca'],
+    ['Quebec City', [46.81, -71.21], 'ca'],
+    ['Halifax', [44.65, -63.57], 'ca'],
+    ['London', [51.51, -0.13], 'gb'],
+    ['Belfast', [54.6, -5.93], 'gb'],
+    ['Glasgow', [55.86, -4.25], 'gb'],
+    ['Dublin', [53.35, -6.26], 'eu'],
+    ['Galway', [53.27, -9.05], 'eu'],
+    ['Paris', [48.86, 2.35], 'eu'],
+    ['Calais', [50.95, 1.85], 'eu'],
+    ['Boulogne-sur-Mer', [50.72, 1.61], 'eu'],
+    ['Tokyo', [35.68, 139.69], 'jp'],
+    ['Fukuoka', [33.59, 130.4], 'jp'],
+    ['Sapporo', [43.06, 141.35], 'jp'],
+    ['Naha', [26.21, 127.68], 'jp'],
+    ['Seoul', [37.57, 126.98], 'kr'],
+    ['Busan', [35.18, 129.08], 'kr'],
+    ['Ulsan', [35.54, 129.31], 'kr'],
+    ['Jeju', [33.5, 126.53], 'kr'],
+    ['Sydney', [-33.87, 151.21], 'au'],
+    ['Harbin', [45.75, 126.63], 'default'],
+    ['Mexico City', [19.43, -99.13], 'default'],
+  ];
+
+  for (const [name, point, region] of cities) {
+    it(`prices ${name} in ${region}`, () => {
+      assert.equal(regionAt(point), region);
+    });
+  }
+
+  it('falls back without a starting point', () => {
+    assert.equal(resolveCostRegion(null, config).id, 'default');
+  });
+
+  it('keeps the boxes of different regions apart', () => {
+    const boxes = config.regions.flatMap((region) => (region.bounds || []).map((box) => ({ id: region.id, box })));
+    for (const a of boxes) {
+      for (const b of boxes) {
+        if (a.id === b.id) continue;
+        const [south, north, west, east] = a.box;
+        const overlaps = south < b.box[1] && b.box[0] < north && west < b.box[3] && b.box[2] < east;
+        assert.ok(!overlaps, `${a.id} ${a.box} overlaps ${b.id} ${b.box}`);
+      }
+    }
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices fuel and tolls in the local currency', () => {
+    const cost = estimateCost([{ mode: 'car', distance: 100000, tollDistance: 10000 }], {
+      origin: [43.65, -79.38],
+      config,
+    });
+    assert.equal(cost.currency, 'CAD');
+    assert.deepEqual(cost.items.map((item) => item.kind), ['fuel', 'tolls']);
+    assert.equal(cost.items[0].amount, 12.8);
+    assert.equal(cost.items[1].amount, 1);
+  });
+});
@@ -0,0 +1,131 @@
+import type { LatLng, TransportMode } from '@/lib/routing/types';
+import { getCostModel, type CostModelConfig, type CostRegion, type FareTable } from '@/lib/cost/config';
+
+// A stretch of a trip priced under a single mode, e.g. the drive to the
+// airport or one bus ride of a transit itinerary
+export interface CostSegment {
+  mode: TransportMode;
+  distance: number; // meters
+  tollDistance: number;
+}
+
+export type CostItemKind = 'fuel' | 'tolls' | 'bus_fare' | 'train_fare' | 'airfare';
+
+export interface CostItem {
+  kind: CostItemKind;
+  label: string;
+  amount: number;
+  // Shared items (fuel, tolls) are split between passengers; fares are per person
+  shared: boolean;
+}
+
+export interface CostBreakdown {
+  version: string;
+  region: string;
+  currency: string;
+  items: CostItem[];
+  total: number;
+  passengers: number;
+  perPassenger: number;
+}
+
+export interface CostOptions {
+  // Starting point of the trip, used to pick the pricing region
+  origin: LatLng | null;
+  passengers?: number;
+  // Liters per 100 km; defaults to the model's vehicle
+  fuelEfficiency?: number;
+  config?: CostModelConfig;
+}
+
+const ITEM_LABELS: Record<CostItemKind, string> = {
+  fuel: 'Fuel',
+  tolls: 'Tolls',
+  bus_fare: 'Bus fare',
+  train_fare: 'Train fare',
+  airfare: 'Airfare',
+};
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function resolveCostRegion(point: LatLng | null, config: CostModelConfig): CostRegion {
+  const fallback = config.regions[config.regions.length - 1];
+  if (!point) return fallback;
+
+  const [lat, lon] = point;
+  return (
+    config.regions.find(
+      (region) =>
+        !region.bounds ||
+        region.bounds.some(([south, north, west, east]) => lat >= south && lat <= north && lon >= west && lon <= east)
+    ) || fallback
+  );
+}
+
+function fare(table: FareTable, km: number): number {
+  const price = table.base + table.perKm * km;
+  return table.max !== undefined ? Math.min(price, table.max) : price;
+}
+
+// Itemized cost of a trip. Each bus/train segment is a separate boarding and
+// pays its own fare; car segments pay fuel and tolls.
+export function estimateCost(segments: CostSegment[], options: CostOptions): CostBreakdown {
+  const config = options.config || getCostModel();
+  const region = resolveCostRegion(options.origin, config);
+  const fuelEfficiency = options.fuelEfficiency || config.fuelEfficiency;
+
+  const amounts = new Map<CostItemKind, number>();
+  const add = (kind: CostItemKind, amount: number) => {
+    if (amount > 0) amounts.set(kind, (amounts.get(kind) || 0) + amount);
+  };
+
+  for (const segment of segments) {
+    const km = segment.distance / 1000;
+    switch (segment.mode) {
+      case 'car':
+        add('fuel', (km * fuelEfficiency / 100) * region.fuelPricePerLiter);
+        add('tolls', (segment.tollDistance / 1000) * region.tollPerKm);
+        break;
+      case 'bus':
+        add('bus_fare', fare(region.fares.bus, km));
+        break;
+      case 'train':
+        add('train_fare', fare(region.fares.train, km));
+        break;
+      case 'flight':
+        add('airfare', fare(region.fares.flight, km));
+        break;
+      // Cycling and walking cost nothing
+    }
+  }
+
+  const items: CostItem[] = Array.from(amounts, ([kind, amount]) => ({
+    kind,
+    label: ITEM_LABELS[kind],
+    amount: roundAmount(amount),
+    shared: kind === 'fuel' || kind === 'tolls',
+  }));
+
+  return splitCost(
+    {
+      version: config.version,
+      region: region.id,
+      currency: region.currency,
+      items,
+      total: roundAmount(items.reduce((sum, item) => sum + item.amount, 0)),
+      passengers: 1,
+      perPassenger: 0,
+    },
+    options.passengers ?? 1
+  );
+}
+
+// Recompute what each passenger pays, e.g. after companions accept a trip
+export function splitCost(breakdown: CostBreakdown, passengers: number): CostBreakdown {
+  const count = Math.max(1, Math.floor(passengers));
+  const perPassenger = breakdown.items.reduce(
+    (sum, item) => sum + (item.shared ? item.amount / count : item.amount),
+    0
+  );
+  return { ...breakdown, passengers: count, perPassenger: roundAmount(perPassenger) };
+}
@@ -0,0 +1,16 @@
+import { createHgtElevationSource, type ElevationSource } from '@/lib/elevation/srtm';
+
+export type { ElevationSource } from '@/lib/elevation/srtm';
+
+// ELEVATION_DATA_DIR   directory of SRTM .hgt tiles; elevation profiles are
+//                      skipped when unset
+let source: ElevationSource | null | undefined;
+
+// Process-wide elevation source, built lazily from the environment
+export function getElevationSource(): ElevationSource | null {
+  if (source === undefined) {
+    const directory = process.env.ELEVATION_DATA_DIR;
+    source = directory ? createHgtElevationSource(directory) : null;
+  }
+  return source;
+}
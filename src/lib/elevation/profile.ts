@@ -0,0 +1,145 @@
+import type { LatLng, TransportMode } from '@/lib/routing/types';
+import { calculateDistance } from '@/lib/routing/geo';
+import type { ElevationSource } from '@/lib/elevation/srtm';
+
+// Modes whose travel time depends noticeably on climbing
+export const ELEVATION_MODES: TransportMode[] = ['cycling', 'walking'];
+
+// Profiles are sampled at most this many times, but never closer than SRTM's
+// ~30 m resolution can tell apart
+const MAX_SAMPLES = 200;
+const MIN_SAMPLE_SPACING_METERS = 30;
+
+// Changes smaller than this are treated as DEM noise when totalling climbs
+const CLIMB_THRESHOLD_METERS = 3;
+
+// Extra seconds per meter climbed. Walking follows Naismith's rule (an hour
+// per 600 m); cycling assumes a leisure rider climbing ~900 m per hour.
+const CLIMB_SECONDS_PER_METER: Partial<Record<TransportMode, number>> = {
+  walking: 6,
+  cycling: 4,
+};
+
+export interface ElevationPoint {
+  distance: number; // meters from the start
+  elevation: number; // meters above sea level
+  grade: number; // percent, from the previous point
+}
+
+export interface ElevationProfile {
+  ascent: number; // meters
+  descent: number;
+  minElevation: number;
+  maxElevation: number;
+  maxGrade: number; // percent, steepest climb
+  // Seconds added to the flat-ground duration for climbing
+  climbingTime: number;
+  points: ElevationPoint[];
+}
+
+// Points every `spacing` meters along the line, with their distances
+function resample(coordinates: LatLng[], spacing: number): { points: LatLng[]; distances: number[] } {
+  const points: LatLng[] = [coordinates[0]];
+  const distances = [0];
+  let travelled = 0;
+  let nextSample = spacing;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const [start, end] = [coordinates[i - 1], coordinates[i]];
+    const length = calculateDistance(start, end) * 1000;
+    while (length > 0 && nextSample <= travelled + length) {
+      const t = (nextSample - travelled) / length;
+      points.push([start[0] + (end[0] - start[0]) * t, start[1] + (end[1] - start[1]) * t]);
+      distances.push(nextSample);
+      nextSample += spacing;
+    }
+    travelled += length;
+  }
+
+  if (travelled > distances[distances.length - 1]) {
+    points.push(coordinates[coordinates.length - 1]);
+    distances.push(travelled);
+  }
+  return { points, distances };
+}
+
+// Fill gaps (voids, missing tiles) from the nearest known samples
+function fillGaps(elevations: (number | null)[]): number[] | null {
+  const known = elevations.filter((value) => value !== null).length;
+  if (known < elevations.length / 2) return null;
+
+  const filled = [...elevations];
+  let last: number | null = null;
+  for (let i = 0; i < filled.length; i++) {
+    if (filled[i] === null) filled[i] = last;
+    else last = filled[i];
+  }
+  last = null;
+  for (let i = filled.length - 1; i >= 0; i--) {
+    if (filled[i] === null) filled[i] = last;
+    else if (elevations[i] !== null) last = filled[i];
+  }
+  return filled as number[];
+}
+
+export function climbingTime(ascent: number, mode: TransportMode): number {
+  return ascent * (CLIMB_SECONDS_PER_METER[mode] ?? 0);
+}
+
+// Elevation profile of a route, or null when the DEM does not cover most of it
+export async function elevationProfile(
+  source: ElevationSource,
+  coordinates: LatLng[],
+  mode: TransportMode
+): Promise<ElevationProfile | null> {
+  if (coordinates.length < 2) return null;
+
+  let total = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    total += calculateDistance(coordinates[i - 1], coordinates[i]) * 1000;
+  }
+  const spacing = Math.max(MIN_SAMPLE_SPACING_METERS, total / MAX_SAMPLES);
+  const { points, distances } = resample(coordinates, spacing);
+
+  const raw = fillGaps(await source.elevations(points));
+  if (!raw) return null;
+
+  // A 3-point moving average takes the edge off single-sample spikes
+  const elevations = raw.map((value, i) => {
+    const window = raw.slice(Math.max(0, i - 1), i + 2);
+    return window.reduce((sum, v) => sum + v, 0) / window.length;
+  });
+
+  // Count a climb or descent once it exceeds the noise threshold
+  let ascent = 0;
+  let descent = 0;
+  let reference = elevations[0];
+  for (const elevation of elevations) {
+    const change = elevation - reference;
+    if (Math.abs(change) >= CLIMB_THRESHOLD_METERS) {
+      if (change > 0) ascent += change;
+      else descent -= change;
+      reference = elevation;
+    }
+  }
+
+  const profilePoints: ElevationPoint[] = elevations.map((elevation, i) => {
+    const run = i > 0 ? distances[i] - distances[i - 1] : 0;
+    const grade = run > 0 ? ((elevation - elevations[i - 1]) / run) * 100 : 0;
+    return {
+      distance: Math.round(distances[i]),
+      elevation: Math.round(elevation * 10) / 10,
+      grade: Math.round(grade * 10) / 10,
+    };
+  });
+
+  return {
+    ascent: Math.round(ascent),
+    descent: Math.round(descent),
+    minElevation: Math.round(Math.min(...elevations)),
+    maxElevation: Math.round(Math.max(...elevations)),
+    maxGrade: Math.max(0, ...profilePoints.map((point) => point.grade)),
+    climbingTime: Math.round(climbingTime(ascent, mode)),
+    points: profilePoints,
+  };
+}
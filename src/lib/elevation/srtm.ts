@@ -0,0 +1,103 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { LatLng } from '@/lib/routing/types';
+
+// Elevation from SRTM .hgt tiles on local disk. Each tile covers one degree
+// square, named after its south-west corner (N40W074.hgt covers 40..41N,
+// 74..73W), and holds big-endian 16-bit meters in rows from north to south.
+// SRTM1 tiles are 3601 samples square, SRTM3 tiles 1201.
+
+export interface ElevationSource {
+  // Meters above sea level per point; null where no tile or data covers it
+  elevations(points: LatLng[]): Promise<(number | null)[]>;
+}
+
+const VOID_VALUE = -32768;
+
+// Decoded tiles kept in memory; an SRTM1 tile is ~25 MB
+const MAX_CACHED_TILES = 4;
+
+interface Tile {
+  size: number;
+  data: Buffer;
+}
+
+export function hgtTileName([lat, lon]: LatLng): string {
+  const south = Math.floor(lat);
+  const west = Math.floor(lon);
+  const latPart = `${south >= 0 ? 'N' : 'S'}${String(Math.abs(south)).padStart(2, '0')}`;
+  const lonPart = `${west >= 0 ? 'E' : 'W'}${String(Math.abs(west)).padStart(3, '0')}`;
+  return `${latPart}${lonPart}.hgt`;
+}
+
+export function createHgtElevationSource(directory: string): ElevationSource {
+  // Most recently used last; null marks a tile known to be missing
+  const tiles = new Map<string, Promise<Tile | null>>();
+
+  const loadTile = (name: string): Promise<Tile | null> => {
+    const cached = tiles.get(name);
+    if (cached) {
+      tiles.delete(name);
+      tiles.set(name, cached);
+      return cached;
+    }
+
+    const loading = readFile(path.join(directory, name))
+      .then((data) => {
+        const size = Math.round(Math.sqrt(data.length / 2));
+        if (size * size * 2 !== data.length) {
+          console.error('Unexpected HGT tile size:', name, data.length);
+          return null;
+        }
+        return { size, data };
+      })
+      .catch(() => null);
+
+    tiles.set(name, loading);
+    if (tiles.size > MAX_CACHED_TILES) {
+      tiles.delete(tiles.keys().next().value!);
+    }
+    return loading;
+  };
+
+  const sample = (tile: Tile, row: number, col: number): number | null => {
+    const value = tile.data.readInt16BE((row * tile.size + col) * 2);
+    return value === VOID_VALUE ? null : value;
+  };
+
+  // Bilinear interpolation between the four surrounding samples
+  const elevationAt = async (point: LatLng): Promise<number | null> => {
+    const tile = await loadTile(hgtTileName(point));
+    if (!tile) return null;
+
+    const [lat, lon] = point;
+    const y = (Math.floor(lat) + 1 - lat) * (tile.size - 1);
+    const x = (lon - Math.floor(lon)) * (tile.size - 1);
+    const row = Math.min(Math.floor(y), tile.size - 2);
+    const col = Math.min(Math.floor(x), tile.size - 2);
+    const dy = y - row;
+    const dx = x - col;
+
+    const corners = [
+      sample(tile, row, col),
+      sample(tile, row, col + 1),
+      sample(tile, row + 1, col),
+      sample(tile, row + 1, col + 1),
+    ];
+    if (corners.some((value) => value === null)) {
+      return corners.find((value) => value !== null) ?? null;
+    }
+    const [nw, ne, sw, se] = corners as number[];
+    return nw * (1 - dx) * (1 - dy) + ne * dx * (1 - dy) + sw * (1 - dx) * dy + se * dx * dy;
+  };
+
+  return {
+    async elevations(points: LatLng[]) {
+      const results: (number | null)[] = [];
+      for (const point of points) {
+        results.push(await elevationAt(point));
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import type { TransportMode } from '@/lib/routing/types';
+
+// Well-to-wheel emission factors in kg CO2e per km. Car is per vehicle-km
+// (an average petrol car); public transport and flights are per passenger-km,
+// since the vehicle runs regardless of one more rider.
+const EMISSION_FACTORS: Record<TransportMode, number> = {
+  car: 0.17,
+  cycling: 0,
+  walking: 0,
+  bus: 0.09,
+  train: 0.035,
+  flight: 0.15,
+};
+
+// Long-haul flights burn less per km once the take-off cost is amortized
+const LONG_HAUL_FLIGHT_KM = 3700;
+const LONG_HAUL_FLIGHT_FACTOR = 0.11;
+
+export interface EmissionSegment {
+  mode: TransportMode;
+  distance: number; // meters
+}
+
+const roundKg = (kg: number) => Math.round(kg * 100) / 100;
+
+// kg CO2e for one traveler covering the segments
+export function estimateEmissions(segments: EmissionSegment[]): number {
+  const kg = segments.reduce((sum, segment) => {
+    const km = segment.distance / 1000;
+    const factor =
+      segment.mode === 'flight' && km >= LONG_HAUL_FLIGHT_KM
+        ? LONG_HAUL_FLIGHT_FACTOR
+        : EMISSION_FACTORS[segment.mode] ?? 0;
+    return sum + km * factor;
+  }, 0);
+  return roundKg(kg);
+}
+
+interface EmittingTrip {
+  transportMode: string;
+  co2Kg: number | null;
+}
+
+// Emissions avoided when two accepted companions travel together. Only a
+// shared car takes a vehicle off the road; sharing a bus, train or plane
+// saves nothing. The avoided trip is the shorter of the two, credited half to
+// each side so per-user totals never count the same car twice.
+export function co2SavedBySharing(trip: EmittingTrip, companion: EmittingTrip): number {
+  if (trip.transportMode !== 'car' || companion.transportMode !== 'car') return 0;
+  if (trip.co2Kg === null || companion.co2Kg === null) return 0;
+  return roundKg(Math.min(trip.co2Kg, companion.co2Kg) / 2);
+}
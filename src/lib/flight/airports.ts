@@ -0,0 +1,154 @@
+import type { LatLng } from '@/lib/routing/types';
+import { calculateDistance } from '@/lib/routing/geo';
+
+export interface Airport {
+  iata: string;
+  name: string;
+  city: string;
+  country: string;
+  coordinates: LatLng;
+}
+
+// Bundled set of commercial airports with scheduled passenger service.
+// Only airports large enough to be a sensible flight origin are listed, so
+// small airfields never win the nearest-airport lookup.
+export const AIRPORTS: Airport[] = [
+  // United States
+  { iata: 'ATL', name: 'Hartsfield-Jackson Atlanta International', city: 'Atlanta', country: 'US', coordinates: [33.6407, -84.4277] },
+  { iata: 'AUS', name: 'Austin-Bergstrom International', city: 'Austin', country: 'US', coordinates: [30.1975, -97.6664] },
+  { iata: 'BNA', name: 'Nashville International', city: 'Nashville', country: 'US', coordinates: [36.1263, -86.6774] },
+  { iata: 'BOI', name: 'Boise Airport', city: 'Boise', country: 'US', coordinates: [43.5644, -116.2228] },
+  { iata: 'BOS', name: 'Boston Logan International', city: 'Boston', country: 'US', coordinates: [42.3656, -71.0096] },
+  { iata: 'BUF', name: 'Buffalo Niagara International', city: 'Buffalo', country: 'US', coordinates: [42.9405, -78.7322] },
+  { iata: 'BWI', name: 'Baltimore/Washington International', city: 'Baltimore', country: 'US', coordinates: [39.1754, -76.6683] },
+  { iata: 'BIL', name: 'Billings Logan International', city: 'Billings', country: 'US', coordinates: [45.8077, -108.5429] },
+  { iata: 'BIS', name: 'Bismarck Municipal', city: 'Bismarck', country: 'US', coordinates: [46.7727, -100.7460] },
+  { iata: 'CHS', name: 'Charleston International', city: 'Charleston', country: 'US', coordinates: [32.8986, -80.0405] },
+  { iata: 'CLE', name: 'Cleveland Hopkins International', city: 'Cleveland', country: 'US', coordinates: [41.4117, -81.8498] },
+  { iata: 'CLT', name: 'Charlotte Douglas International', city: 'Charlotte', country: 'US', coordinates: [35.2140, -80.9431] },
+  { iata: 'CMH', name: 'John Glenn Columbus International', city: 'Columbus', country: 'US', coordinates: [39.9980, -82.8919] },
+  { iata: 'CVG', name: 'Cincinnati/Northern Kentucky International', city: 'Cincinnati', country: 'US', coordinates: [39.0489, -84.6678] },
+  { iata: 'DCA', name: 'Ronald Reagan Washington National', city: 'Washington', country: 'US', coordinates: [38.8512, -77.0402] },
+  { iata: 'DEN', name: 'Denver International', city: 'Denver', country: 'US', coordinates: [39.8561, -104.6737] },
+  { iata: 'DFW', name: 'Dallas/Fort Worth International', city: 'Dallas', country: 'US', coordinates: [32.8998, -97.0403] },
+  { iata: 'DSM', name: 'Des Moines International', city: 'Des Moines', country: 'US', coordinates: [41.5340, -93.6631] },
+  { iata: 'DTW', name: 'Detroit Metropolitan Wayne County', city: 'Detroit', country: 'US', coordinates: [42.2162, -83.3554] },
+  { iata: 'ELP', name: 'El Paso International', city: 'El Paso', country: 'US', coordinates: [31.8072, -106.3776] },
+  { iata: 'EWR', name: 'Newark Liberty International', city: 'Newark', country: 'US', coordinates: [40.6895, -74.1745] },
+  { iata: 'FAR', name: 'Hector International', city: 'Fargo', country: 'US', coordinates: [46.9207, -96.8158] },
+  { iata: 'GEG', name: 'Spokane International', city: 'Spokane', country: 'US', coordinates: [47.6199, -117.5338] },
+  { iata: 'GJT', name: 'Grand Junction Regional', city: 'Grand Junction', country: 'US', coordinates: [39.1224, -108.5267] },
+  { iata: 'HNL', name: 'Daniel K. Inouye International', city: 'Honolulu', country: 'US', coordinates: [21.3187, -157.9225] },
+  { iata: 'IAD', name: 'Washington Dulles International', city: 'Washington', country: 'US', coordinates: [38.9531, -77.4565] },
+  { iata: 'IAH', name: 'George Bush Intercontinental', city: 'Houston', country: 'US', coordinates: [29.9902, -95.3368] },
+  { iata: 'ICT', name: 'Wichita Dwight D. Eisenhower National', city: 'Wichita', country: 'US', coordinates: [37.6499, -97.4331] },
+  { iata: 'IND', name: 'Indianapolis International', city: 'Indianapolis', country: 'US', coordinates: [39.7173, -86.2944] },
+  { iata: 'JAX', name: 'Jacksonville International', city: 'Jacksonville', country: 'US', coordinates: [30.4941, -81.6879] },
+  { iata: 'JFK', name: 'John F. Kennedy International', city: 'New York', country: 'US', coordinates: [40.6413, -73.7781] },
+  { iata: 'LAS', name: 'Harry Reid International', city: 'Las Vegas', country: 'US', coordinates: [36.0840, -115.1537] },
+  { iata: 'LAX', name: 'Los Angeles International', city: 'Los Angeles', country: 'US', coordinates: [33.9416, -118.4085] },
+  { iata: 'LGA', name: 'LaGuardia', city: 'New York', country: 'US', coordinates: [40.7769, -73.8740] },
+  { iata: 'LIT', name: 'Clinton National', city: 'Little Rock', country: 'US', coordinates: [34.7294, -92.2243] },
+  { iata: 'MCI', name: 'Kansas City International', city: 'Kansas City', country: 'US', coordinates: [39.2976, -94.7139] },
+  { iata: 'MCO', name: 'Orlando International', city: 'Orlando', country: 'US', coordinates: [28.4312, -81.3081] },
+  { iata: 'MDW', name: 'Chicago Midway International', city: 'Chicago', country: 'US', coordinates: [41.7868, -87.7522] },
+  { iata: 'MEM', name: 'Memphis International', city: 'Memphis', country: 'US', coordinates: [35.0424, -89.9767] },
+  { iata: 'MIA', name: 'Miami International', city: 'Miami', country: 'US', coordinates: [25.7959, -80.2870] },
+  { iata: 'MKE', name: 'Milwaukee Mitchell International', city: 'Milwaukee', country: 'US', coordinates: [42.9472, -87.8966] },
+  { iata: 'MSP', name: 'Minneapolis-Saint Paul International', city: 'Minneapolis', country: 'US', coordinates: [44.8848, -93.2223] },
+  { iata: 'MSY', name: 'Louis Armstrong New Orleans International', city: 'New Orleans', country: 'US', coordinates: [29.9911, -90.2592] },
+  { iata: 'OKC', name: 'Will Rogers World', city: 'Oklahoma City', country: 'US', coordinates: [35.3931, -97.6007] },
+  { iata: 'OMA', name: 'Eppley Airfield', city: 'Omaha', country: 'US', coordinates: [41.3032, -95.8941] },
+  { iata: 'ORD', name: "O'Hare International", city: 'Chicago', country: 'US', coordinates: [41.9742, -87.9073] },
+  { iata: 'PDX', name: 'Portland International', city: 'Portland', country: 'US', coordinates: [45.5898, -122.5951] },
+  { iata: 'PHL', name: 'Philadelphia International', city: 'Philadelphia', country: 'US', coordinates: [39.8744, -75.2424] },
+  { iata: 'PHX', name: 'Phoenix Sky Harbor International', city: 'Phoenix', country: 'US', coordinates: [33.4342, -112.0116] },
+  { iata: 'PIT', name: 'Pittsburgh International', city: 'Pittsburgh', country: 'US', coordinates: [40.4915, -80.2329] },
+  { iata: 'RAP', name: 'Rapid City Regional', city: 'Rapid City', country: 'US', coordinates: [44.0453, -103.0574] },
+  { iata: 'RDU', name: 'Raleigh-Durham International', city: 'Raleigh', country: 'US', coordinates: [35.8801, -78.7880] },
+  { iata: 'RNO', name: 'Reno-Tahoe International', city: 'Reno', country: 'US', coordinates: [39.4991, -119.7681] },
+  { iata: 'SAN', name: 'San Diego International', city: 'San Diego', country: 'US', coordinates: [32.7338, -117.1933] },
+  { iata: 'SAT', name: 'San Antonio International', city: 'San Antonio', country: 'US', coordinates: [29.5337, -98.4698] },
+  { iata: 'SEA', name: 'Seattle-Tacoma International', city: 'Seattle', country: 'US', coordinates: [47.4502, -122.3088] },
+  { iata: 'SFO', name: 'San Francisco International', city: 'San Francisco', country: 'US', coordinates: [37.6213, -122.3790] },
+  { iata: 'SJC', name: 'San Jose Mineta International', city: 'San Jose', country: 'US', coordinates: [37.3639, -121.9289] },
+  { iata: 'SLC', name: 'Salt Lake City International', city: 'Salt Lake City', country: 'US', coordinates: [40.7899, -111.9791] },
+  { iata: 'STL', name: 'St. Louis Lambert International', city: 'St. Louis', country: 'US', coordinates: [38.7499, -90.3748] },
+  { iata: 'TPA', name: 'Tampa International', city: 'Tampa', country: 'US', coordinates: [27.9772, -82.5311] },
+  { iata: 'TUL', name: 'Tulsa International', city: 'Tulsa', country: 'US', coordinates: [36.1984, -95.8881] },
+  { iata: 'TUS', name: 'Tucson International', city: 'Tucson', country: 'US', coordinates: [32.1161, -110.9410] },
+  { iata: 'ABQ', name: 'Albuquerque International Sunport', city: 'Albuquerque', country: 'US', coordinates: [35.0402, -106.6091] },
+  { iata: 'ANC', name: 'Ted Stevens Anchorage International', city: 'Anchorage', country: 'US', coordinates: [61.1743, -149.9962] },
+  // Canada and Mexico
+  { iata: 'YUL', name: 'Montréal-Trudeau International', city: 'Montreal', country: 'CA', coordinates: [45.4706, -73.7408] },
+  { iata: 'YVR', name: 'Vancouver International', city: 'Vancouver', country: 'CA', coordinates: [49.1967, -123.1815] },
+  { iata: 'YYC', name: 'Calgary International', city: 'Calgary', country: 'CA', coordinates: [51.1215, -114.0076] },
+  { iata: 'YYZ', name: 'Toronto Pearson International', city: 'Toronto', country: 'CA', coordinates: [43.6777, -79.6248] },
+  { iata: 'CUN', name: 'Cancún International', city: 'Cancún', country: 'MX', coordinates: [21.0365, -86.8771] },
+  { iata: 'MEX', name: 'Mexico City International', city: 'Mexico City', country: 'MX', coordinates: [19.4361, -99.0719] },
+  // Europe
+  { iata: 'AMS', name: 'Amsterdam Schiphol', city: 'Amsterdam', country: 'NL', coordinates: [52.3105, 4.7683] },
+  { iata: 'ARN', name: 'Stockholm Arlanda', city: 'Stockholm', country: 'SE', coordinates: [59.6498, 17.9238] },
+  { iata: 'ATH', name: 'Athens International', city: 'Athens', country: 'GR', coordinates: [37.9364, 23.9445] },
+  { iata: 'BCN', name: 'Barcelona-El Prat', city: 'Barcelona', country: 'ES', coordinates: [41.2974, 2.0833] },
+  { iata: 'BER', name: 'Berlin Brandenburg', city: 'Berlin', country: 'DE', coordinates: [52.3667, 13.5033] },
+  { iata: 'CDG', name: 'Paris Charles de Gaulle', city: 'Paris', country: 'FR', coordinates: [49.0097, 2.5479] },
+  { iata: 'CPH', name: 'Copenhagen Airport', city: 'Copenhagen', country: 'DK', coordinates: [55.6180, 12.6508] },
+  { iata: 'DUB', name: 'Dublin Airport', city: 'Dublin', country: 'IE', coordinates: [53.4264, -6.2499] },
+  { iata: 'FCO', name: 'Rome Fiumicino', city: 'Rome', country: 'IT', coordinates: [41.8003, 12.2389] },
+  { iata: 'FRA', name: 'Frankfurt Airport', city: 'Frankfurt', country: 'DE', coordinates: [50.0379, 8.5622] },
+  { iata: 'IST', name: 'Istanbul Airport', city: 'Istanbul', country: 'TR', coordinates: [41.2753, 28.7519] },
+  { iata: 'LHR', name: 'London Heathrow', city: 'London', country: 'GB', coordinates: [51.4700, -0.4543] },
+  { iata: 'LGW', name: 'London Gatwick', city: 'London', country: 'GB', coordinates: [51.1537, -0.1821] },
+  { iata: 'LIS', name: 'Lisbon Humberto Delgado', city: 'Lisbon', country: 'PT', coordinates: [38.7742, -9.1342] },
+  { iata: 'MAD', name: 'Adolfo Suárez Madrid-Barajas', city: 'Madrid', country: 'ES', coordinates: [40.4983, -3.5676] },
+  { iata: 'MUC', name: 'Munich Airport', city: 'Munich', country: 'DE', coordinates: [48.3538, 11.7861] },
+  { iata: 'MXP', name: 'Milan Malpensa', city: 'Milan', country: 'IT', coordinates: [45.6306, 8.7281] },
+  { iata: 'ORY', name: 'Paris Orly', city: 'Paris', country: 'FR', coordinates: [48.7262, 2.3652] },
+  { iata: 'OSL', name: 'Oslo Gardermoen', city: 'Oslo', country: 'NO', coordinates: [60.1976, 11.1004] },
+  { iata: 'PRG', name: 'Václav Havel Airport Prague', city: 'Prague', country: 'CZ', coordinates: [50.1008, 14.2600] },
+  { iata: 'VIE', name: 'Vienna International', city: 'Vienna', country: 'AT', coordinates: [48.1103, 16.5697] },
+  { iata: 'WAW', name: 'Warsaw Chopin', city: 'Warsaw', country: 'PL', coordinates: [52.1657, 20.9671] },
+  { iata: 'ZRH', name: 'Zurich Airport', city: 'Zurich', country: 'CH', coordinates: [47.4582, 8.5555] },
+  // Middle East, Africa and Asia-Pacific
+  { iata: 'AKL', name: 'Auckland Airport', city: 'Auckland', country: 'NZ', coordinates: [-37.0082, 174.7850] },
+  { iata: 'BKK', name: 'Suvarnabhumi', city: 'Bangkok', country: 'TH', coordinates: [13.6900, 100.7501] },
+  { iata: 'BNE', name: 'Brisbane Airport', city: 'Brisbane', country: 'AU', coordinates: [-27.3942, 153.1218] },
+  { iata: 'BOM', name: 'Chhatrapati Shivaji Maharaj International', city: 'Mumbai', country: 'IN', coordinates: [19.0896, 72.8656] },
+  { iata: 'CAI', name: 'Cairo International', city: 'Cairo', country: 'EG', coordinates: [30.1219, 31.4056] },
+  { iata: 'DEL', name: 'Indira Gandhi International', city: 'Delhi', country: 'IN', coordinates: [28.5562, 77.1000] },
+  { iata: 'DOH', name: 'Hamad International', city: 'Doha', country: 'QA', coordinates: [25.2731, 51.6081] },
+  { iata: 'DXB', name: 'Dubai International', city: 'Dubai', country: 'AE', coordinates: [25.2532, 55.3657] },
+  { iata: 'HKG', name: 'Hong Kong International', city: 'Hong Kong', country: 'HK', coordinates: [22.3080, 113.9185] },
+  { iata: 'HND', name: 'Tokyo Haneda', city: 'Tokyo', country: 'JP', coordinates: [35.5494, 139.7798] },
+  { iata: 'ICN', name: 'Incheon International', city: 'Seoul', country: 'KR', coordinates: [37.4602, 126.4407] },
+  { iata: 'JNB', name: 'O. R. Tambo International', city: 'Johannesburg', country: 'ZA', coordinates: [-26.1392, 28.2460] },
+  { iata: 'KIX', name: 'Kansai International', city: 'Osaka', country: 'JP', coordinates: [34.4320, 135.2304] },
+  { iata: 'MEL', name: 'Melbourne Airport', city: 'Melbourne', country: 'AU', coordinates: [-37.6690, 144.8410] },
+  { iata: 'NRT', name: 'Narita International', city: 'Tokyo', country: 'JP', coordinates: [35.7720, 140.3929] },
+  { iata: 'PEK', name: 'Beijing Capital International', city: 'Beijing', country: 'CN', coordinates: [40.0799, 116.6031] },
+  { iata: 'PVG', name: 'Shanghai Pudong International', city: 'Shanghai', country: 'CN', coordinates: [31.1443, 121.8083] },
+  { iata: 'SIN', name: 'Singapore Changi', city: 'Singapore', country: 'SG', coordinates: [1.3644, 103.9915] },
+  { iata: 'SYD', name: 'Sydney Kingsford Smith', city: 'Sydney', country: 'AU', coordinates: [-33.9399, 151.1753] },
+  // South America
+  { iata: 'BOG', name: 'El Dorado International', city: 'Bogotá', country: 'CO', coordinates: [4.7016, -74.1469] },
+  { iata: 'EZE', name: 'Ministro Pistarini International', city: 'Buenos Aires', country: 'AR', coordinates: [-34.8222, -58.5358] },
+  { iata: 'GRU', name: 'São Paulo/Guarulhos International', city: 'São Paulo', country: 'BR', coordinates: [-23.4356, -46.4731] },
+  { iata: 'LIM', name: 'Jorge Chávez International', city: 'Lima', country: 'PE', coordinates: [-12.0219, -77.1143] },
+  { iata: 'SCL', name: 'Arturo Merino Benítez International', city: 'Santiago', country: 'CL', coordinates: [-33.3930, -70.7858] },
+];
+
+export function findAirport(iata: string): Airport | null {
+  const code = iata.trim().toUpperCase();
+  return AIRPORTS.find((airport) => airport.iata === code) || null;
+}
+
+// Airports within maxKm of the point, nearest first
+export function findNearestAirports(point: LatLng, maxKm: number, limit = 3): Airport[] {
+  return AIRPORTS
+    .map((airport) => ({ airport, distance: calculateDistance(point, airport.coordinates) }))
+    .filter(({ distance }) => distance <= maxKm)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ airport }) => airport);
+}
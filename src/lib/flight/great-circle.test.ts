@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { greatCircleArc } from '@/lib/flight/great-circle';
+import { flightGeometry, type FlightItinerary } from '@/lib/flight/planner';
+import { calculateDistance } from '@/lib/routing/geo';
+import type { LatLng } from '@/lib/routing/types';
+
+const TOKYO: LatLng = [35.55, 139.78];
+const SAN_FRANCISCO: LatLng = [37.62, -122.38];
+
+describe('greatCircleArc', () => {
+  it('runs from start to end', () => {
+    const arc = greatCircleArc(TOKYO, SAN_FRANCISCO);
+    assert.ok(calculateDistance(arc[0], TOKYO) < 0.01);
+    assert.ok(calculateDistance(arc[arc.length - 1], SAN_FRANCISCO) < 0.01);
+  });
+
+  it('keeps longitudes in range across the antimeridian', () => {
+    const arc = greatCircleArc(TOKYO, SAN_FRANCISCO);
+    assert.ok(arc.every(([, lon]) => lon >= -180 && lon <= 180));
+    // The short way over the Pacific bends north of both airports
+    assert.ok(Math.max(...arc.map(([lat]) => lat)) > 45);
+  });
+
+  it('falls back to a straight pair for coincident points', () => {
+    assert.deepEqual(greatCircleArc(TOKYO, TOKYO), [TOKYO, TOKYO]);
+  });
+});
+
+describe('flightGeometry', () => {
+  it('joins the legs without repeating the airports', () => {
+    const leg = (coordinates: LatLng[]) => ({ coordinates }) as FlightItinerary['legs'][number];
+    const itinerary = {
+      legs: [leg([[35.6, 139.7], TOKYO]), leg(greatCircleArc(TOKYO, SAN_FRANCISCO)), leg([SAN_FRANCISCO, [37.77, -122.42]])],
+    } as FlightItinerary;
+    const geometry = flightGeometry(itinerary);
+    const airLeg = itinerary.legs[1].coordinates;
+    assert.equal(geometry.length, 2 + airLeg.length - 1 + 1);
+    assert.ok(geometry.every(([, lon]) => lon >= -180 && lon <= 180));
+  });
+});
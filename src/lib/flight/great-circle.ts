@@ -0,0 +1,44 @@
+import type { LatLng } from '@/lib/routing/types';
+import { calculateDistance, toRad } from '@/lib/routing/geo';
+
+const toDeg = (radians: number) => radians * (180 / Math.PI);
+
+// Roughly one vertex per 50 km keeps long-haul arcs smooth on the map
+const KM_PER_SEGMENT = 50;
+const MIN_SEGMENTS = 8;
+const MAX_SEGMENTS = 256;
+
+// Points along the shortest path over the sphere between start and end
+// (spherical linear interpolation), with longitudes in [-180, 180]. Arcs
+// crossing the antimeridian jump from 180 to -180; unwrapLongitudes draws them.
+export function greatCircleArc(start: LatLng, end: LatLng): LatLng[] {
+  const distanceKm = calculateDistance(start, end);
+  const segments = Math.min(MAX_SEGMENTS, Math.max(MIN_SEGMENTS, Math.ceil(distanceKm / KM_PER_SEGMENT)));
+
+  const lat1 = toRad(start[0]);
+  const lon1 = toRad(start[1]);
+  const lat2 = toRad(end[0]);
+  const lon2 = toRad(end[1]);
+
+  // Angular distance between the endpoints
+  const delta = distanceKm / 6371;
+  // Coincident or antipodal endpoints have no unique arc
+  if (Math.sin(delta) < 1e-9) return [start, end];
+
+  const points: LatLng[] = [];
+
+  for (let i = 0; i <= segments; i++) {
+    const fraction = i / segments;
+    const a = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+    const b = Math.sin(fraction * delta) / Math.sin(delta);
+
+    const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+    const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+    const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+    const lat = toDeg(Math.atan2(z, Math.sqrt(x * x + y * y)));
+    points.push([lat, toDeg(Math.atan2(y, x))]);
+  }
+
+  return points;
+}
@@ -0,0 +1,182 @@
+import type { LatLng, Maneuver, RouteInstruction, RoutePreference, RoutePreferences, Router } from '@/lib/routing/types';
+import { calculateDistance } from '@/lib/routing/geo';
+import { renderManeuver } from '@/lib/routing/instructions';
+import { findNearestAirports, type Airport } from '@/lib/flight/airports';
+import { greatCircleArc } from '@/lib/flight/great-circle';
+
+// Airports further than this from the origin or destination are not considered
+export const MAX_AIRPORT_DISTANCE_KM = 200;
+// Shorter hops are better served by ground transport
+export const MIN_FLIGHT_DISTANCE_KM = 150;
+const AIRPORT_CANDIDATES = 3;
+
+// Block time = fixed taxi/climb/descent allowance + cruise at average block speed
+const BLOCK_OVERHEAD_SECONDS = 30 * 60;
+const CRUISE_SPEED_KMH = 800;
+
+// Used to compare airport pairs before the ground legs are routed
+const GROUND_DETOUR_FACTOR = 1.3;
+const GROUND_SPEED_KMH = 50;
+
+export interface FlightLeg {
+  type: 'ground' | 'air';
+  from: string;
+  to: string;
+  distance: number; // meters
+  duration: number; // seconds
+  tollDistance: number;
+  coordinates: LatLng[];
+  instructions: RouteInstruction[];
+  // Preferences the router applied to a ground leg
+  appliedPreferences?: RoutePreference[];
+}
+
+export interface FlightItinerary {
+  originAirport: Airport;
+  destinationAirport: Airport;
+  distance: number;
+  duration: number;
+  legs: FlightLeg[];
+}
+
+// Gate-to-gate time for a flight of the given great-circle distance
+export function estimateBlockTime(distanceKm: number): number {
+  return Math.round(BLOCK_OVERHEAD_SECONDS + (distanceKm / CRUISE_SPEED_KMH) * 3600);
+}
+
+function estimateGroundTime(from: LatLng, to: LatLng): number {
+  return (calculateDistance(from, to) * GROUND_DETOUR_FACTOR / GROUND_SPEED_KMH) * 3600;
+}
+
+function airportLabel(airport: Airport): string {
+  return `${airport.name} (${airport.iata})`;
+}
+
+// Drive to or from an airport; falls back to a straight-line estimate when the
+// router has no road connection (e.g. an island without a routable ferry)
+async function groundLeg(
+  router: Router,
+  from: LatLng,
+  to: LatLng,
+  fromName: string,
+  toName: string,
+  preferences: RoutePreferences
+): Promise<FlightLeg> {
+  const route = await router.route([from, to], 'car', { preferences });
+  if (route) {
+    return {
+      type: 'ground',
+      from: fromName,
+      to: toName,
+      distance: route.distance,
+      duration: route.duration,
+      tollDistance: route.tollDistance,
+      coordinates: route.coordinates,
+      instructions: route.instructions,
+      appliedPreferences: route.appliedPreferences,
+    };
+  }
+
+  const distance = calculateDistance(from, to) * GROUND_DETOUR_FACTOR * 1000;
+  const duration = Math.round(estimateGroundTime(from, to));
+  const travel: Maneuver = { type: 'travel', to: toName };
+  return {
+    type: 'ground',
+    from: fromName,
+    to: toName,
+    distance,
+    duration,
+    tollDistance: 0,
+    coordinates: [from, to],
+    instructions: [
+      {
+        distance,
+        duration,
+        instruction: renderManeuver(travel),
+        name: toName,
+        type: 'depart',
+        maneuver: travel,
+      },
+    ],
+  };
+}
+
+// Door-to-door flight itinerary: drive to the departure airport, fly the
+// great-circle arc, drive from the arrival airport. Returns null when either
+// end has no airport nearby or the trip is too short to fly.
+export async function planFlightJourney(
+  origin: LatLng,
+  destination: LatLng,
+  router: Router,
+  preferences: RoutePreferences = {}
+): Promise<FlightItinerary | null> {
+  const departures = findNearestAirports(origin, MAX_AIRPORT_DISTANCE_KM, AIRPORT_CANDIDATES);
+  const arrivals = findNearestAirports(destination, MAX_AIRPORT_DISTANCE_KM, AIRPORT_CANDIDATES);
+
+  // Choose the airport pair with the shortest estimated door-to-door time
+  let best: { from: Airport; to: Airport; time: number } | null = null;
+  for (const from of departures) {
+    for (const to of arrivals) {
+      if (from.iata === to.iata) continue;
+      const flightKm = calculateDistance(from.coordinates, to.coordinates);
+      if (flightKm < MIN_FLIGHT_DISTANCE_KM) continue;
+
+      const time =
+        estimateGroundTime(origin, from.coordinates) +
+        estimateBlockTime(flightKm) +
+        estimateGroundTime(to.coordinates, destination);
+      if (!best || time < best.time) {
+        best = { from, to, time };
+      }
+    }
+  }
+
+  if (!best) return null;
+  const { from: originAirport, to: destinationAirport } = best;
+
+  const flightKm = calculateDistance(originAirport.coordinates, destinationAirport.coordinates);
+  const flightDuration = estimateBlockTime(flightKm);
+  const flight: Maneuver = { type: 'flight', from: originAirport.iata, to: destinationAirport.iata };
+  const airLeg: FlightLeg = {
+    type: 'air',
+    from: airportLabel(originAirport),
+    to: airportLabel(destinationAirport),
+    distance: flightKm * 1000,
+    duration: flightDuration,
+    tollDistance: 0,
+    coordinates: greatCircleArc(originAirport.coordinates, destinationAirport.coordinates),
+    instructions: [
+      {
+        distance: flightKm * 1000,
+        duration: flightDuration,
+        instruction: renderManeuver(flight),
+        name: `${originAirport.iata} → ${destinationAirport.iata}`,
+        type: 'flight',
+        maneuver: flight,
+      },
+    ],
+  };
+
+  const [access, egress] = await Promise.all([
+    groundLeg(router, origin, originAirport.coordinates, 'Origin', airportLabel(originAirport), preferences),
+    groundLeg(router, destinationAirport.coordinates, destination, airportLabel(destinationAirport), 'Destination', preferences),
+  ]);
+
+  const legs = [access, airLeg, egress];
+  return {
+    originAirport,
+    destinationAirport,
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+    legs,
+  };
+}
+
+// Full itinerary geometry, leg after leg
+export function flightGeometry(itinerary: FlightItinerary): LatLng[] {
+  const points: LatLng[] = [];
+  for (const leg of itinerary.legs) {
+    points.push(...(points.length > 0 ? leg.coordinates.slice(1) : leg.coordinates));
+  }
+  return points;
+}
@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MATCHING_CONFIG, parseMatchingConfig } from '@/lib/matching/config';
+
+describe('parseMatchingConfig', () => {
+  it('applies a partial override to the defaults', () => {
+    const config = parseMatchingConfig({ weights: { same_mode: 0 }, minPoints: 70 });
+    assert.ok(typeof config !== 'string');
+    assert.equal(config.weights.same_mode, 0);
+    assert.equal(config.weights.same_destination, DEFAULT_MATCHING_CONFIG.weights.same_destination);
+    assert.equal(config.minPoints, 70);
+    assert.equal(DEFAULT_MATCHING_CONFIG.weights.same_mode, 20);
+  });
+
+  it('rejects unknown rules and invalid values', () => {
+    assert.match(parseMatchingConfig({ weights: { same_colour: 10 } }) as string, /Unknown matching rule/);
+    assert.equal(typeof parseMatchingConfig({ weights: { same_mode: -1 } }), 'string');
+    assert.equal(typeof parseMatchingConfig({ alongRouteKm: 0 }), 'string');
+    assert.equal(typeof parseMatchingConfig({ minPoints: '50' }), 'string');
+    assert.equal(typeof parseMatchingConfig([]), 'string');
+  });
+});
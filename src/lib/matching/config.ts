@@ -0,0 +1,98 @@
+// Matching rules and how much each counts. The defaults reproduce the original
+// point system; MATCHING_CONFIG (JSON, any subset of MatchingConfig) overrides
+// them per deployment without a code change.
+
+export const MATCH_RULES = [
+  'same_destination',
+  'same_departure_airport',
+  'same_arrival_airport',
+  'pickup_along_route',
+  'dropoff_along_route',
+  'detour',
+  'routes_overlap',
+  'departure_window',
+  'same_mode',
+] as const;
+
+export type MatchRule = (typeof MATCH_RULES)[number];
+
+export interface MatchingConfig {
+  // Points a rule adds when it holds; a weight of 0 disables the rule
+  weights: Record<MatchRule, number>;
+  // How far a point may lie from a route, in km, and still be along it
+  alongRouteKm: number;
+  // Two trips match when they earn more than this many points. Judged on
+  // points rather than the normalized score, since road, flight and detour
+  // pairs can earn different totals
+  minPoints: number;
+}
+
+export const DEFAULT_MATCHING_CONFIG: MatchingConfig = {
+  weights: {
+    same_destination: 50,
+    same_departure_airport: 40,
+    same_arrival_airport: 40,
+    pickup_along_route: 40,
+    dropoff_along_route: 40,
+    detour: 40,
+    routes_overlap: 30,
+    departure_window: 30,
+    same_mode: 20,
+  },
+  alongRouteKm: 5,
+  minPoints: 50,
+};
+
+// Validate a partial config; returns an error message when invalid
+export function parseMatchingConfig(value: unknown): MatchingConfig | string {
+  if (value === undefined || value === null) return DEFAULT_MATCHING_CONFIG;
+  if (typeof value !== 'object' || Array.isArray(value)) return 'Matching config must be an object';
+
+  const { weights = {}, alongRouteKm, minPoints } = value as Record<string, unknown>;
+  if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) return 'weights must be an object';
+
+  const config: MatchingConfig = {
+    ...DEFAULT_MATCHING_CONFIG,
+    weights: { ...DEFAULT_MATCHING_CONFIG.weights },
+  };
+  for (const [rule, weight] of Object.entries(weights)) {
+    if (!MATCH_RULES.includes(rule as MatchRule)) {
+      return `Unknown matching rule "${rule}". Expected one of: ${MATCH_RULES.join(', ')}`;
+    }
+    if (typeof weight !== 'number' || !(weight >= 0)) return `Weight for ${rule} must be a number of at least 0`;
+    config.weights[rule as MatchRule] = weight;
+  }
+  if (alongRouteKm !== undefined) {
+    if (typeof alongRouteKm !== 'number' || !(alongRouteKm > 0)) return 'alongRouteKm must be a positive number';
+    config.alongRouteKm = alongRouteKm;
+  }
+  if (minPoints !== undefined) {
+    if (typeof minPoints !== 'number' || !(minPoints >= 0)) return 'minPoints must be a number of at least 0';
+    config.minPoints = minPoints;
+  }
+  return config;
+}
+
+let cachedConfig: MatchingConfig | null = null;
+
+// Config for this process: the defaults with MATCHING_CONFIG applied. An
+// invalid override is reported and ignored rather than breaking trip creation.
+export function getMatchingConfig(): MatchingConfig {
+  if (cachedConfig) return cachedConfig;
+
+  let override: unknown = null;
+  try {
+    override = process.env.MATCHING_CONFIG ? JSON.parse(process.env.MATCHING_CONFIG) : null;
+  } catch {
+    console.error('MATCHING_CONFIG is not valid JSON; using the default matching rules');
+  }
+
+  const config = parseMatchingConfig(override);
+  if (typeof config === 'string') {
+    console.error(`Invalid MATCHING_CONFIG: ${config}; using the default matching rules`);
+    cachedConfig = DEFAULT_MATCHING_CONFIG;
+  } else {
+    cachedConfig = config;
+  }
+  return cachedConfig;
+}
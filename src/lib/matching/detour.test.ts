@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MAX_DETOUR, measureDetours, offersRides, parseMaxDetour } from '@/lib/matching/detour';
+import { createFixtureRouter } from '@/lib/routing/providers/fixture';
+import type { LatLng, Router } from '@/lib/routing/types';
+
+const trip = (transportMode: string, source: LatLng, destination: LatLng) => ({
+  transportMode,
+  sourceCoordinates: source,
+  destinationCoordinates: destination,
+});
+
+// Counts the matrices requested and their sizes
+function countingRouter() {
+  const fixture = createFixtureRouter();
+  const sizes: number[] = [];
+  const router: Router = {
+    ...fixture,
+    matrix: (points, mode) => {
+      sizes.push(points.length);
+      return fixture.matrix(points, mode);
+    },
+  };
+  return { router, sizes };
+}
+
+describe('parseMaxDetour', () => {
+  it('defaults and rejects values outside the range', () => {
+    assert.equal(parseMaxDetour(undefined), DEFAULT_MAX_DETOUR);
+    assert.equal(parseMaxDetour(0), 0);
+    assert.equal(typeof parseMaxDetour(121), 'string');
+    assert.equal(typeof parseMaxDetour(7.5), 'string');
+  });
+});
+
+describe('offersRides', () => {
+  it('only counts drivers', () => {
+    assert.ok(offersRides(trip('Car', [0, 0], [0, 1])));
+    assert.ok(!offersRides(trip('walking', [0, 0], [0, 1])));
+  });
+});
+
+describe('measureDetours', () => {
+  const driver = trip('car', [52.0, 4.0], [52.0, 4.5]);
+
+  it('adds nothing for a companion on the way', async () => {
+    const { router } = countingRouter();
+    const [detour] = await measureDetours([{ driver, companion: trip('walking', [52.0, 4.1], [52.0, 4.4]) }], router);
+    assert.deepEqual(detour, { minutes: 0, km: 0 });
+  });
+
+  it('measures the extra driving to fetch a companion off the route', async () => {
+    const { router } = countingRouter();
+    const [detour] = await measureDetours([{ driver, companion: trip('walking', [52.1, 4.1], [52.0, 4.4]) }], router);
+    assert.ok(detour && detour.km > 10 && detour.minutes > 0, JSON.stringify(detour));
+  });
+
+  it('shares matrices between pairs and skips pairs without coordinates', async () => {
+    const { router, sizes } = countingRouter();
+    const companions = Array.from({ length: 60 }, (_, i) => trip('walking', [52.0 + i / 1000, 4.1], [52.0, 4.4]));
+    const pairs = [
+      ...companions.map((companion) => ({ driver, companion })),
+      { driver, companion: { ...trip('walking', [0, 0], [0, 0]), sourceCoordinates: null } },
+    ];
+    const detours = await measureDetours(pairs, router);
+
+    assert.equal(detours.length, pairs.length);
+    assert.ok(detours.slice(0, -1).every((detour) => detour !== null));
+    assert.equal(detours[detours.length - 1], null);
+    // Three shared points plus one pickup per companion, 50 to a matrix
+    assert.deepEqual(sizes, [50, 3 + 60 - 47]);
+  });
+
+  it('leaves pairs unpriced when the router fails', async () => {
+    const router: Router = { ...createFixtureRouter(), matrix: async () => { throw new Error('down'); } };
+    assert.deepEqual(await measureDetours([{ driver, companion: driver }], router), [null]);
+  });
+});
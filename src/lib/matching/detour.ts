@@ -0,0 +1,118 @@
+import type { LatLng, Router } from '@/lib/routing/types';
+
+// How far out of their way a driver will go for a companion, in extra minutes
+export const DEFAULT_MAX_DETOUR = 15;
+export const MAX_MAX_DETOUR = 120;
+
+// Returns an error message when invalid
+export function parseMaxDetour(value: unknown): number | string {
+  if (value === undefined || value === null) return DEFAULT_MAX_DETOUR;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_MAX_DETOUR) {
+    return `maxDetour must be a whole number of minutes from 0 to ${MAX_MAX_DETOUR}`;
+  }
+  return value;
+}
+
+// Extra driving a pickup and drop-off add to the driver's own trip
+export interface Detour {
+  minutes: number;
+  km: number;
+}
+
+interface Endpoints {
+  transportMode: string;
+  sourceCoordinates: LatLng | null;
+  destinationCoordinates: LatLng | null;
+}
+
+// Only drivers can pick anyone up
+export const offersRides = (trip: Endpoints) => trip.transportMode.toLowerCase() === 'car';
+
+// Public OSRM servers refuse tables of more than 100 locations
+const MAX_MATRIX_POINTS = 50;
+const MAX_PARALLEL_MATRICES = 4;
+const MATRIX_TIMEOUT_MS = 5000;
+
+export interface DetourPair {
+  driver: Endpoints;
+  companion: Endpoints;
+}
+
+interface MatrixBatch {
+  points: LatLng[];
+  // Index of each point in `points`, by "lat,lon"
+  index: Map<string, number>;
+  pairs: number[];
+}
+
+// Null once `ms` pass without an answer
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Driving start → pickup → drop-off → destination against driving straight
+// there, for each pair. Pairs share travel matrices of up to
+// MAX_MATRIX_POINTS points, a few requested at a time, so the cost grows
+// with the number of batches rather than pairs. A pair is null when the
+// router cannot price it in time.
+export async function measureDetours(pairs: DetourPair[], router: Router): Promise<Array<Detour | null>> {
+  const results: Array<Detour | null> = pairs.map(() => null);
+  const batches: MatrixBatch[] = [];
+
+  pairs.forEach(({ driver, companion }, pairIndex) => {
+    const points = [driver.sourceCoordinates, companion.sourceCoordinates, companion.destinationCoordinates, driver.destinationCoordinates];
+    if (points.some((point) => !point)) return;
+
+    const keys = new Set(points.map((point) => point!.join(',')));
+    let batch = batches[batches.length - 1];
+    const added = batch ? [...keys].filter((key) => !batch.index.has(key)).length : keys.size;
+    if (!batch || batch.points.length + added > MAX_MATRIX_POINTS) {
+      batch = { points: [], index: new Map(), pairs: [] };
+      batches.push(batch);
+    }
+    for (const point of points as LatLng[]) {
+      const key = point.join(',');
+      if (!batch.index.has(key)) {
+        batch.index.set(key, batch.points.length);
+        batch.points.push(point);
+      }
+    }
+    batch.pairs.push(pairIndex);
+  });
+
+  const measure = async (batch: MatrixBatch) => {
+    let matrix;
+    try {
+      matrix = await withTimeout(router.matrix(batch.points, 'car'), MATRIX_TIMEOUT_MS);
+    } catch (error) {
+      console.error('Detour matrix error:', error);
+      return;
+    }
+    if (!matrix) return;
+
+    for (const pairIndex of batch.pairs) {
+      const { driver, companion } = pairs[pairIndex];
+      const [a, b, c, d] = [driver.sourceCoordinates, companion.sourceCoordinates, companion.destinationCoordinates, driver.destinationCoordinates]
+        .map((point) => batch.index.get(point!.join(','))!);
+      const extra = (values: number[][]) => values[a][b] + values[b][c] + values[c][d] - values[a][d];
+      const seconds = extra(matrix.durations);
+      const meters = extra(matrix.distances);
+      if (!Number.isFinite(seconds) || !Number.isFinite(meters)) continue;
+
+      // Shortcuts the direct route missed are not a negative detour
+      results[pairIndex] = {
+        minutes: Math.max(0, Math.round(seconds / 60)),
+        km: Math.max(0, Math.round(meters / 100) / 10),
+      };
+    }
+  };
+
+  for (let i = 0; i < batches.length; i += MAX_PARALLEL_MATRICES) {
+    await Promise.all(batches.slice(i, i + MAX_PARALLEL_MATRICES).map(measure));
+  }
+  return results;
+}
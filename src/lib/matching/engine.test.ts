@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MATCHING_CONFIG } from '@/lib/matching/config';
+import { isMatch, scoreMatch, type MatchTrip } from '@/lib/matching/engine';
+import type { LatLng } from '@/lib/routing/types';
+
+const config = DEFAULT_MATCHING_CONFIG;
+
+function trip(overrides: Partial<MatchTrip>): MatchTrip {
+  return {
+    destination: 'Utrecht',
+    transportMode: 'car',
+    departure: 8 * 3600,
+    departureWindow: 30,
+    maxDetour: 15,
+    sourceCoordinates: null,
+    destinationCoordinates: null,
+    routeGeometry: null,
+    originAirport: null,
+    destinationAirport: null,
+    ...overrides,
+  };
+}
+
+// A driver heading due east with no vertex between its endpoints
+const DRIVER_ROUTE: LatLng[] = [[52.0, 4.0], [52.0, 5.0]];
+const driver = trip({ sourceCoordinates: DRIVER_ROUTE[0], destinationCoordinates: DRIVER_ROUTE[1], routeGeometry: DRIVER_ROUTE });
+
+const rule = (trip: MatchTrip, other: MatchTrip, name: string) =>
+  scoreMatch(trip, other, config).rules.find((result) => result.rule === name);
+
+describe('scoreMatch', () => {
+  it('finds pickups along a segment, away from its vertices', () => {
+    const rider = trip({ sourceCoordinates: [52.01, 4.3], destinationCoordinates: [52.0, 4.8] });
+    const pickup = rule(rider, driver, 'pickup_along_route')!;
+    assert.ok(pickup.matched);
+    assert.equal(pickup.distanceKm, 1.1);
+    assert.ok(Math.abs(pickup.alongKm! - 20.6) < 0.2, `along ${pickup.alongKm}`);
+    assert.ok(rule(rider, driver, 'dropoff_along_route')!.matched);
+  });
+
+  it('needs the pickup to come before the drop-off', () => {
+    const backwards = trip({ sourceCoordinates: [52.0, 4.8], destinationCoordinates: [52.0, 4.3] });
+    assert.equal(rule(backwards, driver, 'pickup_along_route')!.matched, false);
+    assert.equal(rule(backwards, driver, 'dropoff_along_route')!.matched, false);
+  });
+
+  it('compares flights by airport rather than by route', () => {
+    const flight = (originAirport: string) =>
+      trip({ transportMode: 'flight', destination: 'Tokyo', originAirport, destinationAirport: 'HND', routeGeometry: DRIVER_ROUTE });
+    const breakdown = scoreMatch(flight('AMS'), flight('AMS'), config);
+    assert.deepEqual(
+      breakdown.rules.map((result) => result.rule),
+      ['same_destination', 'same_departure_airport', 'same_arrival_airport', 'departure_window', 'same_mode']
+    );
+    assert.equal(breakdown.score, 100);
+    assert.ok(!isMatch(scoreMatch(flight('AMS'), { ...flight('CDG'), destination: 'Narita', destinationAirport: 'NRT', departure: 20 * 3600 }, config)));
+  });
+
+  it('credits a detour by how much of the limit it leaves', () => {
+    const rider = trip({ sourceCoordinates: [52.01, 4.3], destinationCoordinates: [52.0, 4.8] });
+    const short = scoreMatch(rider, driver, config, { minutes: 5, km: 4 });
+    assert.equal(short.rules.find((result) => result.rule === 'detour')!.credit, 0.67);
+    assert.ok(isMatch(short, config));
+
+    assert.ok(!isMatch(scoreMatch(rider, driver, config, { minutes: 20, km: 15 }), config));
+  });
+
+  it('keeps the original "more than 50 points" cut-off for road and flight pairs', () => {
+    // Same destination only: 50 points, then 60 with the same mode too
+    const walker = trip({ transportMode: 'walking', departure: null });
+    const cyclist = trip({ transportMode: 'cycling', departure: null });
+    assert.equal(scoreMatch(walker, cyclist, config).points, 50);
+    assert.ok(!isMatch(scoreMatch(walker, cyclist, config), config));
+    assert.ok(isMatch(scoreMatch(walker, { ...walker }, config), config));
+
+    const flight = trip({ transportMode: 'flight', departure: null, originAirport: 'AMS', destinationAirport: 'HND' });
+    const other = { ...flight, originAirport: 'CDG', destinationAirport: 'NRT' };
+    assert.ok(!isMatch(scoreMatch(flight, { ...other, transportMode: 'car' }, config), config));
+    assert.ok(isMatch(scoreMatch(flight, other, config), config));
+  });
+
+  it('does not hold a measured detour against a pair that matched without it', () => {
+    // Pickup and same mode only: 60 of 210 points, then 60 of 250 with a
+    // detour right at the driver's limit
+    const rider = trip({ destination: 'Amersfoort', sourceCoordinates: [52.0, 4.3], destinationCoordinates: [53, 4.3], departure: null });
+    assert.ok(isMatch(scoreMatch(rider, driver, config), config));
+    assert.ok(isMatch(scoreMatch(rider, driver, config, { minutes: 15, km: 12 }), config));
+  });
+});
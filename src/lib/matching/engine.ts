@@ -0,0 +1,234 @@
+import type { LatLng } from '@/lib/routing/types';
+import { calculateDistance, parseLatLng, projectOntoSegment } from '@/lib/routing/geo';
+import { decodeRouteGeometry } from '@/lib/routing/route-storage';
+import { getMatchingConfig, type MatchingConfig, type MatchRule } from '@/lib/matching/config';
+import { tripDeparture, windowOverlap } from '@/lib/matching/time-window';
+import type { Detour } from '@/lib/matching/detour';
+
+// What matching needs to know about a trip
+export interface MatchTrip {
+  destination: string;
+  transportMode: string;
+  // Local seconds, see schedule
+  departure: number | null;
+  // Minutes either side of the departure the traveller can leave
+  departureWindow: number;
+  // Most extra minutes the traveller will drive to pick someone up
+  maxDetour: number;
+  sourceCoordinates: LatLng | null;
+  destinationCoordinates: LatLng | null;
+  routeGeometry: LatLng[] | null;
+  originAirport: string | null;
+  destinationAirport: string | null;
+}
+
+// How one rule came out for a pair of trips
+export interface MatchRuleResult {
+  rule: MatchRule;
+  matched: boolean;
+  // Points the rule was worth, and earned when it matched
+  weight: number;
+  // Share of the weight earned by a rule that can hold in part; all of it otherwise
+  credit?: number;
+  // How far the point was from the route for the along-route rules; the extra
+  // driving for the detour rule
+  distanceKm?: number;
+  // How far along their route the point lies, for the along-route rules
+  alongKm?: number;
+  // Minutes the departure windows share
+  overlapMinutes?: number;
+  // Extra minutes the driver would spend on the pickup and drop-off
+  detourMinutes?: number;
+}
+
+// Stored with each match so users can see why they were matched
+export interface MatchBreakdown {
+  // 0–100: the share of the applicable points earned, rounded
+  score: number;
+  points: number;
+  maxPoints: number;
+  rules: MatchRuleResult[];
+}
+
+// Stored trip columns the engine reads
+interface TripRow {
+  destination: string;
+  travelDate: string;
+  travelTime: string;
+  departureWindow: number;
+  maxDetour: number;
+  transportMode: string;
+  routeData: unknown;
+  sourceCoordinates: string | null;
+  destinationCoordinates: string | null;
+  sourceLat: number | null;
+  sourceLon: number | null;
+  destinationLat: number | null;
+  destinationLon: number | null;
+  routeGeometry: string | null;
+  originAirport: string | null;
+  destinationAirport: string | null;
+}
+
+export function toMatchTrip(row: TripRow): MatchTrip {
+  return {
+    destination: row.destination,
+    transportMode: row.transportMode,
+    departure: tripDeparture(row),
+    departureWindow: row.departureWindow,
+    maxDetour: row.maxDetour,
+    // Trips saved before the numeric columns only have the text form
+    sourceCoordinates: row.sourceLat !== null && row.sourceLon !== null
+      ? [row.sourceLat, row.sourceLon]
+      : parseLatLng(row.sourceCoordinates),
+    destinationCoordinates: row.destinationLat !== null && row.destinationLon !== null
+      ? [row.destinationLat, row.destinationLon]
+      : parseLatLng(row.destinationCoordinates),
+    routeGeometry: decodeRouteGeometry(row.routeGeometry),
+    originAirport: row.originAirport,
+    destinationAirport: row.destinationAirport,
+  };
+}
+
+type RuleOutcome = Pick<MatchRuleResult, 'matched' | 'credit' | 'distanceKm' | 'alongKm' | 'overlapMinutes' | 'detourMinutes'>;
+
+// The nearest point of a route to a point, over every segment rather than
+// just the vertices: how far the point is from it and how far along the route
+// it lies, both in km
+function projectOntoRoute(point: LatLng, route: LatLng[]): { distanceKm: number; alongKm: number } {
+  if (route.length === 1) return { distanceKm: calculateDistance(point, route[0]), alongKm: 0 };
+
+  let nearest = { distanceKm: Infinity, alongKm: 0 };
+  let travelled = 0;
+  for (let i = 0; i < route.length - 1; i++) {
+    const length = calculateDistance(route[i], route[i + 1]);
+    const { t, distance } = projectOntoSegment(point, route[i], route[i + 1]);
+    if (distance / 1000 < nearest.distanceKm) nearest = { distanceKm: distance / 1000, alongKm: travelled + length * t };
+    travelled += length;
+  }
+  return nearest;
+}
+
+function alongRoute(point: LatLng | null, route: LatLng[] | null, config: MatchingConfig): RuleOutcome {
+  if (!point || !route || route.length === 0) return { matched: false };
+  const { distanceKm, alongKm } = projectOntoRoute(point, route);
+  return {
+    matched: distanceKm <= config.alongRouteKm,
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    alongKm: Math.round(alongKm * 10) / 10,
+  };
+}
+
+// Our start and destination against their route. When both are along it, the
+// pickup has to come first; otherwise they would be driving us backwards and
+// neither counts.
+function pickupAndDropoff(trip: MatchTrip, other: MatchTrip, config: MatchingConfig) {
+  const pickup = alongRoute(trip.sourceCoordinates, other.routeGeometry, config);
+  const dropoff = alongRoute(trip.destinationCoordinates, other.routeGeometry, config);
+  if (pickup.matched && dropoff.matched && dropoff.alongKm! <= pickup.alongKm!) {
+    return { pickup: { ...pickup, matched: false }, dropoff: { ...dropoff, matched: false } };
+  }
+  return { pickup, dropoff };
+}
+
+const isFlightPair = (trip: MatchTrip, other: MatchTrip) =>
+  !!(trip.originAirport && trip.destinationAirport && other.originAirport && other.destinationAirport);
+
+// Worked out once per pair and shared by the rules that need it
+interface PairFacts {
+  // What it costs `other` to take `trip` along, when measured
+  detour: Detour | null;
+  // Our endpoints projected onto their route; null for flight pairs
+  stops: ReturnType<typeof pickupAndDropoff> | null;
+}
+
+// Each rule judges how well `other` suits `trip`. Flights share the plane, not
+// the road, so flight pairs are compared by airport instead of geometry;
+// rules that do not apply to a pair return null.
+const RULES: Record<
+  MatchRule,
+  (trip: MatchTrip, other: MatchTrip, config: MatchingConfig, pair: PairFacts) => RuleOutcome | null
+> = {
+  same_destination: (trip, other) => ({
+    matched: trip.destination.toLowerCase() === other.destination.toLowerCase(),
+  }),
+  same_departure_airport: (trip, other) =>
+    isFlightPair(trip, other) ? { matched: trip.originAirport === other.originAirport } : null,
+  same_arrival_airport: (trip, other) =>
+    isFlightPair(trip, other) ? { matched: trip.destinationAirport === other.destinationAirport } : null,
+  // Our start is along their route: they can pick us up
+  pickup_along_route: (trip, other, config, pair) => pair.stops?.pickup ?? null,
+  // Our destination is along their route, after the pickup: they can drop us off
+  dropoff_along_route: (trip, other, config, pair) => pair.stops?.dropoff ?? null,
+  // What picking us up and dropping us off costs them, when they drive and it
+  // has been measured. Credited by how much of their limit it leaves unused.
+  detour: (trip, other, config, { detour }) => {
+    if (!detour) return null;
+    const matched = detour.minutes <= other.maxDetour;
+    return {
+      matched,
+      credit: matched && other.maxDetour > 0 ? Math.round((1 - detour.minutes / other.maxDetour) * 100) / 100 : 1,
+      distanceKm: detour.km,
+      detourMinutes: detour.minutes,
+    };
+  },
+  // Their start is along our route
+  routes_overlap: (trip, other, config) =>
+    isFlightPair(trip, other) ? null : alongRoute(other.sourceCoordinates, trip.routeGeometry, config),
+  // Credited by how much of the narrower departure window the two share
+  departure_window: (trip, other) => {
+    if (trip.departure === null || other.departure === null) return { matched: false };
+    const overlap = windowOverlap(
+      { departure: trip.departure, window: trip.departureWindow },
+      { departure: other.departure, window: other.departureWindow }
+    );
+    return {
+      matched: overlap.share > 0,
+      credit: Math.round(overlap.share * 100) / 100,
+      overlapMinutes: overlap.minutes,
+    };
+  },
+  same_mode: (trip, other) => ({
+    matched: trip.transportMode.toLowerCase() === other.transportMode.toLowerCase(),
+  }),
+};
+
+// Score how well `other` suits `trip`, rule by rule. The score is normalized
+// over the rules that apply to the pair, so it always reads as a percentage.
+// `detour` is what it costs `other` to take `trip` along, see measureDetours.
+export function scoreMatch(
+  trip: MatchTrip,
+  other: MatchTrip,
+  config: MatchingConfig = getMatchingConfig(),
+  detour: Detour | null = null
+): MatchBreakdown {
+  const projectsStops = config.weights.pickup_along_route > 0 || config.weights.dropoff_along_route > 0;
+  const pair: PairFacts = {
+    detour,
+    stops: projectsStops && !isFlightPair(trip, other) ? pickupAndDropoff(trip, other, config) : null,
+  };
+
+  const rules: MatchRuleResult[] = [];
+  for (const [rule, evaluate] of Object.entries(RULES) as Array<[MatchRule, (typeof RULES)[MatchRule]]>) {
+    const weight = config.weights[rule];
+    if (weight <= 0) continue;
+    const outcome = evaluate(trip, other, config, pair);
+    if (outcome) rules.push({ rule, weight, ...outcome });
+  }
+
+  const maxPoints = rules.reduce((sum, result) => sum + result.weight, 0);
+  const points = rules.reduce((sum, result) => sum + (result.matched ? result.weight * (result.credit ?? 1) : 0), 0);
+  return {
+    score: maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0,
+    points,
+    maxPoints,
+    rules,
+  };
+}
+
+// More than the configured points, as the original rules judged a pair. A
+// detour past the driver's limit rules the pair out whatever else matches.
+export function isMatch(breakdown: MatchBreakdown, config: MatchingConfig = getMatchingConfig()): boolean {
+  if (breakdown.rules.some((result) => result.rule === 'detour' && !result.matched)) return false;
+  return breakdown.points > config.minPoints;
+}
@@ -0,0 +1,107 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { expandBounds, routeBounds, tripSpatialColumns } from '@/lib/matching/spatial';
+import type { LatLng } from '@/lib/routing/types';
+
+const TOKYO: LatLng = [35.55, 139.78];
+const HONOLULU: LatLng = [21.32, -157.92];
+const LONDON: LatLng = [51.47, -0.45];
+const NEW_YORK: LatLng = [40.64, -73.78];
+
+describe('routeBounds', () => {
+  it('boxes a route across the antimeridian the short way round', () => {
+    const bounds = routeBounds([TOKYO, [40, 179.5], [38, -175], HONOLULU]);
+    assert.deepEqual(bounds, { minLat: 21.32, maxLat: 40, minLon: 139.78, maxLon: -157.92 });
+  });
+
+  it('keeps ordinary boxes within [-180, 180]', () => {
+    assert.deepEqual(routeBounds([LONDON, NEW_YORK]), { minLat: 40.64, maxLat: 51.47, minLon: -73.78, maxLon: -0.45 });
+  });
+});
+
+describe('expandBounds', () => {
+  it('wraps a box grown over the antimeridian', () => {
+    const bounds = expandBounds({ minLat: 0, maxLat: 0, minLon: 179.99, maxLon: 179.99 }, 10);
+    assert.ok(bounds.minLon > bounds.maxLon);
+    assert.ok(bounds.maxLon > -180 && bounds.maxLon < -179.9);
+  });
+
+  it('covers every longitude once the box goes round the world', () => {
+    const bounds = expandBounds({ minLat: 89, maxLat: 89.9, minLon: -170, maxLon: 170 }, 50);
+    assert.equal(bounds.minLon, -180);
+    assert.equal(bounds.maxLon, 180);
+  });
+});
+
+// The filter runs as SQL, so check it against the app database on a scratch file
+describe('nearbyTripsFilter', () => {
+  let scratch: string;
+  let db: typeof import('@/db').db;
+  let trips: typeof import('@/db/schema').trips;
+  let nearbyTripsFilter: typeof import('@/lib/matching/spatial').nearbyTripsFilter;
+
+  const nearby = async (points: LatLng[]) =>
+    (await db.select({ source: trips.source }).from(trips).where(nearbyTripsFilter(routeBounds(points), 5)))
+      .map((row) => row.source)
+      .sort();
+
+  before(async () => {
+    scratch = await mkdtemp(path.join(tmpdir(), 'spatial-'));
+    process.env.TURSO_CONNECTION_URL = `file:${path.join(scratch, 'test.db')}`;
+    ({ db } = await import('@/db'));
+    ({ trips } = await import('@/db/schema'));
+    ({ nearbyTripsFilter } = await import('@/lib/matching/spatial'));
+    const { migrate } = await import('drizzle-orm/libsql/migrator');
+    await migrate(db, { migrationsFolder: 'drizzle' });
+
+    const { user } = await import('@/db/schema');
+    const timestamp = new Date().toISOString();
+    await db.insert(user).values({
+      id: 'traveller',
+      name: 'Traveller',
+      email: 'traveller@example.com',
+      emailVerified: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    const trip = (source: string, route: LatLng[]) => ({
+      userId: 'traveller',
+      source,
+      destination: source,
+      travelDate: '2026-10-19',
+      travelTime: '08:00',
+      transportMode: 'flight',
+      optimizationMode: 'fastest',
+      status: 'active',
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      ...tripSpatialColumns(route[0], route[route.length - 1], route),
+    });
+    await db.insert(trips).values([
+      trip('pacific', [TOKYO, [40, 179.5], [38, -175], HONOLULU]),
+      trip('atlantic', [LONDON, NEW_YORK]),
+    ]);
+  });
+
+  after(async () => {
+    await rm(scratch, { recursive: true, force: true });
+  });
+
+  it('finds a stored route that crosses the antimeridian', async () => {
+    assert.deepEqual(await nearby([[39, -178], [39.5, -177]]), ['pacific']);
+    assert.deepEqual(await nearby([[39, 178], [39.5, 179]]), ['pacific']);
+  });
+
+  it('finds stored routes from a search box that crosses the antimeridian', async () => {
+    assert.deepEqual(await nearby([[30, 179], [30, -179]]), ['pacific']);
+    assert.deepEqual(await nearby([[30, 170], [30, -170], [45, -70]]), ['atlantic', 'pacific']);
+  });
+
+  it('leaves out routes elsewhere', async () => {
+    assert.deepEqual(await nearby([[-33.87, 151.21], [-37.81, 144.96]]), []);
+    assert.deepEqual(await nearby([[45, 10], [46, 11]]), []);
+  });
+});
@@ -0,0 +1,92 @@
+import { and, gt, gte, lte, or } from 'drizzle-orm';
+import { trips } from '@/db/schema';
+import { normalizeLongitude, unwrapLongitudes } from '@/lib/routing/geo';
+import type { LatLng } from '@/lib/routing/types';
+
+// Numeric endpoints and the box around a trip's route, stored with the trip so
+// candidate trips can be found in SQL instead of by scanning every route
+export interface TripSpatialColumns {
+  sourceLat: number;
+  sourceLon: number;
+  destinationLat: number;
+  destinationLon: number;
+  routeMinLat: number;
+  routeMaxLat: number;
+  routeMinLon: number;
+  routeMaxLon: number;
+}
+
+// Longitudes are in [-180, 180]. A box that crosses the antimeridian has
+// minLon > maxLon and covers minLon..180 and -180..maxLon.
+export interface RouteBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+// A box from longitudes that run west to east without wrapping
+function wrapBounds(minLat: number, maxLat: number, west: number, east: number): RouteBounds {
+  if (east - west >= 360) return { minLat, maxLat, minLon: -180, maxLon: 180 };
+  return { minLat, maxLat, minLon: normalizeLongitude(west), maxLon: normalizeLongitude(east) };
+}
+
+// Box around the points, taken in order as a line so a route across the
+// antimeridian gets the narrow box around it rather than one round the world
+export function routeBounds(points: LatLng[]): RouteBounds {
+  const lats = points.map(([lat]) => lat);
+  const lons = unwrapLongitudes(points).map(([, lon]) => lon);
+  const west = lons.indexOf(Math.min(...lons));
+  const east = lons.indexOf(Math.max(...lons));
+  const bounds = wrapBounds(Math.min(...lats), Math.max(...lats), lons[west], lons[east]);
+  // Take the stored longitudes themselves, as unwrapping can round them
+  if (bounds.minLon === -180 && bounds.maxLon === 180) return bounds;
+  return { ...bounds, minLon: normalizeLongitude(points[west][1]), maxLon: normalizeLongitude(points[east][1]) };
+}
+
+// Bounds grown by `km` on every side
+export function expandBounds(bounds: RouteBounds, km: number): RouteBounds {
+  const dLat = km / 111.32;
+  const widestLat = Math.max(Math.abs(bounds.minLat), Math.abs(bounds.maxLat));
+  const dLon = km / (111.32 * Math.max(Math.cos((widestLat * Math.PI) / 180), 0.01));
+  const east = bounds.maxLon < bounds.minLon ? bounds.maxLon + 360 : bounds.maxLon;
+  return wrapBounds(bounds.minLat - dLat, bounds.maxLat + dLat, bounds.minLon - dLon, east + dLon);
+}
+
+export function tripSpatialColumns(source: LatLng, destination: LatLng, geometry: LatLng[] | null): TripSpatialColumns {
+  const bounds = routeBounds([source, ...(geometry || []), destination]);
+  return {
+    sourceLat: source[0],
+    sourceLon: source[1],
+    destinationLat: destination[0],
+    destinationLon: destination[1],
+    routeMinLat: bounds.minLat,
+    routeMaxLat: bounds.maxLat,
+    routeMinLon: bounds.minLon,
+    routeMaxLon: bounds.maxLon,
+  };
+}
+
+// Trips whose route box comes within `km` of `bounds`. Every geometric rule
+// compares an endpoint of one trip with the other's route, and shared
+// destinations and airports lie inside both boxes, so a trip outside this
+// filter cannot score on anything but date and mode. Trips without a box have
+// no coordinates to match on.
+export function nearbyTripsFilter(bounds: RouteBounds, km: number) {
+  const box = expandBounds(bounds, km);
+  // Longitude ranges that do not wrap, checked against stored boxes that
+  // either do not wrap or cover both ends of the range
+  const ranges = box.minLon <= box.maxLon ? [[box.minLon, box.maxLon]] : [[box.minLon, 180], [-180, box.maxLon]];
+  return and(
+    lte(trips.routeMinLat, box.maxLat),
+    gte(trips.routeMaxLat, box.minLat),
+    or(
+      ...ranges.map(([west, east]) =>
+        or(
+          and(lte(trips.routeMinLon, trips.routeMaxLon), lte(trips.routeMinLon, east), gte(trips.routeMaxLon, west)),
+          and(gt(trips.routeMinLon, trips.routeMaxLon), or(lte(trips.routeMinLon, east), gte(trips.routeMaxLon, west)))
+        )
+      )
+    )
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDepartureWindow, tripDeparture, windowOverlap } from '@/lib/matching/time-window';
+import { parseLocalTime } from '@/lib/routing/schedule';
+
+const at = (date: string, time: string) => parseLocalTime(date, time)!;
+
+describe('parseDepartureWindow', () => {
+  it('defaults to half an hour and rejects values outside the range', () => {
+    assert.equal(parseDepartureWindow(undefined), 30);
+    assert.equal(parseDepartureWindow(0), 0);
+    assert.equal(typeof parseDepartureWindow(721), 'string');
+    assert.equal(typeof parseDepartureWindow('30'), 'string');
+  });
+});
+
+describe('tripDeparture', () => {
+  it('prefers the scheduled departure of arrive-by trips', () => {
+    const row = { travelDate: '2026-10-19', travelTime: '09:00', routeData: null };
+    assert.equal(tripDeparture(row), at('2026-10-19', '09:00'));
+    assert.equal(
+      tripDeparture({ ...row, routeData: [{ schedule: { departure: '2026-10-19T08:15' } }] }),
+      at('2026-10-19', '08:15')
+    );
+  });
+});
+
+describe('windowOverlap', () => {
+  it('credits a fixed time inside a wider window in full', () => {
+    const overlap = windowOverlap(
+      { departure: at('2026-10-19', '08:10'), window: 0 },
+      { departure: at('2026-10-19', '08:00'), window: 30 }
+    );
+    assert.deepEqual(overlap, { minutes: 0, share: 1 });
+  });
+
+  it('shares windows across midnight', () => {
+    const overlap = windowOverlap(
+      { departure: at('2026-10-19', '23:50'), window: 30 },
+      { departure: at('2026-10-20', '00:20'), window: 30 }
+    );
+    assert.deepEqual(overlap, { minutes: 30, share: 0.5 });
+  });
+
+  it('finds nothing between windows that do not meet', () => {
+    const overlap = windowOverlap(
+      { departure: at('2026-10-19', '08:00'), window: 15 },
+      { departure: at('2026-10-19', '09:00'), window: 15 }
+    );
+    assert.deepEqual(overlap, { minutes: 0, share: 0 });
+  });
+});
@@ -0,0 +1,55 @@
+import { parseLocalTime } from '@/lib/routing/schedule';
+
+// How flexible a departure is, in minutes either side of the planned time
+export const DEFAULT_DEPARTURE_WINDOW = 30;
+export const MAX_DEPARTURE_WINDOW = 12 * 60;
+
+// Returns an error message when invalid
+export function parseDepartureWindow(value: unknown): number | string {
+  if (value === undefined || value === null) return DEFAULT_DEPARTURE_WINDOW;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_DEPARTURE_WINDOW) {
+    return `departureWindow must be a whole number of minutes from 0 to ${MAX_DEPARTURE_WINDOW}`;
+  }
+  return value;
+}
+
+// Stored trip columns that fix when a trip leaves
+interface DepartureRow {
+  travelDate: string;
+  travelTime: string;
+  routeData: unknown;
+}
+
+// When a trip leaves, in local seconds (see schedule). Arrive-by trips leave at
+// their scheduled departure; without a schedule the requested time stands in.
+export function tripDeparture(row: DepartureRow): number | null {
+  const schedule = Array.isArray(row.routeData)
+    ? (row.routeData[0] as { schedule?: { departure?: unknown } | null } | undefined)?.schedule
+    : null;
+  if (typeof schedule?.departure === 'string') {
+    const [date, time] = schedule.departure.split('T');
+    const departure = parseLocalTime(date, time);
+    if (departure !== null) return departure;
+  }
+  return parseLocalTime(row.travelDate, row.travelTime);
+}
+
+export interface DepartureWindow {
+  departure: number;
+  // Minutes either side
+  window: number;
+}
+
+// How much two departure windows share: the overlap in minutes and as a share
+// of the narrower window, so a fixed time inside a wide window counts fully.
+// Times are absolute, so windows crossing midnight or spanning adjacent dates
+// compare like any other.
+export function windowOverlap(a: DepartureWindow, b: DepartureWindow): { minutes: number; share: number } {
+  const start = Math.max(a.departure - a.window * 60, b.departure - b.window * 60);
+  const end = Math.min(a.departure + a.window * 60, b.departure + b.window * 60);
+  if (end < start) return { minutes: 0, share: 0 };
+
+  const minutes = (end - start) / 60;
+  const narrowest = 2 * Math.min(a.window, b.window);
+  return { minutes: Math.round(minutes), share: narrowest > 0 ? minutes / narrowest : 1 };
+}
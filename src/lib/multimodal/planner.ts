@@ -0,0 +1,276 @@
+import type {
+  LatLng,
+  OptimizationMode,
+  RouteInstruction,
+  RoutePreference,
+  RoutePreferences,
+  Router,
+  TimeMode,
+  TransportMode,
+} from '@/lib/routing/types';
+import { calculateDistance } from '@/lib/routing/geo';
+import { parseGtfsTime } from '@/lib/transit/gtfs';
+import { estimateCost, type CostBreakdown, type CostSegment } from '@/lib/cost/model';
+import { estimateEmissions } from '@/lib/emissions/model';
+import {
+  describeTransitLegs,
+  planTransitJourney,
+  transitLegMode,
+  type TransitAccessMode,
+  type TransitItinerary,
+} from '@/lib/transit/planner';
+
+// Single-mode candidates are only offered within these straight-line distances
+const MAX_WALK_ONLY_KM = 3;
+const MAX_CYCLE_ONLY_KM = 15;
+
+// Transit combinations tried; walk-in comes first for each mode so bike and
+// car access can be compared against it
+const TRANSIT_COMBINATIONS: Array<{ mode: 'bus' | 'train'; access: TransitAccessMode }> = [
+  { mode: 'train', access: 'walking' },
+  { mode: 'train', access: 'cycling' },
+  { mode: 'train', access: 'car' },
+  { mode: 'bus', access: 'walking' },
+];
+
+const MODE_LABELS: Record<TransportMode, string> = {
+  car: 'Car',
+  cycling: 'Bike',
+  walking: 'Walk',
+  bus: 'Bus',
+  train: 'Train',
+  flight: 'Flight',
+};
+
+export interface JourneyLeg {
+  mode: TransportMode;
+  from: string;
+  to: string;
+  coordinates: LatLng[];
+  distance: number; // meters
+  duration: number; // seconds
+  tollDistance: number;
+  cost: number;
+  co2Kg: number;
+  instructions: RouteInstruction[];
+  // Seconds after midnight of the travel date; a transit leg departs when its
+  // vehicle does, after any wait included in its duration
+  departureTime: number;
+  arrivalTime: number;
+  // Preferences the router applied, for road-routed legs
+  appliedPreferences?: RoutePreference[];
+}
+
+export interface MultimodalItinerary {
+  // e.g. "Bike + Train"
+  label: string;
+  legs: JourneyLeg[];
+  distance: number;
+  duration: number;
+  cost: number;
+  costBreakdown: CostBreakdown;
+  co2Kg: number;
+  // Seconds after midnight of the travel date
+  departureTime: number;
+  arrivalTime: number;
+}
+
+interface MultimodalRequest {
+  origin: LatLng;
+  destination: LatLng;
+  travelDate: string; // YYYY-MM-DD
+  travelTime: string; // HH:MM
+  optimizationMode: OptimizationMode;
+  fuelEfficiency?: number;
+  // Whether travelTime is the departure (default) or the latest arrival
+  timeMode?: TimeMode;
+  preferences?: RoutePreferences;
+}
+
+type LegInput = Omit<JourneyLeg, 'cost' | 'co2Kg'>;
+
+// Price each leg on its own and the journey as a whole
+function buildItinerary(legs: LegInput[], departureTime: number, fuelEfficiency?: number): MultimodalItinerary {
+  const origin = legs[0]?.coordinates[0] || null;
+  const segment = (leg: LegInput): CostSegment => ({
+    mode: leg.mode,
+    distance: leg.distance,
+    tollDistance: leg.tollDistance,
+  });
+
+  const pricedLegs = legs.map((leg) => ({
+    ...leg,
+    cost: estimateCost([segment(leg)], { origin: leg.coordinates[0] || origin, fuelEfficiency }).total,
+    co2Kg: estimateEmissions([segment(leg)]),
+  }));
+  const costBreakdown = estimateCost(legs.map(segment), { origin, fuelEfficiency });
+
+  // Walking to and from stops is implied, so it only names walk-only journeys
+  const modes = Array.from(new Set(legs.map((leg) => leg.mode)));
+  const named = modes.length > 1 ? modes.filter((mode) => mode !== 'walking') : modes;
+  const duration = legs.reduce((sum, leg) => sum + leg.duration, 0);
+
+  return {
+    label: named.map((mode) => MODE_LABELS[mode]).join(' + '),
+    legs: pricedLegs,
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration,
+    cost: costBreakdown.total,
+    costBreakdown,
+    co2Kg: estimateEmissions(legs.map(segment)),
+    departureTime,
+    arrivalTime: departureTime + duration,
+  };
+}
+
+// Door-to-door leg in one mode, leaving at the requested time or early
+// enough to arrive by it
+async function directLeg(router: Router, request: MultimodalRequest, mode: TransportMode): Promise<LegInput | null> {
+  const preferences = request.preferences || {};
+  const route = await router.route([request.origin, request.destination], mode, { preferences });
+  const requested = parseGtfsTime(request.travelTime);
+  if (!route || requested === null) return null;
+  if (mode === 'walking' && preferences.maxWalkingDistance !== undefined && route.distance > preferences.maxWalkingDistance) {
+    return null;
+  }
+  const departureTime = request.timeMode === 'arrive_by' ? requested - route.duration : requested;
+  return {
+    mode,
+    from: 'Origin',
+    to: 'Destination',
+    coordinates: route.coordinates,
+    distance: route.distance,
+    duration: route.duration,
+    tollDistance: route.tollDistance,
+    instructions: route.instructions,
+    departureTime,
+    arrivalTime: departureTime + route.duration,
+    appliedPreferences: route.appliedPreferences,
+  };
+}
+
+// Timetable legs become journey legs. Bike and car legs to the first stop are
+// re-routed on the road network for a realistic line; timings stay those the
+// planner used against the timetable.
+async function transitLegs(
+  router: Router,
+  itinerary: TransitItinerary,
+  mode: 'bus' | 'train',
+  preferences: RoutePreferences = {}
+): Promise<LegInput[]> {
+  const instructions = describeTransitLegs(itinerary);
+  let instructionIndex = 0;
+
+  const legs: LegInput[] = [];
+  for (const leg of itinerary.legs) {
+    const legMode = transitLegMode(leg, mode);
+    const count = leg.type === 'transit' ? 2 : 1;
+    const legInstructions = instructions.slice(instructionIndex, instructionIndex + count);
+    instructionIndex += count;
+
+    let coordinates = leg.coordinates;
+    let distance = leg.distance;
+    let tollDistance = 0;
+    let appliedPreferences: RoutePreference[] | undefined;
+    if (legMode === 'cycling' || legMode === 'car') {
+      const route = await router.route([leg.from.coordinates, leg.to.coordinates], legMode, { preferences });
+      if (route) {
+        coordinates = route.coordinates;
+        distance = route.distance;
+        tollDistance = route.tollDistance;
+        appliedPreferences = route.appliedPreferences;
+      }
+    }
+
+    legs.push({
+      mode: legMode,
+      from: leg.from.name,
+      to: leg.to.name,
+      coordinates,
+      distance,
+      duration: leg.arrivalTime - leg.departureTime + (leg.transferTime ?? 0),
+      tollDistance,
+      instructions: legInstructions,
+      departureTime: leg.departureTime,
+      arrivalTime: leg.arrivalTime,
+      appliedPreferences,
+    });
+  }
+  return legs;
+}
+
+function rankMetric(itinerary: MultimodalItinerary, optimizationMode: OptimizationMode): number {
+  switch (optimizationMode) {
+    case 'shortest':
+      return itinerary.distance;
+    case 'cheapest':
+      return itinerary.cost;
+    case 'fastest':
+    default:
+      return itinerary.duration;
+  }
+}
+
+// Plan every sensible combination of walking, cycling, driving and public
+// transit between two points, ranked by the optimization mode (best first).
+// Returns an empty list when nothing connects the two points.
+export async function planMultimodalJourney(
+  request: MultimodalRequest,
+  router: Router
+): Promise<MultimodalItinerary[]> {
+  const straightKm = calculateDistance(request.origin, request.destination);
+  const candidates: MultimodalItinerary[] = [];
+
+  const directModes: TransportMode[] = ['car'];
+  if (straightKm <= MAX_CYCLE_ONLY_KM) directModes.unshift('cycling');
+  if (straightKm <= MAX_WALK_ONLY_KM) directModes.unshift('walking');
+
+  for (const mode of directModes) {
+    const leg = await directLeg(router, request, mode);
+    if (leg) candidates.push(buildItinerary([leg], leg.departureTime, request.fuelEfficiency));
+  }
+
+  // Walk-in itinerary per transit mode; biking or driving to a stop is only
+  // worth offering when it beats walking there: arriving sooner, or for
+  // arrive-by trips, leaving later
+  const walkIns = new Map<string, TransitItinerary>();
+  const beats = (itinerary: TransitItinerary, walkIn: TransitItinerary) =>
+    request.timeMode === 'arrive_by'
+      ? itinerary.departureTime > walkIn.departureTime
+      : itinerary.arrivalTime < walkIn.arrivalTime;
+
+  for (const { mode, access } of TRANSIT_COMBINATIONS) {
+    const itinerary = await planTransitJourney({
+      origin: request.origin,
+      destination: request.destination,
+      mode,
+      travelDate: request.travelDate,
+      travelTime: request.travelTime,
+      accessMode: access,
+      timeMode: request.timeMode,
+      maxWalkingDistance: request.preferences?.maxWalkingDistance,
+    });
+    if (!itinerary || !itinerary.legs.some((leg) => leg.type === 'transit')) continue;
+
+    const walkIn = walkIns.get(mode);
+    if (access === 'walking') {
+      walkIns.set(mode, itinerary);
+    } else if (walkIn && !beats(itinerary, walkIn)) {
+      continue;
+    }
+
+    const legs = await transitLegs(router, itinerary, mode, request.preferences);
+    candidates.push(buildItinerary(legs, itinerary.departureTime, request.fuelEfficiency));
+  }
+
+  return candidates.sort(
+    (a, b) =>
+      rankMetric(a, request.optimizationMode) - rankMetric(b, request.optimizationMode) ||
+      a.duration - b.duration
+  );
+}
+
+// Full journey geometry, leg after leg
+export function multimodalGeometry(itinerary: MultimodalItinerary): LatLng[] {
+  return itinerary.legs.flatMap((leg, index) => (index === 0 ? leg.coordinates : leg.coordinates.slice(1)));
+}
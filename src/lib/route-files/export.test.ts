@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportRoute, type RouteExport } from '@/lib/route-files/export';
+import { parseTrackFile } from '@/lib/route-files/import';
+
+const route: RouteExport = {
+  name: 'Tokyo → Honolulu <flight>',
+  geometry: [[35.55, 139.78], [40, 190], [21.32, 202.08]],
+  waypoints: [
+    { name: 'HND', coordinates: [35.55, 139.78], type: 'start' },
+    { name: 'HNL', coordinates: [21.32, 202.08], type: 'destination' },
+  ],
+  instructions: [],
+};
+
+const lonLats = (geoJson: string) => {
+  const collection = JSON.parse(geoJson);
+  return collection.features.flatMap((feature: any) =>
+    feature.geometry.type === 'Point' ? [feature.geometry.coordinates] : feature.geometry.coordinates
+  ) as number[][];
+};
+
+describe('exportRoute', () => {
+  it('writes longitudes within [-180, 180]', () => {
+    for (const [lon] of lonLats(exportRoute(route, 'geojson').body)) {
+      assert.ok(lon >= -180 && lon <= 180, `longitude ${lon}`);
+    }
+    assert.match(exportRoute(route, 'kml').body, /-157\.920000,21\.320000,0/);
+  });
+
+  it('writes GPX that the track import reads back', () => {
+    const { body, contentType } = exportRoute(route, 'gpx');
+    assert.equal(contentType, 'application/gpx+xml');
+    assert.match(body, /Tokyo → Honolulu &lt;flight&gt;/);
+
+    const track = parseTrackFile(body, 'flight.gpx');
+    assert.ok(typeof track !== 'string');
+    assert.deepEqual(track.geometry, [[35.55, 139.78], [40, -170], [21.32, -157.92]]);
+  });
+
+  it('places instructions along the exported line', () => {
+    const { body } = exportRoute(
+      {
+        name: 'Walk',
+        geometry: [[0, 0], [0, 0.01], [0, 0.02]],
+        waypoints: [],
+        instructions: [
+          { distance: 1000, duration: 720, instruction: 'Head east', name: 'A', type: 'depart' },
+          { distance: 1000, duration: 720, instruction: 'Continue', name: 'B', type: 'continue' },
+          { distance: 0, duration: 0, instruction: 'Arrive', name: 'B', type: 'arrive' },
+        ],
+      },
+      'geojson'
+    );
+    const steps = JSON.parse(body).features.filter((feature: any) => feature.properties.kind === 'instruction');
+    assert.deepEqual(
+      steps.map((step: any) => step.geometry.coordinates.map((value: number) => Number(value.toFixed(6)))),
+      [[0, 0], [0.01, 0], [0.02, 0]]
+    );
+  });
+});
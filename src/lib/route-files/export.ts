@@ -0,0 +1,183 @@
+import type { LatLng, RouteInstruction } from '@/lib/routing/types';
+import { normalizeLongitude } from '@/lib/routing/geo';
+import { pointAlongRoute, prepareNavigationRoute } from '@/lib/routing/navigation';
+
+export const EXPORT_FORMATS = ['gpx', 'kml', 'geojson'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CREATOR = 'Travel Companion';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+export interface ExportWaypoint {
+  name: string;
+  coordinates: LatLng;
+  type: string; // e.g. 'start', 'pickup', 'destination'
+}
+
+export interface RouteExport {
+  name: string;
+  description?: string;
+  geometry: LatLng[];
+  waypoints: ExportWaypoint[];
+  instructions: RouteInstruction[];
+}
+
+// An instruction pinned to where it starts along the route
+interface PlacedInstruction extends RouteInstruction {
+  coordinates: LatLng;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Each instruction marked where navigation starts announcing it
+function placeInstructions(geometry: LatLng[], instructions: RouteInstruction[]): PlacedInstruction[] {
+  if (geometry.length === 0) return [];
+
+  const route = prepareNavigationRoute(geometry, instructions);
+  return instructions.map((step, index) => ({
+    ...step,
+    coordinates: pointAlongRoute(route, route.stepStarts[index]),
+  }));
+}
+
+const coordinate = (value: number) => value.toFixed(6);
+
+export function toGpx(route: RouteExport): string {
+  const placed = placeInstructions(route.geometry, route.instructions);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <metadata>',
+    `    <name>${escapeXml(route.name)}</name>`,
+    ...(route.description ? [`    <desc>${escapeXml(route.description)}</desc>`] : []),
+    '  </metadata>',
+    ...route.waypoints.flatMap((waypoint) => [
+      `  <wpt lat="${coordinate(waypoint.coordinates[0])}" lon="${coordinate(waypoint.coordinates[1])}">`,
+      `    <name>${escapeXml(waypoint.name)}</name>`,
+      `    <type>${escapeXml(waypoint.type)}</type>`,
+      '  </wpt>',
+    ]),
+  ];
+
+  // Turn-by-turn directions as a route, which navigation devices announce
+  if (placed.length > 0) {
+    lines.push('  <rte>', `    <name>${escapeXml(route.name)}</name>`);
+    for (const step of placed) {
+      lines.push(
+        `    <rtept lat="${coordinate(step.coordinates[0])}" lon="${coordinate(step.coordinates[1])}">`,
+        `      <name>${escapeXml(step.name)}</name>`,
+        `      <desc>${escapeXml(step.instruction)}</desc>`,
+        '    </rtept>'
+      );
+    }
+    lines.push('  </rte>');
+  }
+
+  // The full line as a track, for devices that follow the geometry
+  lines.push('  <trk>', `    <name>${escapeXml(route.name)}</name>`, '    <trkseg>');
+  for (const [lat, lon] of route.geometry) {
+    lines.push(`      <trkpt lat="${coordinate(lat)}" lon="${coordinate(lon)}"/>`);
+  }
+  lines.push('    </trkseg>', '  </trk>', '</gpx>', '');
+  return lines.join('\n');
+}
+
+// KML coordinates are "lon,lat,alt"
+const kmlPoint = ([lat, lon]: LatLng) => `${coordinate(lon)},${coordinate(lat)},0`;
+
+export function toKml(route: RouteExport): string {
+  const placed = placeInstructions(route.geometry, route.instructions);
+  const placemark = (name: string, description: string, point: LatLng) => [
+    '      <Placemark>',
+    `        <name>${escapeXml(name)}</name>`,
+    `        <description>${escapeXml(description)}</description>`,
+    `        <Point><coordinates>${kmlPoint(point)}</coordinates></Point>`,
+    '      </Placemark>',
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(route.name)}</name>`,
+    ...(route.description ? [`    <description>${escapeXml(route.description)}</description>`] : []),
+    '    <Placemark>',
+    `      <name>${escapeXml(route.name)}</name>`,
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${route.geometry.map(kmlPoint).join(' ')}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    '    <Folder>',
+    '      <name>Waypoints</name>',
+    ...route.waypoints.flatMap((waypoint) => placemark(waypoint.name, waypoint.type, waypoint.coordinates)),
+    '    </Folder>',
+    '    <Folder>',
+    '      <name>Directions</name>',
+    ...placed.flatMap((step, index) => placemark(`${index + 1}. ${step.name}`, step.instruction, step.coordinates)),
+    '    </Folder>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+export function toGeoJson(route: RouteExport): string {
+  const placed = placeInstructions(route.geometry, route.instructions);
+  const lonLat = ([lat, lon]: LatLng) => [lon, lat];
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    properties: { name: route.name, description: route.description ?? null },
+    features: [
+      {
+        type: 'Feature',
+        properties: { kind: 'route', name: route.name },
+        geometry: { type: 'LineString', coordinates: route.geometry.map(lonLat) },
+      },
+      ...route.waypoints.map((waypoint) => ({
+        type: 'Feature',
+        properties: { kind: 'waypoint', name: waypoint.name, type: waypoint.type },
+        geometry: { type: 'Point', coordinates: lonLat(waypoint.coordinates) },
+      })),
+      ...placed.map((step, index) => ({
+        type: 'Feature',
+        properties: {
+          kind: 'instruction',
+          step: index + 1,
+          instruction: step.instruction,
+          name: step.name,
+          type: step.type,
+          distance: step.distance,
+          duration: step.duration,
+        },
+        geometry: { type: 'Point', coordinates: lonLat(step.coordinates) },
+      })),
+    ],
+  }, null, 2);
+}
+
+const normalized = ([lat, lon]: LatLng): LatLng => [lat, normalizeLongitude(lon)];
+
+// Every format wants longitudes in [-180, 180], whatever the route was drawn with
+export function exportRoute(route: RouteExport, format: ExportFormat): { body: string; contentType: string } {
+  route = {
+    ...route,
+    geometry: route.geometry.map(normalized),
+    waypoints: route.waypoints.map((waypoint) => ({ ...waypoint, coordinates: normalized(waypoint.coordinates) })),
+  };
+  const body = format === 'gpx' ? toGpx(route) : format === 'kml' ? toKml(route) : toGeoJson(route);
+  return { body, contentType: CONTENT_TYPES[format] };
+}
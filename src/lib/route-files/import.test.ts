@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTrackFile, trackDistance, trackDuration } from '@/lib/route-files/import';
+
+const GPX = `<?xml version="1.0"?>
+<gpx version="1.1"><trk><name>Canal &amp; dyke</name><trkseg>
+  <trkpt lat="52.0" lon="4.0"><time>2026-10-19T08:00:00Z</time></trkpt>
+  <trkpt lat="52.0" lon="4.01"/>
+  <trkpt lat="99" lon="4.02"/>
+  <trkpt lat='52.01' lon='4.01'><time>2026-10-19T08:20:00Z</time></trkpt>
+</trkseg></trk></gpx>`;
+
+describe('parseTrackFile', () => {
+  it('reads GPX track points, skipping invalid ones', () => {
+    const track = parseTrackFile(GPX, 'ride.gpx');
+    assert.ok(typeof track !== 'string');
+    assert.equal(track.name, 'Canal & dyke');
+    assert.deepEqual(track.geometry, [[52.0, 4.0], [52.0, 4.01], [52.01, 4.01]]);
+    assert.equal(track.recordedDuration, 1200);
+  });
+
+  it('joins GeoJSON lines in file order and swaps to [lat, lon]', () => {
+    const geoJson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { name: ' Loop ' }, geometry: { type: 'LineString', coordinates: [[4.0, 52.0], [4.01, 52.0]] } },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [5, 53] } },
+        { type: 'Feature', geometry: { type: 'MultiLineString', coordinates: [[[4.01, 52.01]]] } },
+      ],
+    });
+    const track = parseTrackFile(geoJson);
+    assert.ok(typeof track !== 'string');
+    assert.equal(track.name, 'Loop');
+    assert.deepEqual(track.geometry, [[52.0, 4.0], [52.0, 4.01], [52.01, 4.01]]);
+    assert.equal(track.recordedDuration, null);
+  });
+
+  it('explains files it cannot use', () => {
+    assert.match(parseTrackFile('{ not json', 'track.geojson') as string, /not valid JSON/);
+    assert.match(parseTrackFile('<gpx><trkpt lat="1" lon="1"/></gpx>') as string, /at least two points/);
+    assert.match(parseTrackFile('lat,lon\n1,2') as string, /Unsupported file/);
+  });
+});
+
+describe('trackDuration', () => {
+  it('falls back to the average speed of the mode', () => {
+    const track = parseTrackFile(GPX.replace(/<time>[^<]+<\/time>/g, ''), 'ride.gpx');
+    assert.ok(typeof track !== 'string');
+    const distance = trackDistance(track.geometry);
+    assert.ok(Math.abs(distance - 1796) < 5, `distance ${distance}`);
+    assert.ok(trackDuration(track, distance, 'walking') > trackDuration(track, distance, 'cycling'));
+  });
+});
@@ -0,0 +1,140 @@
+import type { LatLng, TransportMode } from '@/lib/routing/types';
+import { calculateDistance, isLatLng } from '@/lib/routing/geo';
+
+// Uploaded files are read whole into memory
+export const MAX_TRACK_FILE_BYTES = 5 * 1024 * 1024;
+
+// Modes an imported track can be planned with; a track is a path on the
+// ground, not a timetable or a flight
+export const TRACK_MODES: TransportMode[] = ['car', 'cycling', 'walking'];
+
+// Average speeds in km/h for tracks without timestamps
+const TRACK_SPEEDS: Partial<Record<TransportMode, number>> = {
+  car: 50,
+  cycling: 15,
+  walking: 4.5,
+};
+
+export interface ImportedTrack {
+  name: string | null;
+  geometry: LatLng[];
+  // Seconds between the first and last timestamp, when the file has them
+  recordedDuration: number | null;
+}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function attribute(attributes: string, name: string): number {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  return match ? parseFloat(match[1]) : NaN;
+}
+
+// Track points, or route points for files that only carry a planned route.
+// A regex scan is enough for GPX's flat point lists and needs no XML parser.
+function parseGpx(content: string): ImportedTrack | string {
+  const readPoints = (tag: 'trkpt' | 'rtept') => {
+    const points: Array<{ coordinates: LatLng; time: number }> = [];
+    const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, 'g');
+    for (const match of content.matchAll(pattern)) {
+      const coordinates: LatLng = [attribute(match[1], 'lat'), attribute(match[1], 'lon')];
+      if (!isLatLng(coordinates)) continue;
+      const time = match[2]?.match(/<time>([^<]+)<\/time>/)?.[1];
+      points.push({ coordinates, time: time ? Date.parse(time) : NaN });
+    }
+    return points;
+  };
+
+  let points = readPoints('trkpt');
+  if (points.length < 2) points = readPoints('rtept');
+  if (points.length < 2) return 'The GPX file has no track or route with at least two points';
+
+  const name = content.match(/<name>([\s\S]*?)<\/name>/)?.[1];
+  const first = points[0].time;
+  const last = points[points.length - 1].time;
+
+  return {
+    name: name ? decodeXmlText(name) || null : null,
+    geometry: points.map((point) => point.coordinates),
+    recordedDuration: !isNaN(first) && !isNaN(last) && last > first ? (last - first) / 1000 : null,
+  };
+}
+
+// Line geometry from a GeoJSON object, in file order; points are ignored
+function geoJsonLines(value: any): number[][][] {
+  if (!value || typeof value !== 'object') return [];
+  switch (value.type) {
+    case 'FeatureCollection':
+      return (value.features || []).flatMap(geoJsonLines);
+    case 'Feature':
+      return geoJsonLines(value.geometry);
+    case 'GeometryCollection':
+      return (value.geometries || []).flatMap(geoJsonLines);
+    case 'LineString':
+      return [value.coordinates || []];
+    case 'MultiLineString':
+      return value.coordinates || [];
+    default:
+      return [];
+  }
+}
+
+function parseGeoJson(content: string): ImportedTrack | string {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return 'The GeoJSON file is not valid JSON';
+  }
+
+  // Consecutive lines are joined into one track; GeoJSON is [lon, lat]
+  const geometry = geoJsonLines(data)
+    .flat()
+    .map((position): LatLng => [position?.[1], position?.[0]])
+    .filter(isLatLng);
+  if (geometry.length < 2) return 'The GeoJSON file has no LineString with at least two points';
+
+  const name = data.properties?.name ?? data.features?.[0]?.properties?.name;
+  return {
+    name: typeof name === 'string' && name.trim() ? name.trim() : null,
+    geometry,
+    recordedDuration: null,
+  };
+}
+
+// Parse an uploaded GPX or GeoJSON file; returns an error message when it
+// cannot be used. The format comes from the extension, else the content.
+export function parseTrackFile(content: string, fileName?: string): ImportedTrack | string {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx') return parseGpx(content);
+  if (extension === 'geojson' || extension === 'json') return parseGeoJson(content);
+
+  const start = content.trimStart();
+  if (start.startsWith('<')) return parseGpx(content);
+  if (start.startsWith('{')) return parseGeoJson(content);
+  return 'Unsupported file. Upload a GPX or GeoJSON track';
+}
+
+// Length of the track in meters
+export function trackDistance(geometry: LatLng[]): number {
+  let km = 0;
+  for (let i = 1; i < geometry.length; i++) {
+    km += calculateDistance(geometry[i - 1], geometry[i]);
+  }
+  return km * 1000;
+}
+
+// Recorded time when the file has it, else the distance at the mode's average speed
+export function trackDuration(track: ImportedTrack, distance: number, mode: TransportMode): number {
+  if (track.recordedDuration !== null) return track.recordedDuration;
+  const speed = TRACK_SPEEDS[mode] || TRACK_SPEEDS.car!;
+  return distance / (speed / 3.6);
+}
@@ -0,0 +1,68 @@
+// Routing stack configuration, read from the environment so deployments can
+// point the app at their own OSRM/Valhalla/GraphHopper/Nominatim instances.
+//
+//   ROUTING_PROVIDER     osrm | valhalla | graphhopper | fixture  (default: osrm)
+//   GEOCODING_PROVIDER   nominatim | fixture                      (default: nominatim,
+//                        or fixture when ROUTING_PROVIDER=fixture)
+//   OSRM_URL, VALHALLA_URL, GRAPHHOPPER_URL, GRAPHHOPPER_API_KEY, NOMINATIM_URL
+//   ROUTING_USER_AGENT   sent with every upstream request
+//   GEOCODING_MIN_INTERVAL_MS  spacing between Nominatim requests (default: 1000,
+//                        the public instance's 1 req/s policy). Type-ahead and
+//                        map-click lookups are spaced the same in a queue of
+//                        their own; the public instance does not allow
+//                        autocomplete, so deployments need their own Nominatim.
+//   GEOCODE_CACHE_TTL_DAYS     how long cached geocodes stay valid (default: 30)
+
+export type RouterProviderName = 'osrm' | 'valhalla' | 'graphhopper' | 'fixture';
+export type GeocoderProviderName = 'nominatim' | 'fixture';
+
+export interface RoutingConfig {
+  router: RouterProviderName;
+  geocoder: GeocoderProviderName;
+  osrmUrl: string;
+  valhallaUrl: string;
+  graphhopperUrl: string;
+  graphhopperApiKey: string | null;
+  nominatimUrl: string;
+  userAgent: string;
+  geocodingMinIntervalMs: number;
+  geocodeCacheTtlMs: number;
+}
+
+const ROUTER_PROVIDERS: RouterProviderName[] = ['osrm', 'valhalla', 'graphhopper', 'fixture'];
+const GEOCODER_PROVIDERS: GeocoderProviderName[] = ['nominatim', 'fixture'];
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number(value) : NaN;
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+export function loadRoutingConfig(env: NodeJS.ProcessEnv = process.env): RoutingConfig {
+  const router = (env.ROUTING_PROVIDER || 'osrm').trim().toLowerCase() as RouterProviderName;
+  if (!ROUTER_PROVIDERS.includes(router)) {
+    throw new Error(`Unknown ROUTING_PROVIDER "${env.ROUTING_PROVIDER}"`);
+  }
+
+  const defaultGeocoder: GeocoderProviderName = router === 'fixture' ? 'fixture' : 'nominatim';
+  const geocoder = (env.GEOCODING_PROVIDER || defaultGeocoder).trim().toLowerCase() as GeocoderProviderName;
+  if (!GEOCODER_PROVIDERS.includes(geocoder)) {
+    throw new Error(`Unknown GEOCODING_PROVIDER "${env.GEOCODING_PROVIDER}"`);
+  }
+
+  return {
+    router,
+    geocoder,
+    osrmUrl: stripTrailingSlash(env.OSRM_URL || 'https://router.project-osrm.org'),
+    valhallaUrl: stripTrailingSlash(env.VALHALLA_URL || 'http://localhost:8002'),
+    graphhopperUrl: stripTrailingSlash(env.GRAPHHOPPER_URL || 'https://graphhopper.com/api/1'),
+    graphhopperApiKey: env.GRAPHHOPPER_API_KEY || null,
+    nominatimUrl: stripTrailingSlash(env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org'),
+    userAgent: env.ROUTING_USER_AGENT || 'TravelCompanionApp/1.0',
+    geocodingMinIntervalMs: parseNumber(env.GEOCODING_MIN_INTERVAL_MS, 1000),
+    geocodeCacheTtlMs: parseNumber(env.GEOCODE_CACHE_TTL_DAYS, 30) * 24 * 60 * 60 * 1000,
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeLongitude, projectOntoSegment, unwrapLongitudes } from '@/lib/routing/geo';
+
+describe('normalizeLongitude', () => {
+  it('wraps longitudes into [-180, 180]', () => {
+    assert.equal(normalizeLongitude(-237.62), 122.38);
+    assert.equal(normalizeLongitude(190), -170);
+    assert.equal(normalizeLongitude(180), 180);
+    assert.equal(normalizeLongitude(-45), -45);
+  });
+});
+
+describe('unwrapLongitudes', () => {
+  it('continues across the antimeridian without a jump', () => {
+    assert.deepEqual(unwrapLongitudes([[50, 170], [52, 179], [53, -175]]), [[50, 170], [52, 179], [53, 185]]);
+  });
+
+  it('continues from a reference longitude', () => {
+    assert.deepEqual(unwrapLongitudes([[37, -122]], 200), [[37, 238]]);
+  });
+});
+
+describe('projectOntoSegment', () => {
+  it('finds the nearest point between the ends', () => {
+    const { t, distance } = projectOntoSegment([0.001, 0.5], [0, 0], [0, 1]);
+    assert.ok(Math.abs(t - 0.5) < 1e-6);
+    assert.ok(Math.abs(distance - 111.2) < 0.5);
+  });
+
+  it('clamps to the nearer end', () => {
+    assert.equal(projectOntoSegment([0, -1], [0, 0], [0, 1]).t, 0);
+    assert.equal(projectOntoSegment([0, 2], [0, 0], [0, 1]).t, 1);
+  });
+});
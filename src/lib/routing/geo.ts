@@ -0,0 +1,100 @@
+import type { LatLng } from '@/lib/routing/types';
+
+const EARTH_RADIUS_KM = 6371;
+
+export function toRad(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+// Calculate distance in km between two points (Haversine formula)
+export function calculateDistance(start: LatLng, end: LatLng): number {
+  const dLat = toRad(end[0] - start[0]);
+  const dLon = toRad(end[1] - start[1]);
+  const lat1 = toRad(start[0]);
+  const lat2 = toRad(end[0]);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+// Point `distanceKm` from `start` along `bearing` (radians clockwise from north)
+export function destinationPoint(start: LatLng, bearing: number, distanceKm: number): LatLng {
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const lat1 = toRad(start[0]);
+  const lon1 = toRad(start[1]);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+  );
+  const lon2 =
+    lon1 +
+    Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+  return [(lat2 * 180) / Math.PI, (((lon2 * 180) / Math.PI + 540) % 360) - 180];
+}
+
+// Nearest point of one segment to a point: how far along the segment it lies
+// (0–1) and its distance in meters, in a flat projection around the point;
+// accurate to well under a meter over segment lengths
+export function projectOntoSegment(point: LatLng, start: LatLng, end: LatLng): { t: number; distance: number } {
+  const metersPerDegree = (EARTH_RADIUS_KM * 1000 * Math.PI) / 180;
+  const cosLat = Math.cos(toRad(point[0]));
+  const toXY = ([lat, lon]: LatLng) => [(lon - point[1]) * cosLat * metersPerDegree, (lat - point[0]) * metersPerDegree];
+
+  const [ax, ay] = toXY(start);
+  const [bx, by] = toXY(end);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+  return { t, distance: Math.hypot(ax + dx * t, ay + dy * t) };
+}
+
+// Longitude in [-180, 180]
+export function normalizeLongitude(lon: number): number {
+  if (lon >= -180 && lon <= 180) return lon;
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+// For drawing only: shift points by whole turns so consecutive points never
+// jump by more than 180°, which keeps Leaflet from drawing a line across the
+// whole map where a line crosses the antimeridian. Starts from `reference`,
+// e.g. where the previous line ended. Stored geometry stays normalized.
+export function unwrapLongitudes(points: LatLng[], reference = points[0]?.[1]): LatLng[] {
+  let previous = reference;
+  return points.map(([lat, lon]): LatLng => {
+    let unwrapped = lon;
+    while (unwrapped - previous > 180) unwrapped -= 360;
+    while (unwrapped - previous < -180) unwrapped += 360;
+    previous = unwrapped;
+    return [lat, unwrapped];
+  });
+}
+
+// Parse a "lat,lon" string as stored in trips.source_coordinates
+export function parseLatLng(value: string | null | undefined): LatLng | null {
+  if (!value) return null;
+  const [lat, lon] = value.split(',').map(parseFloat);
+  if (isNaN(lat) || isNaN(lon)) return null;
+  return [lat, lon];
+}
+
+export function formatLatLng(point: LatLng): string {
+  return `${point[0]},${point[1]}`;
+}
+
+// A [lat, lon] pair supplied by a client, e.g. a picked suggestion or map click
+export function isLatLng(value: unknown): value is LatLng {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    Math.abs(value[0]) <= 90 &&
+    Math.abs(value[1]) <= 180
+  );
+}
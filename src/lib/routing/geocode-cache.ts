@@ -0,0 +1,120 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { geocodeCache } from '@/db/schema';
+import type { GeocodeResult, Geocoder } from '@/lib/routing/types';
+import { DroppedRequestError, type RequestScheduler } from '@/lib/routing/scheduler';
+
+interface CachedGeocoderOptions {
+  // Trip geocoding, which must not be lost
+  scheduler: RequestScheduler;
+  // Type-ahead and lookups with a signal, which may be dropped
+  interactiveScheduler: RequestScheduler;
+  ttlMs: number;
+}
+
+// Normalize a free-text query so "New York, NY" and " new york,  ny" share a cache entry
+export function normalizeGeocodeQuery(query: string): string {
+  return query
+    .trim()
+    .toLowerCase()
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s+/g, ' ');
+}
+
+async function readCache(query: string, ttlMs: number): Promise<GeocodeResult | null> {
+  const rows = await db.select()
+    .from(geocodeCache)
+    .where(eq(geocodeCache.query, query))
+    .limit(1);
+
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  if (Date.now() - new Date(row.fetchedAt).getTime() > ttlMs) return null;
+
+  return {
+    coordinates: [row.lat, row.lon],
+    displayName: row.displayName,
+    boundingBox: row.boundingBox as GeocodeResult['boundingBox'],
+  };
+}
+
+async function writeCache(query: string, provider: string, result: GeocodeResult): Promise<void> {
+  const values = {
+    provider,
+    lat: result.coordinates[0],
+    lon: result.coordinates[1],
+    displayName: result.displayName,
+    boundingBox: result.boundingBox,
+    fetchedAt: new Date().toISOString(),
+  };
+
+  await db.insert(geocodeCache)
+    .values({ query, ...values })
+    .onConflictDoUpdate({ target: geocodeCache.query, set: values });
+}
+
+// A dropped lookup reads as finding nothing
+async function unlessDropped<T>(request: Promise<T>, nothing: T): Promise<T> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof DroppedRequestError) return nothing;
+    throw error;
+  }
+}
+
+// Wrap a geocoder with the persistent cache and shared rate-limited request
+// queues. Interactive lookups get their own queue so a user typing cannot
+// hold up the geocoding of trips being created.
+export function createCachedGeocoder(inner: Geocoder, { scheduler, interactiveScheduler, ttlMs }: CachedGeocoderOptions): Geocoder {
+  return {
+    name: inner.name,
+
+    async geocode(query: string) {
+      const key = normalizeGeocodeQuery(query);
+      if (!key) return null;
+
+      try {
+        const cached = await readCache(key, ttlMs);
+        if (cached) return cached;
+      } catch (error) {
+        console.error('Geocode cache read error:', error);
+      }
+
+      return scheduler.run(key, async () => {
+        const result = await inner.geocode(query);
+        if (result) {
+          try {
+            await writeCache(key, inner.name, result);
+          } catch (error) {
+            console.error('Geocode cache write error:', error);
+          }
+        }
+        return result;
+      });
+    },
+
+    // Type-ahead results change with every keystroke, so only the request
+    // queue is shared; nothing is persisted
+    async suggest(query, options = {}) {
+      const key = normalizeGeocodeQuery(query);
+      if (!key) return [];
+      const near = options.near ? options.near.map((value) => value.toFixed(2)).join(',') : '';
+      return unlessDropped(
+        interactiveScheduler.run(
+          `suggest:${key}:${near}:${options.limit ?? ''}`,
+          () => inner.suggest(query, options),
+          options.signal
+        ),
+        []
+      );
+    },
+
+    async reverse(point, options = {}) {
+      const key = `reverse:${point[0].toFixed(5)},${point[1].toFixed(5)}`;
+      if (!options.signal) return scheduler.run(key, () => inner.reverse(point));
+      return unlessDropped(interactiveScheduler.run(key, () => inner.reverse(point), options.signal), null);
+    },
+  };
+}
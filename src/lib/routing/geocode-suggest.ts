@@ -0,0 +1,27 @@
+import type { GeocodeSuggestion, LatLng } from '@/lib/routing/types';
+import { calculateDistance } from '@/lib/routing/geo';
+
+// Candidates near the bias point get up to REGION_WEIGHT extra score, fading
+// over roughly REGION_SCALE_KM, so a nearby "Springfield" beats a famous one
+// far away while a strong match elsewhere still shows up
+const REGION_SCALE_KM = 150;
+const REGION_WEIGHT = 0.5;
+
+// Order candidates best first and drop duplicates of the same place
+export function rankSuggestions(suggestions: GeocodeSuggestion[], near?: LatLng | null): GeocodeSuggestion[] {
+  const score = (suggestion: GeocodeSuggestion) =>
+    suggestion.importance +
+    (near ? REGION_WEIGHT * Math.exp(-calculateDistance(near, suggestion.coordinates) / REGION_SCALE_KM) : 0);
+
+  const seen = new Set<string>();
+  return suggestions
+    .map((suggestion) => ({ suggestion, score: score(suggestion) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ suggestion }) => suggestion)
+    .filter((suggestion) => {
+      const key = suggestion.displayName.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,70 @@
+import type { Geocoder, Router, RoutingProvider } from '@/lib/routing/types';
+import { loadRoutingConfig, type RoutingConfig } from '@/lib/routing/config';
+import { createOSRMRouter } from '@/lib/routing/providers/osrm';
+import { createValhallaRouter } from '@/lib/routing/providers/valhalla';
+import { createGraphHopperRouter } from '@/lib/routing/providers/graphhopper';
+import { createNominatimGeocoder } from '@/lib/routing/providers/nominatim';
+import { createFixtureGeocoder, createFixtureRouter } from '@/lib/routing/providers/fixture';
+import { createCachedGeocoder } from '@/lib/routing/geocode-cache';
+import { getSharedScheduler } from '@/lib/routing/scheduler';
+
+export type * from '@/lib/routing/types';
+
+// Type-ahead lookups waiting at once; older keystrokes give way to newer ones
+const INTERACTIVE_GEOCODE_QUEUE = 5;
+
+function createRouter(config: RoutingConfig): Router {
+  switch (config.router) {
+    case 'valhalla':
+      return createValhallaRouter({ baseUrl: config.valhallaUrl, userAgent: config.userAgent });
+    case 'graphhopper':
+      return createGraphHopperRouter({
+        baseUrl: config.graphhopperUrl,
+        apiKey: config.graphhopperApiKey,
+        userAgent: config.userAgent,
+      });
+    case 'fixture':
+      return createFixtureRouter();
+    case 'osrm':
+    default:
+      return createOSRMRouter({ baseUrl: config.osrmUrl, userAgent: config.userAgent });
+  }
+}
+
+function createGeocoder(config: RoutingConfig): Geocoder {
+  switch (config.geocoder) {
+    case 'fixture':
+      return createFixtureGeocoder();
+    case 'nominatim':
+    default:
+      return createCachedGeocoder(
+        createNominatimGeocoder({ baseUrl: config.nominatimUrl, userAgent: config.userAgent }),
+        {
+          scheduler: getSharedScheduler(`nominatim:${config.nominatimUrl}`, config.geocodingMinIntervalMs),
+          interactiveScheduler: getSharedScheduler(
+            `nominatim-interactive:${config.nominatimUrl}`,
+            config.geocodingMinIntervalMs,
+            { maxQueued: INTERACTIVE_GEOCODE_QUEUE }
+          ),
+          ttlMs: config.geocodeCacheTtlMs,
+        }
+      );
+  }
+}
+
+export function createRoutingProvider(config: RoutingConfig = loadRoutingConfig()): RoutingProvider {
+  return {
+    geocoder: createGeocoder(config),
+    router: createRouter(config),
+  };
+}
+
+let provider: RoutingProvider | null = null;
+
+// Process-wide provider, built lazily from the environment
+export function getRoutingProvider(): RoutingProvider {
+  if (!provider) {
+    provider = createRoutingProvider();
+  }
+  return provider;
+}
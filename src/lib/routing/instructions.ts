@@ -0,0 +1,403 @@
+import type { Maneuver, RouteInstruction } from '@/lib/routing/types';
+
+export const INSTRUCTION_LOCALES = ['en', 'es', 'fr', 'de', 'nl'] as const;
+export type InstructionLocale = (typeof INSTRUCTION_LOCALES)[number];
+
+export const DISTANCE_UNITS = ['metric', 'imperial'] as const;
+export type DistanceUnits = (typeof DISTANCE_UNITS)[number];
+
+// How a user wants directions read to them; kept in the profile's travel preferences
+export interface InstructionSettings {
+  language: InstructionLocale;
+  distanceUnits: DistanceUnits;
+}
+
+// Regions that sign road distances in miles
+const IMPERIAL_REGIONS = ['US', 'GB', 'LR', 'MM'];
+
+type Side = 'left' | 'right';
+
+interface Phrases {
+  // The language's own name, for pickers
+  label: string;
+  // Travel directions from north, clockwise in 45° steps
+  directions: string[];
+  theRoad: string;
+  theService: string;
+  // Turn phrases keyed by maneuver modifier; '' is the fallback
+  turns: Record<string, string>;
+  sides: Record<Side, string>;
+  busLine(name: string): string;
+  ordinal(exit: number): string;
+  depart(direction: string, road: string): string;
+  arrive: string;
+  turn(turn: string, road: string): string;
+  continueOn(road: string): string;
+  merge(road: string): string;
+  onRamp(road: string): string;
+  offRamp(road: string): string;
+  fork(side: string | null, road: string): string;
+  endOfRoad(side: string | null, road: string): string;
+  roundabout(exit: string, road: string): string;
+  walk(to: string): string;
+  cycle(to: string): string;
+  drive(to: string): string;
+  travel(to: string): string;
+  board(line: string, headsign: string | undefined, from: string): string;
+  alight(to: string, stops: number): string;
+  fly(from: string, to: string): string;
+  // Spoken ahead of a maneuver, e.g. "In 300 m, turn left onto Main Street"
+  upcoming(distance: string, instruction: string): string;
+}
+
+// Lowercase the first letter so an instruction can follow a lead-in
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1);
+
+const PHRASES: Record<InstructionLocale, Phrases> = {
+  en: {
+    label: 'English',
+    directions: ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'],
+    theRoad: 'the road',
+    theService: 'the service',
+    turns: {
+      left: 'Turn left',
+      right: 'Turn right',
+      'sharp left': 'Sharp left',
+      'sharp right': 'Sharp right',
+      'slight left': 'Slight left',
+      'slight right': 'Slight right',
+      straight: 'Go straight',
+      uturn: 'Make a U-turn',
+      '': 'Turn',
+    },
+    sides: { left: 'left', right: 'right' },
+    busLine: (name) => `bus ${name}`,
+    ordinal: (exit) => String(exit),
+    depart: (direction, road) => `Head ${direction} on ${road}`,
+    arrive: 'Arrive at your destination',
+    turn: (turn, road) => `${turn} onto ${road}`,
+    continueOn: (road) => `Continue on ${road}`,
+    merge: (road) => `Merge onto ${road}`,
+    onRamp: (road) => `Take the ramp onto ${road}`,
+    offRamp: (road) => `Take the exit onto ${road}`,
+    fork: (side, road) => (side ? `Keep ${side} at the fork onto ${road}` : `Continue at the fork onto ${road}`),
+    endOfRoad: (side, road) =>
+      side ? `At the end of the road, turn ${side} onto ${road}` : `At the end of the road, continue onto ${road}`,
+    roundabout: (exit, road) => `At the roundabout, take exit ${exit} onto ${road}`,
+    walk: (to) => `Walk to ${to}`,
+    cycle: (to) => `Cycle to ${to}`,
+    drive: (to) => `Drive to ${to}`,
+    travel: (to) => `Travel to ${to}`,
+    board: (line, headsign, from) => `Take ${line}${headsign ? ` towards ${headsign}` : ''} from ${from}`,
+    alight: (to, stops) => `Get off at ${to} (${stops} stop${stops === 1 ? '' : 's'})`,
+    fly: (from, to) => `Fly from ${from} to ${to}`,
+    upcoming: (distance, instruction) => `In ${distance}, ${lowerFirst(instruction)}`,
+  },
+  es: {
+    label: 'Español',
+    directions: ['el norte', 'el noreste', 'el este', 'el sureste', 'el sur', 'el suroeste', 'el oeste', 'el noroeste'],
+    theRoad: 'la vía',
+    theService: 'el servicio',
+    turns: {
+      left: 'Gire a la izquierda',
+      right: 'Gire a la derecha',
+      'sharp left': 'Gire bruscamente a la izquierda',
+      'sharp right': 'Gire bruscamente a la derecha',
+      'slight left': 'Gire ligeramente a la izquierda',
+      'slight right': 'Gire ligeramente a la derecha',
+      straight: 'Siga recto',
+      uturn: 'Haga un cambio de sentido',
+      '': 'Gire',
+    },
+    sides: { left: 'a la izquierda', right: 'a la derecha' },
+    busLine: (name) => `el autobús ${name}`,
+    ordinal: (exit) => `${exit}.ª`,
+    depart: (direction, road) => `Diríjase hacia ${direction} por ${road}`,
+    arrive: 'Ha llegado a su destino',
+    turn: (turn, road) => `${turn} en ${road}`,
+    continueOn: (road) => `Continúe por ${road}`,
+    merge: (road) => `Incorpórese a ${road}`,
+    onRamp: (road) => `Tome el acceso a ${road}`,
+    offRamp: (road) => `Tome la salida hacia ${road}`,
+    fork: (side, road) =>
+      side ? `En la bifurcación, manténgase ${side} hacia ${road}` : `En la bifurcación, continúe hacia ${road}`,
+    endOfRoad: (side, road) =>
+      side ? `Al final de la vía, gire ${side} en ${road}` : `Al final de la vía, continúe por ${road}`,
+    roundabout: (exit, road) => `En la rotonda, tome la ${exit} salida hacia ${road}`,
+    walk: (to) => `Camine hasta ${to}`,
+    cycle: (to) => `Vaya en bicicleta hasta ${to}`,
+    drive: (to) => `Conduzca hasta ${to}`,
+    travel: (to) => `Diríjase a ${to}`,
+    board: (line, headsign, from) => `Tome ${line}${headsign ? ` en dirección a ${headsign}` : ''} en ${from}`,
+    alight: (to, stops) => `Bájese en ${to} (${stops} parada${stops === 1 ? '' : 's'})`,
+    fly: (from, to) => `Vuele de ${from} a ${to}`,
+    upcoming: (distance, instruction) => `En ${distance}, ${lowerFirst(instruction)}`,
+  },
+  fr: {
+    label: 'Français',
+    directions: ['le nord', 'le nord-est', "l'est", 'le sud-est', 'le sud', 'le sud-ouest', "l'ouest", 'le nord-ouest'],
+    theRoad: 'la route',
+    theService: 'le service',
+    turns: {
+      left: 'Tournez à gauche',
+      right: 'Tournez à droite',
+      'sharp left': 'Tournez franchement à gauche',
+      'sharp right': 'Tournez franchement à droite',
+      'slight left': 'Tournez légèrement à gauche',
+      'slight right': 'Tournez légèrement à droite',
+      straight: 'Continuez tout droit',
+      uturn: 'Faites demi-tour',
+      '': 'Tournez',
+    },
+    sides: { left: 'à gauche', right: 'à droite' },
+    busLine: (name) => `le bus ${name}`,
+    ordinal: (exit) => (exit === 1 ? '1re' : `${exit}e`),
+    depart: (direction, road) => `Dirigez-vous vers ${direction} sur ${road}`,
+    arrive: 'Vous êtes arrivé à destination',
+    turn: (turn, road) => `${turn} sur ${road}`,
+    continueOn: (road) => `Continuez sur ${road}`,
+    merge: (road) => `Insérez-vous sur ${road}`,
+    onRamp: (road) => `Prenez la bretelle vers ${road}`,
+    offRamp: (road) => `Prenez la sortie vers ${road}`,
+    fork: (side, road) => (side ? `À la bifurcation, restez ${side} vers ${road}` : `À la bifurcation, continuez vers ${road}`),
+    endOfRoad: (side, road) =>
+      side ? `Au bout de la route, tournez ${side} sur ${road}` : `Au bout de la route, continuez sur ${road}`,
+    roundabout: (exit, road) => `Au rond-point, prenez la ${exit} sortie sur ${road}`,
+    walk: (to) => `Marchez jusqu'à ${to}`,
+    cycle: (to) => `Pédalez jusqu'à ${to}`,
+    drive: (to) => `Roulez jusqu'à ${to}`,
+    travel: (to) => `Rendez-vous à ${to}`,
+    board: (line, headsign, from) => `Prenez ${line}${headsign ? ` en direction de ${headsign}` : ''} à ${from}`,
+    alight: (to, stops) => `Descendez à ${to} (${stops} arrêt${stops === 1 ? '' : 's'})`,
+    fly: (from, to) => `Prenez l'avion de ${from} à ${to}`,
+    upcoming: (distance, instruction) => `Dans ${distance}, ${lowerFirst(instruction)}`,
+  },
+  de: {
+    label: 'Deutsch',
+    directions: ['Norden', 'Nordosten', 'Osten', 'Südosten', 'Süden', 'Südwesten', 'Westen', 'Nordwesten'],
+    theRoad: 'die Straße',
+    theService: 'die Verbindung',
+    turns: {
+      left: 'Links abbiegen',
+      right: 'Rechts abbiegen',
+      'sharp left': 'Scharf links abbiegen',
+      'sharp right': 'Scharf rechts abbiegen',
+      'slight left': 'Leicht links abbiegen',
+      'slight right': 'Leicht rechts abbiegen',
+      straight: 'Geradeaus weiter',
+      uturn: 'Wenden',
+      '': 'Abbiegen',
+    },
+    sides: { left: 'links', right: 'rechts' },
+    busLine: (name) => `Bus ${name}`,
+    ordinal: (exit) => `${exit}.`,
+    depart: (direction, road) => `Richtung ${direction} auf ${road} starten`,
+    arrive: 'Sie haben Ihr Ziel erreicht',
+    turn: (turn, road) => `${turn} auf ${road}`,
+    continueOn: (road) => `Weiter auf ${road}`,
+    merge: (road) => `Auf ${road} einfädeln`,
+    onRamp: (road) => `Auffahrt auf ${road} nehmen`,
+    offRamp: (road) => `Ausfahrt auf ${road} nehmen`,
+    fork: (side, road) => (side ? `An der Gabelung ${side} halten auf ${road}` : `An der Gabelung weiter auf ${road}`),
+    endOfRoad: (side, road) =>
+      side ? `Am Ende der Straße ${side} abbiegen auf ${road}` : `Am Ende der Straße weiter auf ${road}`,
+    roundabout: (exit, road) => `Im Kreisverkehr die ${exit} Ausfahrt auf ${road} nehmen`,
+    walk: (to) => `Zu Fuß zu ${to} gehen`,
+    cycle: (to) => `Mit dem Fahrrad zu ${to} fahren`,
+    drive: (to) => `Mit dem Auto zu ${to} fahren`,
+    travel: (to) => `Weiter zu ${to}`,
+    board: (line, headsign, from) => `Ab ${from} ${line}${headsign ? ` Richtung ${headsign}` : ''} nehmen`,
+    alight: (to, stops) => `In ${to} aussteigen (${stops} ${stops === 1 ? 'Halt' : 'Halte'})`,
+    fly: (from, to) => `Flug von ${from} nach ${to}`,
+    // Nouns keep their capital, so the instruction follows a colon
+    upcoming: (distance, instruction) => `In ${distance}: ${instruction}`,
+  },
+  nl: {
+    label: 'Nederlands',
+    directions: [
+      'het noorden',
+      'het noordoosten',
+      'het oosten',
+      'het zuidoosten',
+      'het zuiden',
+      'het zuidwesten',
+      'het westen',
+      'het noordwesten',
+    ],
+    theRoad: 'de weg',
+    theService: 'de verbinding',
+    turns: {
+      left: 'Sla linksaf',
+      right: 'Sla rechtsaf',
+      'sharp left': 'Sla scherp linksaf',
+      'sharp right': 'Sla scherp rechtsaf',
+      'slight left': 'Sla flauw linksaf',
+      'slight right': 'Sla flauw rechtsaf',
+      straight: 'Ga rechtdoor',
+      uturn: 'Keer om',
+      '': 'Sla af',
+    },
+    sides: { left: 'links', right: 'rechts' },
+    busLine: (name) => `bus ${name}`,
+    ordinal: (exit) => `${exit}e`,
+    depart: (direction, road) => `Ga richting ${direction} op ${road}`,
+    arrive: 'U bent aangekomen op uw bestemming',
+    turn: (turn, road) => `${turn} naar ${road}`,
+    continueOn: (road) => `Ga verder op ${road}`,
+    merge: (road) => `Voeg in op ${road}`,
+    onRamp: (road) => `Neem de oprit naar ${road}`,
+    offRamp: (road) => `Neem de afrit naar ${road}`,
+    fork: (side, road) => (side ? `Houd bij de splitsing ${side} aan naar ${road}` : `Ga bij de splitsing verder naar ${road}`),
+    endOfRoad: (side, road) =>
+      side ? `Sla aan het einde van de weg ${side}af naar ${road}` : `Ga aan het einde van de weg verder naar ${road}`,
+    roundabout: (exit, road) => `Neem op de rotonde de ${exit} afslag naar ${road}`,
+    walk: (to) => `Loop naar ${to}`,
+    cycle: (to) => `Fiets naar ${to}`,
+    drive: (to) => `Rijd naar ${to}`,
+    travel: (to) => `Reis naar ${to}`,
+    board: (line, headsign, from) => `Neem ${line}${headsign ? ` richting ${headsign}` : ''} vanaf ${from}`,
+    alight: (to, stops) => `Stap uit bij ${to} (${stops} ${stops === 1 ? 'halte' : 'haltes'})`,
+    fly: (from, to) => `Vlieg van ${from} naar ${to}`,
+    upcoming: (distance, instruction) => `Over ${distance}, ${lowerFirst(instruction)}`,
+  },
+};
+
+export const LOCALE_LABELS = Object.fromEntries(
+  INSTRUCTION_LOCALES.map((locale) => [locale, PHRASES[locale].label])
+) as Record<InstructionLocale, string>;
+
+export function isInstructionLocale(value: unknown): value is InstructionLocale {
+  return INSTRUCTION_LOCALES.includes(value as InstructionLocale);
+}
+
+// Cardinal direction for a bearing in degrees clockwise from north
+export function getDirection(bearing: number, locale: InstructionLocale = 'en'): string {
+  const index = Math.round((((bearing % 360) + 360) % 360) / 45) % 8;
+  return PHRASES[locale].directions[index];
+}
+
+function side(modifier: string | undefined): Side | null {
+  if (modifier?.endsWith('left')) return 'left';
+  if (modifier?.endsWith('right')) return 'right';
+  return null;
+}
+
+// Render a maneuver as one instruction sentence in the given language
+export function renderManeuver(maneuver: Maneuver, locale: InstructionLocale = 'en'): string {
+  const phrases = PHRASES[locale];
+  const road = maneuver.roadName || phrases.theRoad;
+  const place = maneuver.to || road;
+  const sideName = side(maneuver.modifier);
+  const localSide = sideName && phrases.sides[sideName];
+
+  switch (maneuver.type) {
+    case 'depart':
+      return maneuver.bearing !== undefined
+        ? phrases.depart(getDirection(maneuver.bearing, locale), road)
+        : phrases.continueOn(road);
+    case 'arrive':
+      return phrases.arrive;
+    case 'turn':
+      return phrases.turn(phrases.turns[maneuver.modifier || ''] || phrases.turns[''], road);
+    case 'merge':
+      return phrases.merge(road);
+    case 'on ramp':
+      return phrases.onRamp(road);
+    case 'off ramp':
+      return phrases.offRamp(road);
+    case 'fork':
+      return phrases.fork(localSide, road);
+    case 'roundabout':
+    case 'rotary':
+      return phrases.roundabout(phrases.ordinal(maneuver.exit || 1), road);
+    case 'end of road':
+      return phrases.endOfRoad(localSide, road);
+    case 'walk':
+      return phrases.walk(place);
+    case 'cycle':
+      return phrases.cycle(place);
+    case 'drive':
+      return phrases.drive(place);
+    case 'travel':
+      return phrases.travel(place);
+    case 'board': {
+      const line = maneuver.line
+        ? maneuver.vehicle === 'bus' ? phrases.busLine(maneuver.line) : maneuver.line
+        : phrases.theService;
+      return phrases.board(line, maneuver.headsign, maneuver.from || road);
+    }
+    case 'alight':
+      return phrases.alight(place, maneuver.stops ?? 1);
+    case 'flight':
+      return phrases.fly(maneuver.from || '', maneuver.to || '');
+    case 'continue':
+    default:
+      return phrases.continueOn(road);
+  }
+}
+
+// Instruction text in the given language. Routes saved before maneuvers were
+// recorded only have the English text.
+export function renderInstruction(
+  instruction: Pick<RouteInstruction, 'instruction' | 'maneuver'>,
+  locale: InstructionLocale = 'en'
+): string {
+  return instruction.maneuver ? renderManeuver(instruction.maneuver, locale) : instruction.instruction;
+}
+
+// Announcement of an instruction still some distance ahead
+export function announceManeuver(
+  instruction: Pick<RouteInstruction, 'instruction' | 'maneuver'>,
+  distance: number,
+  settings: InstructionSettings
+): string {
+  return PHRASES[settings.language].upcoming(
+    formatDistance(distance, settings.distanceUnits, settings.language),
+    renderInstruction(instruction, settings.language)
+  );
+}
+
+// Distance for display: meters and kilometers, or feet and miles
+export function formatDistance(meters: number, units: DistanceUnits = 'metric', locale: InstructionLocale = 'en'): string {
+  const number = (value: number, fractionDigits: number) =>
+    new Intl.NumberFormat(locale, { maximumFractionDigits: fractionDigits }).format(value);
+
+  if (units === 'imperial') {
+    const miles = meters / 1609.344;
+    if (miles < 0.1) return `${number(Math.round((meters * 3.28084) / 50) * 50, 0)} ft`;
+    return `${number(miles, miles < 100 ? 1 : 0)} mi`;
+  }
+  if (meters < 1000) return `${number(Math.round(meters / 10) * 10, 0)} m`;
+  return `${number(meters / 1000, meters < 100000 ? 1 : 0)} km`;
+}
+
+// Settings to use before the user has chosen any, from a BCP 47 tag such as
+// the browser's "en-US"
+export function defaultInstructionSettings(languageTag = 'en'): InstructionSettings {
+  const [language, region] = languageTag.split('-');
+  return {
+    language: isInstructionLocale(language) ? language : 'en',
+    distanceUnits: region && IMPERIAL_REGIONS.includes(region.toUpperCase()) ? 'imperial' : 'metric',
+  };
+}
+
+// Validate the direction settings inside a profile's travel preferences;
+// returns an error message when invalid
+export function parseInstructionSettings(value: unknown): Partial<InstructionSettings> | string {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) return 'travelPreferences must be an object';
+
+  const { language, distanceUnits } = value as Record<string, unknown>;
+  const settings: Partial<InstructionSettings> = {};
+  if (language !== undefined) {
+    if (!isInstructionLocale(language)) return `language must be one of: ${INSTRUCTION_LOCALES.join(', ')}`;
+    settings.language = language;
+  }
+  if (distanceUnits !== undefined) {
+    if (!DISTANCE_UNITS.includes(distanceUnits as DistanceUnits)) {
+      return `distanceUnits must be one of: ${DISTANCE_UNITS.join(', ')}`;
+    }
+    settings.distanceUnits = distanceUnits as DistanceUnits;
+  }
+  return settings;
+}
@@ -0,0 +1,82 @@
+import type { IsochroneCollection, IsochroneFeature, LatLng, Router, TransportMode } from '@/lib/routing/types';
+import { destinationPoint } from '@/lib/routing/geo';
+
+// Road modes only; timetabled and air travel have no continuous reachable area
+export const ISOCHRONE_MODES: TransportMode[] = ['car', 'cycling', 'walking'];
+export const MAX_ISOCHRONE_MINUTES = 120;
+export const MAX_ISOCHRONE_CONTOURS = 4;
+
+// Sampling grid for routers without a native isochrone API: rays out from the
+// origin, each with evenly spaced sample points. 16 x 6 + origin stays under
+// OSRM's default 100-coordinate table limit.
+const SAMPLE_BEARINGS = 16;
+const SAMPLE_RINGS = 6;
+
+// Upper bounds on average speed in km/h, which size the sampling grid
+const MAX_REACH_SPEEDS: Partial<Record<TransportMode, number>> = {
+  car: 80,
+  cycling: 20,
+  walking: 5,
+};
+
+// Closed GeoJSON polygon from a [lat, lon] ring
+export function isochroneFeature(minutes: number, ring: LatLng[]): IsochroneFeature {
+  const coordinates = ring.map(([lat, lon]) => [lon, lat]);
+  if (coordinates.length > 0) coordinates.push(coordinates[0]);
+  return {
+    type: 'Feature',
+    properties: { minutes },
+    geometry: { type: 'Polygon', coordinates: [coordinates] },
+  };
+}
+
+export function isochroneCollection(features: IsochroneFeature[]): IsochroneCollection {
+  return {
+    type: 'FeatureCollection',
+    features: [...features].sort((a, b) => b.properties.minutes - a.properties.minutes),
+  };
+}
+
+// Approximate isochrones from a travel-time matrix. Along each ray the contour
+// sits where travel time crosses the budget, interpolated between samples; the
+// first sample over budget ends the ray, so unreachable water or dead ends
+// beyond it do not bulge the polygon outwards.
+export async function sampleIsochrone(
+  router: Pick<Router, 'matrix'>,
+  origin: LatLng,
+  mode: TransportMode,
+  minutes: number[]
+): Promise<IsochroneCollection | null> {
+  const reachKm = (MAX_REACH_SPEEDS[mode] || MAX_REACH_SPEEDS.car!) * (Math.max(...minutes) / 60);
+  const radii = Array.from({ length: SAMPLE_RINGS }, (_, ring) => (reachKm * (ring + 1)) / SAMPLE_RINGS);
+  const bearings = Array.from({ length: SAMPLE_BEARINGS }, (_, ray) => (2 * Math.PI * ray) / SAMPLE_BEARINGS);
+
+  const samples = bearings.flatMap((bearing) => radii.map((radius) => destinationPoint(origin, bearing, radius)));
+  const matrix = await router.matrix([origin, ...samples], mode);
+  if (!matrix) return null;
+  const fromOrigin = matrix.durations[0];
+
+  const features = minutes.map((budget) => {
+    const limit = budget * 60;
+    const ring = bearings.map((bearing, ray) => {
+      let reached = 0;
+      let reachedTime = 0;
+      for (let ring = 0; ring < SAMPLE_RINGS; ring++) {
+        const time = fromOrigin[1 + ray * SAMPLE_RINGS + ring];
+        if (time <= limit) {
+          reached = radii[ring];
+          reachedTime = time;
+          continue;
+        }
+        if (isFinite(time) && time > reachedTime) {
+          reached += ((limit - reachedTime) / (time - reachedTime)) * (radii[ring] - reached);
+        }
+        break;
+      }
+      return destinationPoint(origin, bearing, reached);
+    });
+    return isochroneFeature(budget, ring);
+  });
+
+  return isochroneCollection(features);
+}
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { currentStep, pointAlongRoute, prepareNavigationRoute, routeProgress } from '@/lib/routing/navigation';
+import type { LatLng } from '@/lib/routing/types';
+
+// East along the equator, then north: two legs of about 1.1 km
+const line: LatLng[] = [[0, 0], [0, 0.01], [0.01, 0.01]];
+
+describe('prepareNavigationRoute', () => {
+  it('scales instruction starts to the length of the line', () => {
+    const route = prepareNavigationRoute(line, [{ distance: 2000 }, { distance: 2000 }, { distance: 0 }]);
+    assert.ok(Math.abs(route.length - 2224) < 5, `length ${route.length}`);
+    assert.deepEqual(route.stepStarts.map(Math.round), [0, Math.round(route.length / 2), Math.round(route.length)]);
+  });
+});
+
+describe('pointAlongRoute', () => {
+  const route = prepareNavigationRoute(line, []);
+  const at = (distance: number) => pointAlongRoute(route, distance).map((value) => Number(value.toFixed(6)));
+
+  it('interpolates within the segment at that distance', () => {
+    assert.deepEqual(at(route.length / 4), [0, 0.005]);
+    assert.deepEqual(at(route.length * 0.75), [0.005, 0.01]);
+  });
+
+  it('stops at the ends of the line', () => {
+    assert.deepEqual(at(-10), [0, 0]);
+    assert.deepEqual(at(route.length + 10), [0.01, 0.01]);
+    assert.deepEqual(pointAlongRoute(prepareNavigationRoute([[1, 2]], []), 50), [1, 2]);
+  });
+});
+
+describe('routeProgress', () => {
+  const route = prepareNavigationRoute(line, [{ distance: 1000 }, { distance: 1000 }]);
+
+  it('snaps a fix beside the line onto it', () => {
+    const progress = routeProgress(route, [0.001, 0.005], 0)!;
+    assert.ok(Math.abs(progress.travelled - route.length / 4) < 5);
+    assert.ok(Math.abs(progress.offRoute - 111) < 2, `off route ${progress.offRoute}`);
+    assert.deepEqual(progress.snapped.map((value) => Number(value.toFixed(6))), [0, 0.005]);
+    assert.equal(currentStep(route, progress.travelled), 0);
+  });
+
+  it('keeps moving forward where the line passes near itself', () => {
+    // Out and back along the same street
+    const looped = prepareNavigationRoute([[0, 0], [0, 0.01], [0.0001, 0.01], [0.0001, 0]], []);
+    const early = routeProgress(looped, [0, 0.002], 0)!;
+    const late = routeProgress(looped, [0.0001, 0.002], looped.length * 0.8)!;
+    assert.ok(early.travelled < looped.length / 2);
+    assert.ok(late.travelled > looped.length / 2);
+  });
+
+  it('reports the distance to a route of one point', () => {
+    const single = prepareNavigationRoute([[0, 0]], []);
+    assert.equal(routeProgress(single, [0, 0], 0)!.offRoute, 0);
+    assert.equal(routeProgress(prepareNavigationRoute([], []), [0, 0]), null);
+  });
+});
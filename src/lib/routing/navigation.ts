@@ -0,0 +1,97 @@
+import type { LatLng } from '@/lib/routing/types';
+import { calculateDistance, projectOntoSegment } from '@/lib/routing/geo';
+
+// How far back along the route a new fix may land before it is treated as a
+// jump to another part of the line, e.g. where a route doubles back
+const BACKTRACK_TOLERANCE_M = 100;
+
+// A route prepared for following: the line with distances along it and
+// where each instruction starts
+export interface NavigationRoute {
+  geometry: LatLng[];
+  // Meters from the start to each geometry point
+  cumulative: number[];
+  length: number;
+  // Meters from the start to where each instruction begins
+  stepStarts: number[];
+}
+
+export interface RouteProgress {
+  // Meters along the route to the point nearest the traveller
+  travelled: number;
+  // Meters between the traveller and the route
+  offRoute: number;
+  // That nearest point
+  snapped: LatLng;
+}
+
+// Instructions carry distances but no positions; they are laid end to end
+// along the geometry, scaled to its length since the stored line may be
+// simplified and shorter than the routed distance
+export function prepareNavigationRoute(geometry: LatLng[], instructions: Array<{ distance: number }>): NavigationRoute {
+  const cumulative = geometry.length > 0 ? [0] : [];
+  for (let i = 1; i < geometry.length; i++) {
+    cumulative.push(cumulative[i - 1] + calculateDistance(geometry[i - 1], geometry[i]) * 1000);
+  }
+  const length = cumulative[cumulative.length - 1] || 0;
+  const routedLength = instructions.reduce((sum, step) => sum + step.distance, 0);
+  const scale = routedLength > 0 ? length / routedLength : 0;
+
+  let travelled = 0;
+  const stepStarts = instructions.map((step) => {
+    const start = travelled * scale;
+    travelled += step.distance;
+    return start;
+  });
+
+  return { geometry, cumulative, length, stepStarts };
+}
+
+// The point a distance along the route, clamped to its ends
+export function pointAlongRoute(route: NavigationRoute, distance: number): LatLng {
+  const { geometry, cumulative } = route;
+  let segment = 0;
+  while (segment < geometry.length - 2 && cumulative[segment + 1] < distance) segment++;
+
+  const end = Math.min(segment + 1, geometry.length - 1);
+  const span = cumulative[end] - cumulative[segment];
+  const t = span > 0 ? Math.min(1, Math.max(0, (distance - cumulative[segment]) / span)) : 0;
+  const [from, to] = [geometry[segment], geometry[end]];
+  return [from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t];
+}
+
+// Where the traveller is along the route. Passing the previous progress keeps
+// the match moving forward where the line passes near itself.
+export function routeProgress(route: NavigationRoute, position: LatLng, previous = 0): RouteProgress | null {
+  const { geometry, cumulative } = route;
+  if (geometry.length === 0) return null;
+  if (geometry.length === 1) {
+    return { travelled: 0, offRoute: calculateDistance(position, geometry[0]) * 1000, snapped: geometry[0] };
+  }
+
+  let best: { segment: number; t: number; distance: number } | null = null;
+  let bestAhead: { segment: number; t: number; distance: number } | null = null;
+  for (let i = 0; i < geometry.length - 1; i++) {
+    const projection = { segment: i, ...projectOntoSegment(position, geometry[i], geometry[i + 1]) };
+    if (!best || projection.distance < best.distance) best = projection;
+    if (cumulative[i + 1] >= previous - BACKTRACK_TOLERANCE_M && (!bestAhead || projection.distance < bestAhead.distance)) {
+      bestAhead = projection;
+    }
+  }
+
+  const match = bestAhead || best!;
+  const start = geometry[match.segment];
+  const end = geometry[match.segment + 1];
+  return {
+    travelled: cumulative[match.segment] + (cumulative[match.segment + 1] - cumulative[match.segment]) * match.t,
+    offRoute: match.distance,
+    snapped: [start[0] + (end[0] - start[0]) * match.t, start[1] + (end[1] - start[1]) * match.t],
+  };
+}
+
+// Index of the instruction being followed at a distance along the route
+export function currentStep(route: NavigationRoute, travelled: number): number {
+  let index = 0;
+  while (index < route.stepStarts.length - 1 && route.stepStarts[index + 1] <= travelled) index++;
+  return index;
+}
@@ -0,0 +1,162 @@
+// Pickup ordering for shared rides: the driver starts at node 0, must visit
+// every pickup node exactly once and ends at the last node (the destination).
+//
+// Objectives:
+//   driver_time  total driving time from start to destination
+//   rider_wait   sum over companions of the time from departure until pickup
+//
+// Both decompose over "the k-th pickup", so the exact solver is a Held-Karp
+// DP over subsets; larger instances fall back to nearest neighbour + 2-opt.
+
+export type PickupObjective = 'driver_time' | 'rider_wait';
+
+export interface PickupOrderResult {
+  // Indices into the matrix, starting with 0 and ending with the destination
+  order: number[];
+  // Seconds from departure until each node in `order` is reached
+  arrivalOffsets: number[];
+  driverTime: number;
+  riderWait: number;
+  exact: boolean;
+}
+
+export const MAX_EXACT_PICKUPS = 10;
+
+function evaluate(order: number[], durations: number[][]) {
+  const arrivalOffsets = [0];
+  for (let i = 1; i < order.length; i++) {
+    arrivalOffsets.push(arrivalOffsets[i - 1] + durations[order[i - 1]][order[i]]);
+  }
+  const driverTime = arrivalOffsets[arrivalOffsets.length - 1];
+  const riderWait = arrivalOffsets.slice(1, -1).reduce((sum, t) => sum + t, 0);
+  return { arrivalOffsets, driverTime, riderWait };
+}
+
+function objectiveValue(order: number[], durations: number[][], objective: PickupObjective): number {
+  const { driverTime, riderWait } = evaluate(order, durations);
+  return objective === 'driver_time' ? driverTime : riderWait;
+}
+
+// Exact Held-Karp over the pickup subsets
+function solveExact(durations: number[][], objective: PickupObjective): number[] {
+  const n = durations.length;
+  const destination = n - 1;
+  const pickups = n - 2;
+  const full = (1 << pickups) - 1;
+
+  // cost[mask][j]: best cost having visited `mask`, currently at pickup j
+  const cost: number[][] = Array.from({ length: 1 << pickups }, () => new Array(pickups).fill(Infinity));
+  const parent: number[][] = Array.from({ length: 1 << pickups }, () => new Array(pickups).fill(-1));
+
+  // For rider_wait, the leg into the k-th pickup delays every remaining rider
+  const weight = (visitedBefore: number) =>
+    objective === 'rider_wait' ? pickups - visitedBefore : 1;
+
+  for (let j = 0; j < pickups; j++) {
+    cost[1 << j][j] = durations[0][j + 1] * weight(0);
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    const visited = countBits(mask);
+    for (let j = 0; j < pickups; j++) {
+      if (!(mask & (1 << j)) || cost[mask][j] === Infinity) continue;
+      for (let k = 0; k < pickups; k++) {
+        if (mask & (1 << k)) continue;
+        const next = mask | (1 << k);
+        const candidate = cost[mask][j] + durations[j + 1][k + 1] * weight(visited);
+        if (candidate < cost[next][k]) {
+          cost[next][k] = candidate;
+          parent[next][k] = j;
+        }
+      }
+    }
+  }
+
+  // The final leg to the destination only counts towards driver time
+  let best = Infinity;
+  let last = 0;
+  for (let j = 0; j < pickups; j++) {
+    const total = cost[full][j] + (objective === 'driver_time' ? durations[j + 1][destination] : 0);
+    if (total < best) {
+      best = total;
+      last = j;
+    }
+  }
+
+  const reversed: number[] = [];
+  let mask = full;
+  let current = last;
+  while (current !== -1) {
+    reversed.push(current + 1);
+    const previous = parent[mask][current];
+    mask &= ~(1 << current);
+    current = previous;
+  }
+
+  return [0, ...reversed.reverse(), destination];
+}
+
+function countBits(mask: number): number {
+  let count = 0;
+  while (mask) {
+    mask &= mask - 1;
+    count++;
+  }
+  return count;
+}
+
+// Nearest neighbour construction followed by 2-opt on the pickup segment
+function solveHeuristic(durations: number[][], objective: PickupObjective): number[] {
+  const n = durations.length;
+  const destination = n - 1;
+  const remaining = new Set(Array.from({ length: n - 2 }, (_, i) => i + 1));
+  const order = [0];
+
+  while (remaining.size > 0) {
+    const current = order[order.length - 1];
+    let nearest = -1;
+    for (const candidate of remaining) {
+      if (nearest === -1 || durations[current][candidate] < durations[current][nearest]) {
+        nearest = candidate;
+      }
+    }
+    order.push(nearest);
+    remaining.delete(nearest);
+  }
+  order.push(destination);
+
+  let best = objectiveValue(order, durations, objective);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < n - 2; i++) {
+      for (let j = i + 1; j < n - 1; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const value = objectiveValue(candidate, durations, objective);
+        if (value < best) {
+          order.splice(0, order.length, ...candidate);
+          best = value;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+export function optimizePickupOrder(durations: number[][], objective: PickupObjective): PickupOrderResult {
+  const pickups = durations.length - 2;
+  const exact = pickups <= MAX_EXACT_PICKUPS;
+
+  let order: number[];
+  if (pickups <= 0) {
+    order = durations.length === 1 ? [0] : [0, durations.length - 1];
+  } else if (exact) {
+    order = solveExact(durations, objective);
+  } else {
+    order = solveHeuristic(durations, objective);
+  }
+
+  return { order, exact, ...evaluate(order, durations) };
+}
@@ -0,0 +1,103 @@
+import type { LatLng } from '@/lib/routing/types';
+
+// Decode a Google encoded polyline. Valhalla uses precision 6, OSRM and
+// GraphHopper use precision 5.
+export function decodePolyline(encoded: string, precision: number = 5): LatLng[] {
+  const factor = Math.pow(10, precision);
+  const coordinates: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  while (index < encoded.length) {
+    for (const axis of [0, 1]) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      const delta = result & 1 ? ~(result >> 1) : result >> 1;
+      if (axis === 0) lat += delta;
+      else lon += delta;
+    }
+    coordinates.push([lat / factor, lon / factor]);
+  }
+
+  return coordinates;
+}
+
+// Encode coordinates as a Google encoded polyline, the inverse of decodePolyline
+export function encodePolyline(coordinates: LatLng[], precision: number = 5): string {
+  const factor = Math.pow(10, precision);
+  let encoded = '';
+  let previousLat = 0;
+  let previousLon = 0;
+
+  const encodeValue = (delta: number) => {
+    let value = delta < 0 ? ~(delta << 1) : delta << 1;
+    while (value >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (value & 0x1f)) + 63);
+      value >>= 5;
+    }
+    encoded += String.fromCharCode(value + 63);
+  };
+
+  for (const [lat, lon] of coordinates) {
+    const scaledLat = Math.round(lat * factor);
+    const scaledLon = Math.round(lon * factor);
+    encodeValue(scaledLat - previousLat);
+    encodeValue(scaledLon - previousLon);
+    previousLat = scaledLat;
+    previousLon = scaledLon;
+  }
+
+  return encoded;
+}
+
+// Douglas-Peucker simplification: drop points closer than `toleranceMeters`
+// to the line through their neighbours. Distances use a flat projection
+// around the first point, which is accurate enough at route scale.
+export function simplifyPolyline(coordinates: LatLng[], toleranceMeters: number): LatLng[] {
+  if (coordinates.length <= 2) return coordinates;
+
+  const metersPerDegree = 111320;
+  const lonScale = Math.cos((coordinates[0][0] * Math.PI) / 180);
+  const points = coordinates.map(([lat, lon]) => [lon * metersPerDegree * lonScale, lat * metersPerDegree]);
+
+  const offset = (index: number, start: number, end: number) => {
+    const [x, y] = points[index];
+    const [x1, y1] = points[start];
+    const [x2, y2] = points[end];
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared)) : 0;
+    return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+  };
+
+  const keep = new Array(coordinates.length).fill(false);
+  keep[0] = keep[coordinates.length - 1] = true;
+  // Iterative to stay clear of the call stack limit on long tracks
+  const stack: Array<[number, number]> = [[0, coordinates.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1;
+    let farthestOffset = toleranceMeters;
+    for (let i = start + 1; i < end; i++) {
+      const distance = offset(i, start, end);
+      if (distance > farthestOffset) {
+        farthest = i;
+        farthestOffset = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+
+  return coordinates.filter((_, index) => keep[index]);
+}
@@ -0,0 +1,99 @@
+import type { RoutePreference, RoutePreferences, RouteResult, TransportMode } from '@/lib/routing/types';
+
+export const ROUTE_PREFERENCES: RoutePreference[] = [
+  'avoidTolls',
+  'avoidHighways',
+  'avoidFerries',
+  'preferBikeLanes',
+  'maxWalkingDistance',
+];
+
+// Modes each preference can affect; for any other mode it does not apply
+const PREFERENCE_MODES: Record<RoutePreference, TransportMode[]> = {
+  avoidTolls: ['car'],
+  avoidHighways: ['car'],
+  avoidFerries: ['car', 'cycling'],
+  preferBikeLanes: ['cycling'],
+  maxWalkingDistance: ['walking'],
+};
+
+export type PreferenceStatus = 'honored' | 'violated' | 'unsupported' | 'not_applicable';
+
+export interface PreferenceCheck {
+  preference: RoutePreference;
+  status: PreferenceStatus;
+}
+
+// One stretch of a journey in a single mode, as far as preferences care
+export interface PreferenceSegment {
+  mode: TransportMode;
+  distance: number; // meters
+  tollDistance: number;
+  appliedPreferences?: RoutePreference[];
+}
+
+// Validate client-supplied preferences; returns an error message when invalid
+export function parseRoutePreferences(value: unknown): RoutePreferences | string {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) return 'preferences must be an object';
+
+  const preferences: RoutePreferences = {};
+  for (const [key, option] of Object.entries(value)) {
+    if (!ROUTE_PREFERENCES.includes(key as RoutePreference)) {
+      return `Unknown preference "${key}". Expected one of: ${ROUTE_PREFERENCES.join(', ')}`;
+    }
+    if (key === 'maxWalkingDistance') {
+      if (option === null) continue;
+      if (typeof option !== 'number' || !(option > 0)) return 'maxWalkingDistance must be a positive number of meters';
+      preferences.maxWalkingDistance = option;
+    } else {
+      if (typeof option !== 'boolean') return `${key} must be true or false`;
+      if (option) preferences[key as Exclude<RoutePreference, 'maxWalkingDistance'>] = true;
+    }
+  }
+  return preferences;
+}
+
+function isRequested(preferences: RoutePreferences, preference: RoutePreference): boolean {
+  return preference === 'maxWalkingDistance' ? preferences.maxWalkingDistance !== undefined : !!preferences[preference];
+}
+
+// Whether each requested preference held on the planned journey. Tolls and
+// walking distance are checked against the result; the rest are honored when
+// the provider applied them to every affected segment.
+export function checkPreferences(preferences: RoutePreferences, segments: PreferenceSegment[]): PreferenceCheck[] {
+  return ROUTE_PREFERENCES.filter((preference) => isRequested(preferences, preference)).map((preference) => {
+    const affected = segments.filter((segment) => PREFERENCE_MODES[preference].includes(segment.mode));
+    if (affected.length === 0) return { preference, status: 'not_applicable' };
+
+    switch (preference) {
+      case 'avoidTolls':
+        return { preference, status: affected.some((segment) => segment.tollDistance > 0) ? 'violated' : 'honored' };
+      case 'maxWalkingDistance':
+        return {
+          preference,
+          status: affected.some((segment) => segment.distance > preferences.maxWalkingDistance!) ? 'violated' : 'honored',
+        };
+      default:
+        return {
+          preference,
+          status: affected.every((segment) => segment.appliedPreferences?.includes(preference)) ? 'honored' : 'unsupported',
+        };
+    }
+  });
+}
+
+// Keep only the candidate routes that satisfy the checkable preferences, so
+// ranking never picks a toll road over a toll-free alternative. When no
+// candidate complies, all are kept and the violation is reported instead.
+export function filterCompliantRoutes(
+  candidates: RouteResult[],
+  mode: TransportMode,
+  preferences: RoutePreferences
+): RouteResult[] {
+  const compliant = candidates.filter((route) =>
+    checkPreferences(preferences, [{ mode, distance: route.distance, tollDistance: route.tollDistance }])
+      .every((check) => check.status !== 'violated')
+  );
+  return compliant.length > 0 ? compliant : candidates;
+}
@@ -0,0 +1,254 @@
+import type { GeocodeResult, GeocodeSuggestion, Geocoder, LatLng, RouteLeg, RouteOptions, RoutePreference, RoutePreferences, RouteResult, Router, TransportMode } from '@/lib/routing/types';
+import { calculateDistance } from '@/lib/routing/geo';
+import { sampleIsochrone } from '@/lib/routing/isochrone';
+
+// Deterministic, network-free provider for offline development and demos.
+// Known places resolve to their real coordinates; anything else is hashed to a
+// stable point in the continental US so the same query always lands in the
+// same place. Routes are straight lines scaled by a road detour factor.
+
+const FIXTURE_PLACES: Record<string, LatLng> = {
+  'new york': [40.7128, -74.006],
+  'los angeles': [34.0522, -118.2437],
+  'san francisco': [37.7749, -122.4194],
+  'chicago': [41.8781, -87.6298],
+  'seattle': [47.6062, -122.3321],
+  'portland': [45.5152, -122.6784],
+  'boston': [42.3601, -71.0589],
+  'austin': [30.2672, -97.7431],
+  'miami': [25.7617, -80.1918],
+  'paris': [48.8566, 2.3522],
+  'london': [51.5074, -0.1278],
+  'barcelona': [41.3874, 2.1686],
+  'tokyo': [35.6762, 139.6503],
+  'sydney': [-33.8688, 151.2093],
+};
+
+// Average speeds in km/h used to derive fixture durations
+const FIXTURE_SPEEDS: Record<TransportMode, number> = {
+  car: 60,
+  cycling: 16,
+  walking: 5,
+  bus: 40,
+  train: 90,
+  flight: 700,
+};
+
+const ROAD_DETOUR_FACTOR = 1.25;
+const POINTS_PER_LEG = 16;
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function lookupFixturePlace(query: string): LatLng {
+  const normalized = query.trim().toLowerCase();
+  const [name] = normalized.split(',');
+  const known = FIXTURE_PLACES[normalized] || FIXTURE_PLACES[name.trim()];
+  if (known) return known;
+
+  // Continental US: lat 30..48, lon -122..-72
+  const hash = hashString(normalized);
+  const lat = 30 + ((hash & 0xffff) / 0xffff) * 18;
+  const lon = -122 + ((hash >>> 16) / 0xffff) * 50;
+  return [Number(lat.toFixed(5)), Number(lon.toFixed(5))];
+}
+
+// Reverse lookups snap to a known place within this distance
+const FIXTURE_REVERSE_RADIUS_KM = 50;
+
+const titleCase = (name: string) => name.replace(/\b\w/g, (char) => char.toUpperCase());
+
+function fixtureResult(coordinates: LatLng, displayName: string): GeocodeResult {
+  return {
+    coordinates,
+    displayName,
+    boundingBox: [coordinates[0] - 0.05, coordinates[0] + 0.05, coordinates[1] - 0.05, coordinates[1] + 0.05],
+  };
+}
+
+export function createFixtureGeocoder(): Geocoder {
+  return {
+    name: 'fixture',
+
+    async geocode(query: string) {
+      if (!query.trim()) return null;
+      return fixtureResult(lookupFixturePlace(query), query.trim());
+    },
+
+    // Known places matching the query, then the query itself as a hashed point
+    async suggest(query, { limit = 5 } = {}) {
+      const normalized = query.trim().toLowerCase();
+      if (!normalized) return [];
+
+      const known: GeocodeSuggestion[] = Object.entries(FIXTURE_PLACES)
+        .filter(([name]) => name.includes(normalized))
+        .map(([name, coordinates]) => ({
+          ...fixtureResult(coordinates, titleCase(name)),
+          importance: name.startsWith(normalized) ? 0.8 : 0.6,
+        }));
+      const fallback: GeocodeSuggestion = { ...fixtureResult(lookupFixturePlace(query), query.trim()), importance: 0.1 };
+
+      return [...known, fallback].slice(0, limit);
+    },
+
+    async reverse(point: LatLng) {
+      let nearest: { name: string; km: number } | null = null;
+      for (const [name, coordinates] of Object.entries(FIXTURE_PLACES)) {
+        const km = calculateDistance(point, coordinates);
+        if (km <= FIXTURE_REVERSE_RADIUS_KM && (!nearest || km < nearest.km)) {
+          nearest = { name, km };
+        }
+      }
+      const label = `${point[0].toFixed(5)}, ${point[1].toFixed(5)}`;
+      return fixtureResult(point, nearest ? `${label} (near ${titleCase(nearest.name)})` : label);
+    },
+  };
+}
+
+interface FixtureVariant {
+  distanceFactor: number;
+  speedFactor: number;
+  tollShare: number; // fraction of the distance on toll roads (car only)
+  bend: number; // perpendicular offset of the leg midpoint, in degrees per degree of leg length
+}
+
+// The primary route plus alternatives that trade distance, speed and tolls
+// against each other, so every optimization mode has something to choose
+const FIXTURE_VARIANTS: FixtureVariant[] = [
+  { distanceFactor: 1, speedFactor: 1, tollShare: 0, bend: 0 },
+  { distanceFactor: 1.12, speedFactor: 1.3, tollShare: 0.6, bend: 0.12 },
+  { distanceFactor: 0.94, speedFactor: 0.8, tollShare: 0, bend: -0.08 },
+];
+
+function buildFixtureRoute(waypoints: LatLng[], mode: TransportMode, variant: FixtureVariant): RouteResult {
+  const coordinates: LatLng[] = [waypoints[0]];
+  const legs: RouteLeg[] = [];
+  const speedMs = ((FIXTURE_SPEEDS[mode] || FIXTURE_SPEEDS.car) * variant.speedFactor) / 3.6;
+
+  for (let i = 1; i < waypoints.length; i++) {
+    const from = waypoints[i - 1];
+    const to = waypoints[i];
+    const legDistance = calculateDistance(from, to) * 1000 * ROAD_DETOUR_FACTOR * variant.distanceFactor;
+    const isLastLeg = i === waypoints.length - 1;
+
+    for (let step = 1; step <= POINTS_PER_LEG; step++) {
+      const t = step / POINTS_PER_LEG;
+      // Parabolic bend perpendicular to the leg, zero at both ends
+      const offset = variant.bend * 4 * t * (1 - t);
+      coordinates.push([
+        from[0] + (to[0] - from[0]) * t - (to[1] - from[1]) * offset,
+        from[1] + (to[1] - from[1]) * t + (to[0] - from[0]) * offset,
+      ]);
+    }
+
+    legs.push({
+      distance: legDistance,
+      duration: legDistance / speedMs,
+      instructions: [
+        {
+          distance: legDistance,
+          duration: legDistance / speedMs,
+          instruction: i === 1 ? 'Head towards your destination' : 'Continue to the next stop',
+          name: 'Fixture road',
+          type: i === 1 ? 'depart' : 'continue',
+          maneuver: { type: i === 1 ? 'depart' : 'continue', roadName: 'Fixture road' },
+        },
+        {
+          distance: 0,
+          duration: 0,
+          instruction: isLastLeg ? 'Arrive at your destination' : 'Arrive at the next stop',
+          name: 'Fixture road',
+          type: 'arrive',
+          maneuver: { type: 'arrive', roadName: 'Fixture road' },
+        },
+      ],
+    });
+  }
+
+  const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+
+  return {
+    coordinates,
+    distance,
+    duration: distance / speedMs,
+    instructions: legs.flatMap((leg) => leg.instructions),
+    legs,
+    tollDistance: mode === 'car' ? distance * variant.tollShare : 0,
+  };
+}
+
+// Fixture roads honor every preference that applies to the mode: avoided
+// tolls vanish at the cost of a longer route, avoided highways are slower,
+// bike lanes wind a little more
+function applyFixturePreferences(
+  variant: FixtureVariant,
+  mode: TransportMode,
+  preferences: RoutePreferences = {}
+): { variant: FixtureVariant; applied: RoutePreference[] } {
+  const adjusted = { ...variant };
+  const applied: RoutePreference[] = [];
+
+  if (mode === 'car' && preferences.avoidTolls) {
+    if (adjusted.tollShare > 0) adjusted.distanceFactor *= 1.05;
+    adjusted.tollShare = 0;
+    applied.push('avoidTolls');
+  }
+  if (mode === 'car' && preferences.avoidHighways) {
+    adjusted.speedFactor *= 0.8;
+    applied.push('avoidHighways');
+  }
+  if ((mode === 'car' || mode === 'cycling') && preferences.avoidFerries) {
+    applied.push('avoidFerries');
+  }
+  if (mode === 'cycling' && preferences.preferBikeLanes) {
+    adjusted.distanceFactor *= 1.08;
+    applied.push('preferBikeLanes');
+  }
+
+  return { variant: adjusted, applied };
+}
+
+export function createFixtureRouter(): Router {
+  return {
+    name: 'fixture',
+
+    async route(waypoints: LatLng[], mode: TransportMode, options: RouteOptions = {}) {
+      if (waypoints.length < 2) return null;
+
+      const build = (base: FixtureVariant): RouteResult => {
+        const { variant, applied } = applyFixturePreferences(base, mode, options.preferences);
+        return { ...buildFixtureRoute(waypoints, mode, variant), appliedPreferences: applied };
+      };
+
+      const [primary, ...variants] = FIXTURE_VARIANTS;
+      const route = build(primary);
+      if (!options.alternatives) return route;
+
+      return {
+        ...route,
+        alternatives: variants.slice(0, options.alternatives).map(build),
+      };
+    },
+
+    async matrix(points: LatLng[], mode: TransportMode) {
+      const speedMs = (FIXTURE_SPEEDS[mode] || FIXTURE_SPEEDS.car) / 3.6;
+      const distances = points.map((from) =>
+        points.map((to) => calculateDistance(from, to) * 1000 * ROAD_DETOUR_FACTOR)
+      );
+      return {
+        distances,
+        durations: distances.map((row) => row.map((distance) => distance / speedMs)),
+      };
+    },
+
+    async isochrone(origin: LatLng, mode: TransportMode, minutes: number[]) {
+      return sampleIsochrone(this, origin, mode, minutes);
+    },
+  };
+}
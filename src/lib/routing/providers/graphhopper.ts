@@ -0,0 +1,279 @@
+import type { IsochroneFeature, LatLng, Maneuver, RouteInstruction, RouteLeg, RouteOptions, RoutePreference, RoutePreferences, RouteResult, Router, TransportMode, TravelMatrix } from '@/lib/routing/types';
+import { calculateDistance } from '@/lib/routing/geo';
+import { isochroneCollection } from '@/lib/routing/isochrone';
+
+interface GraphHopperOptions {
+  baseUrl: string;
+  apiKey: string | null;
+  userAgent: string;
+}
+
+// Map transport modes to GraphHopper profiles
+export function mapToGraphHopperProfile(mode: TransportMode): string {
+  const profileMap: Record<TransportMode, string> = {
+    car: 'car',
+    cycling: 'bike',
+    walking: 'foot',
+    bus: 'car',
+    train: 'car',
+    flight: 'car',
+  };
+  return profileMap[mode] || 'car';
+}
+
+// Custom model priority rules for the requested preferences. Avoided roads get
+// a near-zero priority rather than zero, so a route still exists when there is
+// no way around them (avoided tolls are then reported as violated).
+function customModelRules(profile: string, preferences: RoutePreferences = {}) {
+  const priority: Array<Record<string, string>> = [];
+  const applied: RoutePreference[] = [];
+  const avoid = (condition: string, preference: RoutePreference) => {
+    priority.push({ if: condition, multiply_by: '0.01' });
+    applied.push(preference);
+  };
+
+  if (profile === 'car') {
+    if (preferences.avoidTolls) avoid('toll != NO', 'avoidTolls');
+    if (preferences.avoidHighways) avoid('road_class == MOTORWAY', 'avoidHighways');
+  }
+  if (preferences.avoidFerries && profile !== 'foot') avoid('road_environment == FERRY', 'avoidFerries');
+  if (preferences.preferBikeLanes && profile === 'bike') {
+    priority.push({ if: 'road_class != CYCLEWAY && bike_network == MISSING', multiply_by: '0.6' });
+    applied.push('preferBikeLanes');
+  }
+
+  return { priority, applied };
+}
+
+// Translate GraphHopper instruction signs into the OSRM-style names used by the app
+function mapInstructionSign(sign: number): string {
+  if (sign === 4 || sign === 5) return 'arrive';
+  if (sign === 6 || sign === -6) return 'roundabout';
+  if (sign === 7 || sign === -7) return 'fork';
+  if (sign === 0) return 'continue';
+  return 'turn';
+}
+
+// Direction modifiers carried by GraphHopper's instruction signs
+const SIGN_MODIFIERS: Record<number, string> = {
+  [-8]: 'uturn',
+  [-7]: 'left',
+  [-3]: 'sharp left',
+  [-2]: 'left',
+  [-1]: 'slight left',
+  1: 'slight right',
+  2: 'right',
+  3: 'sharp right',
+  7: 'right',
+  8: 'uturn',
+};
+
+function graphHopperManeuver(step: any, index: number): Maneuver {
+  return {
+    type: index === 0 ? 'depart' : mapInstructionSign(step.sign),
+    modifier: SIGN_MODIFIERS[step.sign],
+    bearing: index === 0 ? step.heading : undefined,
+    exit: step.exit_number,
+    roadName: step.street_name || undefined,
+  };
+}
+
+function parseGraphHopperPath(path: any): RouteResult {
+  // Convert GeoJSON coordinates from [lon, lat] to [lat, lon]
+  const coordinates: LatLng[] = path.points.coordinates.map(
+    (coord: number[]) => [coord[1], coord[0]]
+  );
+
+  // GraphHopper returns one flat instruction list; split it into legs at
+  // each "via reached" (sign 5) instruction
+  const legs: RouteLeg[] = [];
+  let current: RouteLeg = { distance: 0, duration: 0, instructions: [] };
+  (path.instructions || []).forEach((step: any, index: number) => {
+    const maneuver = graphHopperManeuver(step, index);
+    const instruction: RouteInstruction = {
+      distance: step.distance,
+      duration: step.time / 1000,
+      instruction: step.text,
+      name: step.street_name || 'Unnamed road',
+      type: maneuver.type,
+      maneuver,
+    };
+    current.instructions.push(instruction);
+    current.distance += instruction.distance;
+    current.duration += instruction.duration;
+    if (step.sign === 4 || step.sign === 5) {
+      legs.push(current);
+      current = { distance: 0, duration: 0, instructions: [] };
+    }
+  });
+  if (current.instructions.length > 0) {
+    legs.push(current);
+  }
+
+  // Toll details are [fromIndex, toIndex, value] ranges over the coordinates
+  let tollDistance = 0;
+  for (const [from, to, value] of path.details?.toll || []) {
+    if (value === 'no') continue;
+    for (let i = from; i < to; i++) {
+      tollDistance += calculateDistance(coordinates[i], coordinates[i + 1]) * 1000;
+    }
+  }
+
+  return {
+    coordinates,
+    distance: path.distance, // in meters
+    duration: path.time / 1000, // ms to seconds
+    instructions: legs.flatMap((leg) => leg.instructions),
+    legs,
+    tollDistance,
+  };
+}
+
+export function createGraphHopperRouter({ baseUrl, apiKey, userAgent }: GraphHopperOptions): Router {
+  return {
+    name: 'graphhopper',
+
+    async route(waypoints: LatLng[], mode: TransportMode, options: RouteOptions = {}) {
+      try {
+        const profile = mapToGraphHopperProfile(mode);
+        const { priority, applied } = customModelRules(profile, options.preferences);
+        const body: Record<string, unknown> = {
+          profile,
+          points: waypoints.map(([lat, lon]) => [lon, lat]),
+          points_encoded: false,
+          instructions: true,
+          details: ['toll'],
+        };
+        // GraphHopper only computes alternatives between two points
+        if (options.alternatives && waypoints.length === 2) {
+          body.algorithm = 'alternative_route';
+          body['alternative_route.max_paths'] = options.alternatives + 1;
+        }
+        // Custom models need the flexible (non-CH) mode
+        if (priority.length > 0) {
+          body.custom_model = { priority };
+          body['ch.disable'] = true;
+        }
+
+        const query = apiKey ? `?key=${encodeURIComponent(apiKey)}` : '';
+        const response = await fetch(`${baseUrl}/route${query}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': userAgent,
+          },
+          body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('GraphHopper API error:', response.status, error);
+          return null;
+        }
+
+        const data = await response.json();
+
+        if (!data.paths || data.paths.length === 0) {
+          console.error('No routes found in GraphHopper response:', data.message);
+          return null;
+        }
+
+        const [primary, ...others]: RouteResult[] = data.paths
+          .map(parseGraphHopperPath)
+          .map((route: RouteResult) => ({ ...route, appliedPreferences: applied }));
+        return options.alternatives ? { ...primary, alternatives: others } : primary;
+      } catch (error) {
+        console.error('GraphHopper route error:', error);
+        return null;
+      }
+    },
+
+    async matrix(points: LatLng[], mode: TransportMode) {
+      try {
+        const query = apiKey ? `?key=${encodeURIComponent(apiKey)}` : '';
+        const response = await fetch(`${baseUrl}/matrix${query}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': userAgent,
+          },
+          body: JSON.stringify({
+            points: points.map(([lat, lon]) => [lon, lat]),
+            profile: mapToGraphHopperProfile(mode),
+            out_arrays: ['times', 'distances'],
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('GraphHopper matrix API error:', response.status, error);
+          return null;
+        }
+
+        const data = await response.json();
+
+        if (!data.times || !data.distances) {
+          console.error('No matrix in GraphHopper response:', data.message);
+          return null;
+        }
+
+        const toMatrix = (rows: (number | null)[][]) =>
+          rows.map((row) => row.map((value) => (value === null ? Infinity : value)));
+
+        const matrix: TravelMatrix = {
+          durations: toMatrix(data.times),
+          distances: toMatrix(data.distances),
+        };
+        return matrix;
+      } catch (error) {
+        console.error('GraphHopper matrix error:', error);
+        return null;
+      }
+    },
+
+    async isochrone(origin: LatLng, mode: TransportMode, minutes: number[]) {
+      try {
+        // Buckets split one time limit evenly, so arbitrary budgets need a request each
+        const features: IsochroneFeature[] = [];
+        for (const budget of minutes) {
+          const params = new URLSearchParams({
+            point: `${origin[0]},${origin[1]}`,
+            profile: mapToGraphHopperProfile(mode),
+            time_limit: String(budget * 60),
+            buckets: '1',
+          });
+          if (apiKey) params.set('key', apiKey);
+
+          const response = await fetch(`${baseUrl}/isochrone?${params}`, {
+            headers: {
+              'User-Agent': userAgent,
+            },
+          });
+
+          if (!response.ok) {
+            const error = await response.text();
+            console.error('GraphHopper isochrone API error:', response.status, error);
+            return null;
+          }
+
+          const data = await response.json();
+          const polygon = data.polygons?.[0];
+          if (!polygon?.geometry) {
+            console.error('No isochrone in GraphHopper response:', data.message);
+            return null;
+          }
+
+          features.push({
+            type: 'Feature',
+            properties: { minutes: budget },
+            geometry: { type: 'Polygon', coordinates: polygon.geometry.coordinates },
+          });
+        }
+        return isochroneCollection(features);
+      } catch (error) {
+        console.error('GraphHopper isochrone error:', error);
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import type { GeocodeResult, GeocodeSuggestion, Geocoder } from '@/lib/routing/types';
+
+interface NominatimOptions {
+  baseUrl: string;
+  userAgent: string;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name?: string;
+  boundingbox?: string[];
+  importance?: number;
+}
+
+// Half-size in degrees of the viewbox used to bias suggestions
+const SUGGEST_VIEWBOX_DEGREES = 1;
+
+function toResult(place: NominatimPlace, fallbackName: string): GeocodeResult {
+  const boundingBox = Array.isArray(place.boundingbox)
+    ? place.boundingbox.map(parseFloat) as [number, number, number, number]
+    : null;
+
+  return {
+    coordinates: [parseFloat(place.lat), parseFloat(place.lon)],
+    displayName: place.display_name || fallbackName,
+    boundingBox,
+  };
+}
+
+// Geocoder backed by Nominatim, either the public OpenStreetMap instance or a self-hosted one.
+// The public instance's usage policy discourages per-keystroke search; suggestions
+// are debounced by the client and rate limited by the shared scheduler, but a
+// self-hosted instance is the better fit for heavy autocomplete use.
+export function createNominatimGeocoder({ baseUrl, userAgent }: NominatimOptions): Geocoder {
+  const request = async (path: string): Promise<unknown> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      headers: {
+        'User-Agent': userAgent,
+      },
+    });
+
+    if (!response.ok) {
+      console.error('Nominatim API error:', response.statusText);
+      return null;
+    }
+    return response.json();
+  };
+
+  return {
+    name: 'nominatim',
+
+    async geocode(query: string) {
+      try {
+        const data = await request(`/search?format=json&q=${encodeURIComponent(query)}&limit=1`) as NominatimPlace[] | null;
+
+        if (!data || data.length === 0) {
+          return null;
+        }
+
+        return toResult(data[0], query);
+      } catch (error) {
+        console.error('Geocoding error:', error);
+        return null;
+      }
+    },
+
+    async suggest(query, { limit = 5, near } = {}) {
+      try {
+        let path = `/search?format=json&q=${encodeURIComponent(query)}&limit=${limit}`;
+        if (near) {
+          // viewbox=left,top,right,bottom; bounded=0 prefers the box without restricting to it
+          const [lat, lon] = near;
+          const d = SUGGEST_VIEWBOX_DEGREES;
+          path += `&viewbox=${lon - d},${lat + d},${lon + d},${lat - d}&bounded=0`;
+        }
+
+        const data = await request(path) as NominatimPlace[] | null;
+        if (!data) return [];
+
+        return data.map((place): GeocodeSuggestion => ({
+          ...toResult(place, query),
+          importance: place.importance ?? 0,
+        }));
+      } catch (error) {
+        console.error('Geocode suggest error:', error);
+        return [];
+      }
+    },
+
+    async reverse([lat, lon]) {
+      try {
+        const data = await request(`/reverse?format=json&lat=${lat}&lon=${lon}`) as (NominatimPlace & { error?: string }) | null;
+
+        if (!data || data.error) {
+          return null;
+        }
+
+        return toResult(data, `${lat.toFixed(5)}, ${lon.toFixed(5)}`);
+      } catch (error) {
+        console.error('Reverse geocoding error:', error);
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import type { LatLng, Maneuver, RouteInstruction, RouteLeg, RouteOptions, RoutePreference, RoutePreferences, RouteResult, Router, TransportMode, TravelMatrix } from '@/lib/routing/types';
+import { renderManeuver } from '@/lib/routing/instructions';
+import { sampleIsochrone } from '@/lib/routing/isochrone';
+
+interface OSRMOptions {
+  baseUrl: string;
+  userAgent: string;
+}
+
+// Map transport modes to OSRM profiles
+export function mapToOSRMProfile(mode: TransportMode): string {
+  const profileMap: Record<TransportMode, string> = {
+    car: 'car',
+    cycling: 'bike',
+    walking: 'foot',
+    bus: 'car', // Fallback to car for bus
+    train: 'car', // Fallback to car for train
+    flight: 'car', // Fallback to car for flight
+  };
+  return profileMap[mode] || 'car';
+}
+
+// OSRM's stock car profile can exclude these road classes; bike and foot
+// profiles define no exclusions
+const OSRM_EXCLUDES: Partial<Record<RoutePreference, string>> = {
+  avoidTolls: 'toll',
+  avoidHighways: 'motorway',
+  avoidFerries: 'ferry',
+};
+
+function osrmExcludes(profile: string, preferences: RoutePreferences = {}): RoutePreference[] {
+  if (profile !== 'car') return [];
+  return (Object.keys(OSRM_EXCLUDES) as RoutePreference[]).filter((preference) => preferences[preference]);
+}
+
+function osrmManeuver(step: any): Maneuver {
+  return {
+    type: step.maneuver.type,
+    modifier: step.maneuver.modifier,
+    bearing: step.maneuver.bearing_after,
+    exit: step.maneuver.exit,
+    roadName: step.name || undefined,
+  };
+}
+
+function parseOSRMRoute(route: any): RouteResult {
+  // Convert GeoJSON coordinates from [lon, lat] to [lat, lon]
+  const coordinates: LatLng[] = route.geometry.coordinates.map(
+    (coord: number[]) => [coord[1], coord[0]]
+  );
+
+  let tollDistance = 0;
+
+  // Extract turn-by-turn instructions from every leg
+  const legs: RouteLeg[] = (route.legs || []).map((leg: any) => {
+    const instructions: RouteInstruction[] = [];
+    for (const step of leg.steps || []) {
+      if (step.intersections?.some((intersection: any) => intersection.classes?.includes('toll'))) {
+        tollDistance += step.distance;
+      }
+      if (step.maneuver) {
+        const maneuver = osrmManeuver(step);
+        instructions.push({
+          distance: step.distance,
+          duration: step.duration,
+          instruction: renderManeuver(maneuver),
+          name: step.name || 'Unnamed road',
+          type: step.maneuver.type,
+          maneuver,
+        });
+      }
+    }
+    return { distance: leg.distance, duration: leg.duration, instructions };
+  });
+
+  return {
+    coordinates,
+    distance: route.distance, // in meters
+    duration: route.duration, // in seconds
+    instructions: legs.flatMap((leg) => leg.instructions),
+    legs,
+    tollDistance,
+  };
+}
+
+export function createOSRMRouter({ baseUrl, userAgent }: OSRMOptions): Router {
+  return {
+    name: 'osrm',
+
+    async route(waypoints: LatLng[], mode: TransportMode, options: RouteOptions = {}) {
+      try {
+        const profile = mapToOSRMProfile(mode);
+        // OSRM expects lon,lat format (not lat,lon)
+        const coords = waypoints.map(([lat, lon]) => `${lon},${lat}`).join(';');
+        // OSRM only computes alternatives between two coordinates
+        const alternatives = waypoints.length === 2 && options.alternatives ? options.alternatives : false;
+        const excluded = osrmExcludes(profile, options.preferences);
+        const exclude = excluded.length > 0 ? `&exclude=${excluded.map((preference) => OSRM_EXCLUDES[preference]).join(',')}` : '';
+
+        const response = await fetch(
+          `${baseUrl}/route/v1/${profile}/${coords}?overview=full&geometries=geojson&steps=true&alternatives=${alternatives}${exclude}`,
+          {
+            headers: {
+              'User-Agent': userAgent,
+            },
+          }
+        );
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('OSRM API error:', response.status, error);
+          return null;
+        }
+
+        const data = await response.json();
+
+        if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
+          console.error('No routes found in OSRM response:', data.code);
+          return null;
+        }
+
+        const [primary, ...others]: RouteResult[] = data.routes
+          .map(parseOSRMRoute)
+          .map((route: RouteResult) => ({ ...route, appliedPreferences: excluded }));
+        return options.alternatives ? { ...primary, alternatives: others } : primary;
+      } catch (error) {
+        console.error('OSRM route error:', error);
+        return null;
+      }
+    },
+
+    async matrix(points: LatLng[], mode: TransportMode) {
+      try {
+        const profile = mapToOSRMProfile(mode);
+        const coords = points.map(([lat, lon]) => `${lon},${lat}`).join(';');
+
+        const response = await fetch(
+          `${baseUrl}/table/v1/${profile}/${coords}?annotations=duration,distance`,
+          {
+            headers: {
+              'User-Agent': userAgent,
+            },
+          }
+        );
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('OSRM table API error:', response.status, error);
+          return null;
+        }
+
+        const data = await response.json();
+
+        if (data.code !== 'Ok' || !data.durations || !data.distances) {
+          console.error('No matrix in OSRM response:', data.code);
+          return null;
+        }
+
+        // Unreachable pairs come back as null
+        const toMatrix = (rows: (number | null)[][]) =>
+          rows.map((row) => row.map((value) => (value === null ? Infinity : value)));
+
+        const matrix: TravelMatrix = {
+          durations: toMatrix(data.durations),
+          distances: toMatrix(data.distances),
+        };
+        return matrix;
+      } catch (error) {
+        console.error('OSRM matrix error:', error);
+        return null;
+      }
+    },
+
+    // OSRM has no isochrone service; sample travel times with the table service
+    async isochrone(origin: LatLng, mode: TransportMode, minutes: number[]) {
+      return sampleIsochrone(this, origin, mode, minutes);
+    },
+  };
+}
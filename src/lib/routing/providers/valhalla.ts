@@ -0,0 +1,282 @@
+import type { IsochroneFeature, LatLng, Maneuver, RouteInstruction, RouteLeg, RouteOptions, RoutePreference, RoutePreferences, RouteResult, Router, TransportMode, TravelMatrix } from '@/lib/routing/types';
+import { decodePolyline } from '@/lib/routing/polyline';
+import { isochroneCollection } from '@/lib/routing/isochrone';
+
+interface ValhallaOptions {
+  baseUrl: string;
+  userAgent: string;
+}
+
+// Map transport modes to Valhalla costing models
+export function mapToValhallaCosting(mode: TransportMode): string {
+  const costingMap: Record<TransportMode, string> = {
+    car: 'auto',
+    cycling: 'bicycle',
+    walking: 'pedestrian',
+    bus: 'bus',
+    train: 'auto', // Valhalla has no rail costing
+    flight: 'auto',
+  };
+  return costingMap[mode] || 'auto';
+}
+
+// Valhalla costing options for the requested preferences, and which of them
+// the costing model understands. Walking distance is capped by the pedestrian
+// model itself.
+function valhallaCostingOptions(costing: string, preferences: RoutePreferences = {}) {
+  const options: Record<string, number> = {};
+  const applied: RoutePreference[] = [];
+  const motorized = costing === 'auto' || costing === 'bus';
+
+  if (preferences.avoidTolls && motorized) {
+    options.use_tolls = 0;
+    applied.push('avoidTolls');
+  }
+  if (preferences.avoidHighways && motorized) {
+    options.use_highways = 0;
+    applied.push('avoidHighways');
+  }
+  if (preferences.avoidFerries && costing !== 'pedestrian') {
+    options.use_ferry = 0;
+    applied.push('avoidFerries');
+  }
+  if (preferences.preferBikeLanes && costing === 'bicycle') {
+    options.use_roads = 0.1;
+    applied.push('preferBikeLanes');
+  }
+  if (preferences.maxWalkingDistance !== undefined && costing === 'pedestrian') {
+    options.max_distance = preferences.maxWalkingDistance;
+    applied.push('maxWalkingDistance');
+  }
+
+  return { costingOptions: { [costing]: options }, applied };
+}
+
+// Translate Valhalla's numeric maneuver types into the OSRM-style names used by the app
+function mapManeuverType(type: number): string {
+  if (type >= 1 && type <= 3) return 'depart';
+  if (type >= 4 && type <= 6) return 'arrive';
+  if (type >= 9 && type <= 16) return 'turn';
+  if (type === 18 || type === 19) return 'on ramp';
+  if (type === 20 || type === 21) return 'off ramp';
+  if (type >= 22 && type <= 24) return 'fork';
+  if (type === 25 || type === 37 || type === 38) return 'merge';
+  if (type === 26 || type === 27) return 'roundabout';
+  return 'continue';
+}
+
+// Direction modifiers carried by Valhalla's maneuver types
+const MANEUVER_MODIFIERS: Record<number, string> = {
+  9: 'slight right',
+  10: 'right',
+  11: 'sharp right',
+  12: 'uturn',
+  13: 'uturn',
+  14: 'sharp left',
+  15: 'left',
+  16: 'slight left',
+  18: 'right',
+  19: 'left',
+  20: 'right',
+  21: 'left',
+  22: 'straight',
+  23: 'right',
+  24: 'left',
+  37: 'right',
+  38: 'left',
+};
+
+function valhallaManeuver(maneuver: any): Maneuver {
+  return {
+    type: mapManeuverType(maneuver.type),
+    modifier: MANEUVER_MODIFIERS[maneuver.type],
+    bearing: maneuver.bearing_after,
+    exit: maneuver.roundabout_exit_count,
+    roadName: maneuver.street_names?.[0],
+  };
+}
+
+function parseValhallaTrip(trip: any): RouteResult {
+  const coordinates: LatLng[] = [];
+  const legs: RouteLeg[] = [];
+  let tollDistance = 0;
+
+  for (const leg of trip.legs) {
+    const shape = decodePolyline(leg.shape, 6);
+    // Consecutive legs share their boundary point
+    coordinates.push(...(coordinates.length > 0 ? shape.slice(1) : shape));
+
+    const instructions: RouteInstruction[] = (leg.maneuvers || []).map((maneuver: any) => {
+      if (maneuver.toll) {
+        tollDistance += maneuver.length * 1000;
+      }
+      return {
+        distance: maneuver.length * 1000,
+        duration: maneuver.time,
+        instruction: maneuver.instruction,
+        name: maneuver.street_names?.[0] || 'Unnamed road',
+        type: mapManeuverType(maneuver.type),
+        maneuver: valhallaManeuver(maneuver),
+      };
+    });
+
+    legs.push({
+      distance: leg.summary.length * 1000,
+      duration: leg.summary.time,
+      instructions,
+    });
+  }
+
+  return {
+    coordinates,
+    distance: trip.summary.length * 1000, // km to meters
+    duration: trip.summary.time, // in seconds
+    instructions: legs.flatMap((leg) => leg.instructions),
+    legs,
+    tollDistance,
+  };
+}
+
+export function createValhallaRouter({ baseUrl, userAgent }: ValhallaOptions): Router {
+  return {
+    name: 'valhalla',
+
+    async route(waypoints: LatLng[], mode: TransportMode, options: RouteOptions = {}) {
+      try {
+        const costing = mapToValhallaCosting(mode);
+        const { costingOptions, applied } = valhallaCostingOptions(costing, options.preferences);
+        const response = await fetch(`${baseUrl}/route`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': userAgent,
+          },
+          body: JSON.stringify({
+            locations: waypoints.map(([lat, lon]) => ({ lat, lon })),
+            costing,
+            costing_options: costingOptions,
+            directions_options: { units: 'kilometers' },
+            ...(options.alternatives ? { alternates: options.alternatives } : {}),
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('Valhalla API error:', response.status, error);
+          return null;
+        }
+
+        const data = await response.json();
+        const trip = data.trip;
+
+        if (!trip || trip.status !== 0 || !trip.legs || trip.legs.length === 0) {
+          console.error('No routes found in Valhalla response:', trip?.status_message);
+          return null;
+        }
+
+        const primary = { ...parseValhallaTrip(trip), appliedPreferences: applied };
+        if (!options.alternatives) return primary;
+
+        const alternatives: RouteResult[] = (data.alternates || [])
+          .filter((alternate: any) => alternate.trip?.status === 0)
+          .map((alternate: any) => ({ ...parseValhallaTrip(alternate.trip), appliedPreferences: applied }));
+        return { ...primary, alternatives };
+      } catch (error) {
+        console.error('Valhalla route error:', error);
+        return null;
+      }
+    },
+
+    async matrix(points: LatLng[], mode: TransportMode) {
+      try {
+        const locations = points.map(([lat, lon]) => ({ lat, lon }));
+        const response = await fetch(`${baseUrl}/sources_to_targets`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': userAgent,
+          },
+          body: JSON.stringify({
+            sources: locations,
+            targets: locations,
+            costing: mapToValhallaCosting(mode),
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('Valhalla matrix API error:', response.status, error);
+          return null;
+        }
+
+        const data = await response.json();
+
+        if (!data.sources_to_targets) {
+          console.error('No matrix in Valhalla response');
+          return null;
+        }
+
+        const matrix: TravelMatrix = {
+          durations: data.sources_to_targets.map((row: any[]) =>
+            row.map((cell) => (cell.time === null ? Infinity : cell.time))
+          ),
+          distances: data.sources_to_targets.map((row: any[]) =>
+            row.map((cell) => (cell.distance === null ? Infinity : cell.distance * 1000))
+          ),
+        };
+        return matrix;
+      } catch (error) {
+        console.error('Valhalla matrix error:', error);
+        return null;
+      }
+    },
+
+    async isochrone(origin: LatLng, mode: TransportMode, minutes: number[]) {
+      try {
+        const [lat, lon] = origin;
+        const response = await fetch(`${baseUrl}/isochrone`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': userAgent,
+          },
+          body: JSON.stringify({
+            locations: [{ lat, lon }],
+            costing: mapToValhallaCosting(mode),
+            contours: minutes.map((time) => ({ time })),
+            polygons: true,
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('Valhalla isochrone API error:', response.status, error);
+          return null;
+        }
+
+        const data = await response.json();
+
+        if (!Array.isArray(data.features)) {
+          console.error('No isochrone in Valhalla response');
+          return null;
+        }
+
+        // Valhalla answers in GeoJSON already; a multipolygon keeps its main area
+        const features: IsochroneFeature[] = data.features
+          .filter((feature: any) => feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon')
+          .map((feature: any) => ({
+            type: 'Feature',
+            properties: { minutes: feature.properties.contour },
+            geometry: {
+              type: 'Polygon',
+              coordinates: feature.geometry.type === 'Polygon' ? feature.geometry.coordinates : feature.geometry.coordinates[0],
+            },
+          }));
+        return isochroneCollection(features);
+      } catch (error) {
+        console.error('Valhalla isochrone error:', error);
+        return null;
+      }
+    },
+  };
+}
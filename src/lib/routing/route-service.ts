@@ -0,0 +1,64 @@
+import type { OptimizationMode, RouteResult, TransportMode } from '@/lib/routing/types';
+import { estimateCost, type CostBreakdown, type CostOptions } from '@/lib/cost/model';
+
+export interface RankedRoute {
+  route: RouteResult;
+  cost: number;
+  costBreakdown: CostBreakdown;
+  rank: number; // 1 is the chosen route
+}
+
+// Number of alternatives requested from the router when ranking routes
+export const ROUTE_ALTERNATIVES = 2;
+
+// Price a single-mode route; the pricing region comes from its first point
+export function estimateRouteCost(
+  route: Pick<RouteResult, 'coordinates' | 'distance' | 'tollDistance'>,
+  mode: TransportMode,
+  options: Omit<CostOptions, 'origin'> = {}
+): CostBreakdown {
+  return estimateCost(
+    [{ mode, distance: route.distance, tollDistance: route.tollDistance }],
+    { ...options, origin: route.coordinates[0] || null }
+  );
+}
+
+// Order the primary route and its alternatives by the metric the user optimizes for.
+// Ties fall back to duration, then distance, so the ranking is stable.
+export function rankRoutes(
+  candidates: RouteResult[],
+  mode: TransportMode,
+  optimizationMode: OptimizationMode,
+  costOptions: Omit<CostOptions, 'origin'> = {}
+): RankedRoute[] {
+  const scored = candidates.map((route) => {
+    const costBreakdown = estimateRouteCost(route, mode, costOptions);
+    return { route, cost: costBreakdown.total, costBreakdown };
+  });
+
+  const metric = (entry: { route: RouteResult; cost: number }): number => {
+    switch (optimizationMode) {
+      case 'shortest':
+        return entry.route.distance;
+      case 'cheapest':
+        return entry.cost;
+      case 'fastest':
+      default:
+        return entry.route.duration;
+    }
+  };
+
+  return scored
+    .sort((a, b) =>
+      metric(a) - metric(b) ||
+      a.route.duration - b.route.duration ||
+      a.route.distance - b.route.distance
+    )
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+// Flatten a router result into the primary route followed by its alternatives
+export function routeCandidates(route: RouteResult): RouteResult[] {
+  const { alternatives = [], ...primary } = route;
+  return [primary, ...alternatives];
+}
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compactRouteData, encodeRouteGeometry, expandRouteData } from '@/lib/routing/route-storage';
+import type { LatLng } from '@/lib/routing/types';
+
+const ROUTE: LatLng[] = [[52.0, 4.0], [52.05, 4.05], [52.1, 4.1]];
+const DETOUR: LatLng[] = [[52.0, 4.0], [52.2, 4.0], [52.1, 4.1]];
+
+const routeData = [{
+  coordinates: ROUTE,
+  distance: 13,
+  stops: [{ name: 'Home', coordinates: ROUTE[0] }],
+  alternatives: [{ rank: 1, coordinates: ROUTE }, { rank: 2, coordinates: DETOUR }],
+}];
+
+describe('compactRouteData', () => {
+  it('leaves out lines that are the trip geometry and encodes the rest', () => {
+    const stored = JSON.stringify(compactRouteData(routeData, ROUTE));
+    assert.equal(stored.split('"sharedGeometry":true').length - 1, 2);
+    assert.equal(stored.split('"polyline"').length - 1, 1);
+    // Single points are not lines
+    assert.ok(stored.includes('"coordinates":[52,4]'));
+  });
+
+  it('encodes every line without a trip geometry', () => {
+    const stored = JSON.stringify(compactRouteData(routeData));
+    assert.ok(!stored.includes('sharedGeometry'));
+    assert.equal(stored.split('"polyline"').length - 1, 3);
+  });
+});
+
+describe('expandRouteData', () => {
+  it('restores shared lines from the stored geometry', () => {
+    const stored = compactRouteData(routeData, ROUTE);
+    assert.deepEqual(expandRouteData(stored, 'full', encodeRouteGeometry(ROUTE)), routeData);
+    // Trips saved with the geometry as a JSON array
+    assert.deepEqual(expandRouteData(stored, 'full', JSON.stringify(ROUTE)), routeData);
+  });
+
+  it('leaves every line out for no detail', () => {
+    const [route] = expandRouteData(compactRouteData(routeData, ROUTE), 'none', encodeRouteGeometry(ROUTE)) as Record<string, unknown>[];
+    assert.ok(!('coordinates' in route));
+    assert.deepEqual(route.alternatives, [{ rank: 1 }, { rank: 2 }]);
+  });
+});
@@ -0,0 +1,106 @@
+import type { LatLng } from '@/lib/routing/types';
+import { isLatLng } from '@/lib/routing/geo';
+import { decodePolyline, encodePolyline, simplifyPolyline } from '@/lib/routing/polyline';
+
+// Trip routes are stored as encoded polylines rather than JSON coordinate
+// arrays, which is several times smaller. Trips saved before the switch still
+// hold JSON arrays; every reader here accepts both, so they need no migration.
+
+// ~1 m, the precision OSRM and GraphHopper use themselves
+const STORAGE_PRECISION = 5;
+
+// How much geometry a response carries: lists omit it unless asked, and can
+// ask for a simplified line that is plenty for a thumbnail map
+export type GeometryDetail = 'none' | 'simplified' | 'full';
+export const GEOMETRY_DETAILS: GeometryDetail[] = ['none', 'simplified', 'full'];
+
+const SIMPLIFY_TOLERANCE_METERS = 50;
+
+function isCoordinateList(value: unknown): value is LatLng[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isLatLng);
+}
+
+function withDetail(coordinates: LatLng[], detail: GeometryDetail): LatLng[] {
+  return detail === 'simplified' ? simplifyPolyline(coordinates, SIMPLIFY_TOLERANCE_METERS) : coordinates;
+}
+
+export function encodeRouteGeometry(coordinates: LatLng[] | null): string | null {
+  return coordinates && coordinates.length > 0 ? encodePolyline(coordinates, STORAGE_PRECISION) : null;
+}
+
+// A stored trips.route_geometry value, encoded or legacy JSON, as coordinates
+export function decodeRouteGeometry(stored: unknown, detail: GeometryDetail = 'full'): LatLng[] | null {
+  if (detail === 'none' || !stored) return null;
+
+  let coordinates: unknown = stored;
+  if (typeof stored === 'string') {
+    if (stored.startsWith('[[')) {
+      try {
+        coordinates = JSON.parse(stored);
+      } catch {
+        return null;
+      }
+    } else {
+      coordinates = decodePolyline(stored, STORAGE_PRECISION);
+    }
+  }
+  return isCoordinateList(coordinates) ? withDetail(coordinates, detail) : null;
+}
+
+// Marks where a line was left out of route data because it is the trip's
+// route_geometry, which is stored already
+const SHARED_GEOMETRY_KEY = 'sharedGeometry';
+
+// Replace every coordinate list in route data (routes, legs, alternatives,
+// transit legs) with its encoded polyline, for storage, or with a marker when
+// it is the trip's own `geometry`. Single points such as stop coordinates are
+// kept as they are.
+export function compactRouteData(value: unknown, geometry: LatLng[] | null = null): unknown {
+  return compact(value, encodeRouteGeometry(geometry));
+}
+
+function compact(value: unknown, shared: string | null): unknown {
+  if (Array.isArray(value)) return value.map((item) => compact(item, shared));
+  if (!value || typeof value !== 'object') return value;
+
+  const compacted: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'coordinates' && isCoordinateList(child)) {
+      const polyline = encodePolyline(child, STORAGE_PRECISION);
+      if (polyline === shared) compacted[SHARED_GEOMETRY_KEY] = true;
+      else compacted.polyline = polyline;
+    } else {
+      compacted[key] = compact(child, shared);
+    }
+  }
+  return compacted;
+}
+
+// Stored route data with its polylines decoded back to coordinate lists, or
+// left out entirely for 'none'. Lines shared with the trip are restored from
+// its stored route_geometry.
+export function expandRouteData(value: unknown, detail: GeometryDetail = 'full', storedGeometry: unknown = null): unknown {
+  let shared: LatLng[] | null | undefined;
+  const sharedLine = () => (shared === undefined ? (shared = decodeRouteGeometry(storedGeometry, detail)) : shared);
+  return expand(value, detail, sharedLine);
+}
+
+function expand(value: unknown, detail: GeometryDetail, sharedLine: () => LatLng[] | null): unknown {
+  if (Array.isArray(value)) return value.map((item) => expand(item, detail, sharedLine));
+  if (!value || typeof value !== 'object') return value;
+
+  const expanded: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'polyline' && typeof child === 'string') {
+      if (detail !== 'none') expanded.coordinates = withDetail(decodePolyline(child, STORAGE_PRECISION), detail);
+    } else if (key === SHARED_GEOMETRY_KEY && child === true) {
+      const line = detail !== 'none' ? sharedLine() : null;
+      if (line) expanded.coordinates = line;
+    } else if (key === 'coordinates' && isCoordinateList(child)) {
+      if (detail !== 'none') expanded.coordinates = withDetail(child, detail);
+    } else {
+      expanded[key] = expand(child, detail, sharedLine);
+    }
+  }
+  return expanded;
+}
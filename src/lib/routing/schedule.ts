@@ -0,0 +1,183 @@
+import type { TimeMode, TransportMode } from '@/lib/routing/types';
+
+// Trip times are naive local wall-clock times ("YYYY-MM-DD" + "HH:MM") with no
+// time zone. Internally they are counted in seconds as if they were UTC, which
+// keeps date arithmetic exact across midnight and month ends.
+
+export const TIME_MODES: TimeMode[] = ['depart_at', 'arrive_by'];
+
+// Multipliers on free-flow car travel time for each hour of the day
+const WEEKDAY_TRAFFIC = [
+  0.85, 0.85, 0.85, 0.85, 0.85, 0.9, 1.0, 1.3, 1.4, 1.2, 1.05, 1.05,
+  1.1, 1.05, 1.05, 1.15, 1.35, 1.45, 1.3, 1.1, 0.95, 0.95, 0.9, 0.9,
+];
+const WEEKEND_TRAFFIC = [
+  0.85, 0.85, 0.85, 0.85, 0.85, 0.85, 0.85, 0.9, 0.95, 1.0, 1.05, 1.1,
+  1.15, 1.15, 1.1, 1.1, 1.1, 1.1, 1.05, 1.0, 0.95, 0.95, 0.9, 0.9,
+];
+
+// Fixed-point passes when solving for an arrive-by departure
+const ARRIVE_BY_ITERATIONS = 5;
+
+export interface ScheduleStop {
+  name: string;
+  // "YYYY-MM-DDTHH:MM"; the first stop has no arrival, the last no departure
+  arrival?: string;
+  departure?: string;
+}
+
+export interface TripSchedule {
+  timeMode: TimeMode;
+  departure: string;
+  arrival: string;
+  stops: ScheduleStop[];
+}
+
+// A leg whose duration is free-flow and gets the time-of-day profile applied
+export interface ScheduleLeg {
+  from: string;
+  to: string;
+  mode: TransportMode;
+  duration: number; // seconds
+}
+
+// A leg with known clock times, in local seconds
+export interface TimedLeg {
+  from: string;
+  to: string;
+  departureTime: number;
+  arrivalTime: number;
+}
+
+export function parseLocalTime(date: string, time: string): number | null {
+  const parsed = new Date(`${date}T${time}:00Z`).getTime();
+  return isNaN(parsed) ? null : parsed / 1000;
+}
+
+// Rounded to the nearest minute
+export function formatLocalTime(seconds: number): string {
+  return new Date(Math.round(seconds / 60) * 60000).toISOString().slice(0, 16);
+}
+
+// Midnight at the start of a local date, in local seconds
+export function localMidnight(date: string): number | null {
+  return parseLocalTime(date, '00:00');
+}
+
+// Traffic multiplier for a mode at a local time; only cars sit in traffic
+export function trafficFactor(mode: TransportMode, at: number): number {
+  if (mode !== 'car') return 1;
+  const date = new Date(at * 1000);
+  const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+  return (weekend ? WEEKEND_TRAFFIC : WEEKDAY_TRAFFIC)[date.getUTCHours()];
+}
+
+// Time to cover `duration` seconds of free-flow travel leaving at `start`,
+// integrating the hourly profile so a drive into rush hour slows down part way
+export function travelTimeAt(mode: TransportMode, duration: number, start: number): number {
+  let clock = start;
+  let remaining = duration;
+  while (remaining > 0) {
+    const factor = trafficFactor(mode, clock);
+    const nextHour = (Math.floor(clock / 3600) + 1) * 3600;
+    const covered = Math.min(remaining, (nextHour - clock) / factor);
+    clock += covered * factor;
+    remaining -= covered;
+  }
+  return clock - start;
+}
+
+// Clock times for each leg when leaving at `departure`
+export function timeLegs(legs: ScheduleLeg[], departure: number): TimedLeg[] {
+  let clock = departure;
+  return legs.map((leg) => {
+    const departureTime = clock;
+    clock += travelTimeAt(leg.mode, leg.duration, clock);
+    return { from: leg.from, to: leg.to, departureTime, arrivalTime: clock };
+  });
+}
+
+// Departure, on the minute, that arrives by `arriveBy`. Leaving later never
+// arrives earlier, so repeatedly shifting the departure by the miss converges.
+export function departureForArrival(legs: ScheduleLeg[], arriveBy: number): number {
+  let departure = arriveBy - legs.reduce((sum, leg) => sum + leg.duration, 0);
+  for (let i = 0; i < ARRIVE_BY_ITERATIONS; i++) {
+    const timed = timeLegs(legs, departure);
+    const arrival = timed.length > 0 ? timed[timed.length - 1].arrivalTime : departure;
+    if (Math.abs(arrival - arriveBy) < 30) break;
+    departure += arriveBy - arrival;
+  }
+  return Math.floor(departure / 60) * 60;
+}
+
+// Latest departure minute in [earliest, arriveBy] whose journey arrives by
+// `arriveBy`, found by bisection. `plan` returns null when nothing runs; like
+// timetables and road travel it must never arrive earlier for a later start.
+export async function latestDeparture<T extends { arrivalTime: number }>(
+  earliest: number,
+  arriveBy: number,
+  plan: (departure: number) => Promise<T | null>
+): Promise<T | null> {
+  let low = Math.ceil(earliest / 60);
+  let high = Math.floor(arriveBy / 60);
+  if (low > high) return null;
+
+  let best = await plan(low * 60);
+  if (!best || best.arrivalTime > arriveBy) return null;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    const result = await plan(middle * 60);
+    if (result && result.arrivalTime <= arriveBy) {
+      low = middle;
+      best = result;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return best;
+}
+
+// Stop-by-stop schedule from timed legs. Origin and destination names replace
+// the planners' generic "Origin"/"Destination" labels when given.
+export function buildSchedule(
+  timeMode: TimeMode,
+  legs: TimedLeg[],
+  names: { origin?: string; destination?: string } = {}
+): TripSchedule | null {
+  if (legs.length === 0) return null;
+
+  const stops: ScheduleStop[] = [
+    { name: names.origin || legs[0].from, departure: formatLocalTime(legs[0].departureTime) },
+  ];
+  legs.forEach((leg, index) => {
+    const next = legs[index + 1];
+    stops.push({
+      name: !next && names.destination ? names.destination : leg.to,
+      arrival: formatLocalTime(leg.arrivalTime),
+      departure: next ? formatLocalTime(next.departureTime) : undefined,
+    });
+  });
+
+  return {
+    timeMode,
+    departure: formatLocalTime(legs[0].departureTime),
+    arrival: formatLocalTime(legs[legs.length - 1].arrivalTime),
+    stops,
+  };
+}
+
+// Schedule for legs timed from the trip's requested date and time, either
+// leaving then or arriving by then
+export function scheduleLegs(
+  legs: ScheduleLeg[],
+  travelDate: string,
+  travelTime: string,
+  timeMode: TimeMode,
+  names?: { origin?: string; destination?: string }
+): TripSchedule | null {
+  const requested = parseLocalTime(travelDate, travelTime);
+  if (requested === null) return null;
+  const departure = timeMode === 'arrive_by' ? departureForArrival(legs, requested) : requested;
+  return buildSchedule(timeMode, timeLegs(legs, departure), names);
+}
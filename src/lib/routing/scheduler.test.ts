@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequestScheduler, DroppedRequestError } from '@/lib/routing/scheduler';
+
+// Records the order tasks actually ran in
+function recorder() {
+  const ran: string[] = [];
+  const task = (name: string) => async () => {
+    ran.push(name);
+    return name;
+  };
+  return { ran, task };
+}
+
+const dropped = (reason: DroppedRequestError['reason']) => (error: unknown) =>
+  error instanceof DroppedRequestError && error.reason === reason;
+
+describe('createRequestScheduler', () => {
+  it('spaces requests apart', async () => {
+    const scheduler = createRequestScheduler(30);
+    const starts: number[] = [];
+    const task = async () => { starts.push(Date.now()); };
+    await Promise.all([scheduler.run('a', task), scheduler.run('b', task), scheduler.run('c', task)]);
+    assert.equal(starts.length, 3);
+    assert.ok(starts[1] - starts[0] >= 25 && starts[2] - starts[1] >= 25, JSON.stringify(starts));
+  });
+
+  it('runs concurrent calls for the same key once', async () => {
+    const scheduler = createRequestScheduler(0);
+    const { ran, task } = recorder();
+    const results = await Promise.all([scheduler.run('a', task('first')), scheduler.run('a', task('second'))]);
+    assert.deepEqual(results, ['first', 'first']);
+    assert.deepEqual(ran, ['first']);
+  });
+
+  it('drops a queued task once its caller has gone away', async () => {
+    const scheduler = createRequestScheduler(20);
+    const { ran, task } = recorder();
+    const controller = new AbortController();
+    const first = scheduler.run('a', task('a'));
+    const stale = scheduler.run('b', task('b'), controller.signal);
+    controller.abort();
+
+    await first;
+    await assert.rejects(stale, dropped('aborted'));
+    assert.deepEqual(ran, ['a']);
+  });
+
+  it('still runs a shared task while one of its callers waits', async () => {
+    const scheduler = createRequestScheduler(20);
+    const { ran, task } = recorder();
+    const gone = new AbortController();
+    void scheduler.run('a', task('a'));
+    const abandoned = scheduler.run('b', task('b'), gone.signal);
+    const waiting = scheduler.run('b', task('b'), new AbortController().signal);
+    gone.abort();
+
+    assert.equal(await waiting, 'b');
+    assert.equal(await abandoned, 'b');
+    assert.deepEqual(ran, ['a', 'b']);
+  });
+
+  it('drops the oldest waiting task when the queue is full', async () => {
+    const scheduler = createRequestScheduler(20, { maxQueued: 1 });
+    const { ran, task } = recorder();
+    // The first task leaves the queue as it starts, so only the next two wait
+    const first = scheduler.run('a', task('a'));
+    const older = scheduler.run('b', task('b'));
+    const newer = scheduler.run('c', task('c'));
+
+    await first;
+    await assert.rejects(older, dropped('overflow'));
+    assert.equal(await newer, 'c');
+    assert.deepEqual(ran, ['a', 'c']);
+  });
+});
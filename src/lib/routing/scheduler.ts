@@ -0,0 +1,119 @@
+// Serializes upstream requests so they are spaced at least `minIntervalMs`
+// apart, and collapses concurrent calls for the same key into one request.
+export interface RequestScheduler {
+  // A task whose callers have all aborted `signal` is dropped rather than run
+  run<T>(key: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+export interface SchedulerOptions {
+  // Most tasks waiting at once; the oldest is dropped to make room. Unbounded
+  // when unset, for work that must not be lost.
+  maxQueued?: number;
+}
+
+// Why a queued task was never run
+export class DroppedRequestError extends Error {
+  constructor(public reason: 'aborted' | 'overflow') {
+    super(reason === 'aborted' ? 'Request aborted before it was sent' : 'Request dropped for newer requests');
+    this.name = 'DroppedRequestError';
+  }
+}
+
+interface Job {
+  key: string;
+  task: () => Promise<unknown>;
+  // Null once any caller is waiting without a signal
+  signals: AbortSignal[] | null;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+export function createRequestScheduler(minIntervalMs: number, { maxQueued }: SchedulerOptions = {}): RequestScheduler {
+  const inFlight = new Map<string, { job: Job; promise: Promise<unknown> }>();
+  const queue: Job[] = [];
+  let draining = false;
+  let lastStartedAt = 0;
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  const abandoned = (job: Job) => job.signals !== null && job.signals.every((signal) => signal.aborted);
+  const settle = (job: Job) => inFlight.delete(job.key);
+
+  const drain = async () => {
+    if (draining) return;
+    draining = true;
+    while (queue.length > 0) {
+      const job = queue.shift()!;
+      // Skipped without spending an interval
+      if (abandoned(job)) {
+        settle(job);
+        job.reject(new DroppedRequestError('aborted'));
+        continue;
+      }
+
+      const delay = lastStartedAt + minIntervalMs - Date.now();
+      if (delay > 0) await wait(delay);
+      if (abandoned(job)) {
+        settle(job);
+        job.reject(new DroppedRequestError('aborted'));
+        continue;
+      }
+
+      lastStartedAt = Date.now();
+      try {
+        job.resolve(await job.task());
+      } catch (error) {
+        job.reject(error);
+      } finally {
+        settle(job);
+      }
+    }
+    draining = false;
+  };
+
+  return {
+    run<T>(key: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      if (signal?.aborted) return Promise.reject(new DroppedRequestError('aborted'));
+
+      const pending = inFlight.get(key);
+      if (pending) {
+        if (!signal) pending.job.signals = null;
+        else pending.job.signals?.push(signal);
+        return pending.promise as Promise<T>;
+      }
+
+      let job!: Job;
+      const promise = new Promise<unknown>((resolve, reject) => {
+        job = { key, task, signals: signal ? [signal] : null, resolve, reject };
+      });
+      inFlight.set(key, { job, promise });
+
+      if (maxQueued !== undefined && queue.length >= maxQueued) {
+        const oldest = queue.shift()!;
+        settle(oldest);
+        oldest.reject(new DroppedRequestError('overflow'));
+      }
+      queue.push(job);
+      void drain();
+
+      return promise as Promise<T>;
+    },
+  };
+}
+
+const globalForSchedulers = globalThis as unknown as {
+  routingSchedulers?: Map<string, RequestScheduler>;
+};
+
+// Process-wide scheduler per upstream host and purpose, shared by every route
+// handler. The options of the first call for a name stand.
+export function getSharedScheduler(name: string, minIntervalMs: number, options: SchedulerOptions = {}): RequestScheduler {
+  if (!globalForSchedulers.routingSchedulers) {
+    globalForSchedulers.routingSchedulers = new Map();
+  }
+  let scheduler = globalForSchedulers.routingSchedulers.get(name);
+  if (!scheduler) {
+    scheduler = createRequestScheduler(minIntervalMs, options);
+    globalForSchedulers.routingSchedulers.set(name, scheduler);
+  }
+  return scheduler;
+}
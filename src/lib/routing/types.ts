@@ -0,0 +1,149 @@
+// Coordinates are always [lat, lon] inside the app (Leaflet order).
+// Providers convert to whatever order their upstream API expects.
+export type LatLng = [number, number];
+
+export type TransportMode = 'car' | 'cycling' | 'walking' | 'bus' | 'train' | 'flight';
+// What a trip is planned with: one transport mode, or a mix chosen leg by leg
+export type TripMode = TransportMode | 'multimodal';
+export type OptimizationMode = 'shortest' | 'cheapest' | 'fastest';
+// Whether a trip's travel time is when it leaves or when it must arrive
+export type TimeMode = 'depart_at' | 'arrive_by';
+
+export interface GeocodeResult {
+  coordinates: LatLng;
+  displayName: string;
+  // [south, north, west, east], as returned by Nominatim
+  boundingBox: [number, number, number, number] | null;
+}
+
+// A type-ahead candidate; importance is the provider's relevance, 0..1
+export interface GeocodeSuggestion extends GeocodeResult {
+  importance: number;
+}
+
+// Lookups made while a user waits, e.g. type-ahead or naming a map click,
+// pass their request's signal. They are queued apart from trip geocoding and
+// dropped if the user has gone by the time their turn comes.
+export interface LookupOptions {
+  signal?: AbortSignal;
+}
+
+export interface SuggestOptions extends LookupOptions {
+  limit?: number;
+  // Point to bias candidates towards, e.g. the user's usual area
+  near?: LatLng | null;
+}
+
+export interface Geocoder {
+  name: string;
+  geocode(query: string): Promise<GeocodeResult | null>;
+  suggest(query: string, options?: SuggestOptions): Promise<GeocodeSuggestion[]>;
+  reverse(point: LatLng, options?: LookupOptions): Promise<GeocodeResult | null>;
+}
+
+// What a step asks the traveller to do, independent of language; rendered
+// into text by the instructions module
+export interface Maneuver {
+  // OSRM-style maneuver (depart, turn, fork, roundabout, arrive, ...), or
+  // walk, cycle, drive, travel, board, alight or flight for journey steps
+  type: string;
+  // left, slight right, straight, uturn, ...
+  modifier?: string;
+  // Degrees clockwise from north when setting off
+  bearing?: number;
+  // Roundabout exit number
+  exit?: number;
+  roadName?: string;
+  // Stops, stations or airports a journey step runs between
+  from?: string;
+  to?: string;
+  // Transit line name, and whether it is a bus service
+  line?: string;
+  vehicle?: 'bus' | 'train';
+  headsign?: string;
+  // Stops ridden before getting off
+  stops?: number;
+}
+
+export interface RouteInstruction {
+  distance: number;
+  duration: number;
+  // English text; render maneuver for other languages
+  instruction: string;
+  name: string;
+  type: string;
+  maneuver?: Maneuver;
+}
+
+// One leg between two consecutive waypoints
+export interface RouteLeg {
+  distance: number; // in meters
+  duration: number; // in seconds
+  instructions: RouteInstruction[];
+}
+
+// Routing constraints the user can ask for; providers apply what they support
+export interface RoutePreferences {
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+  avoidFerries?: boolean;
+  // Cycling: favor bike lanes and quiet streets over the most direct path
+  preferBikeLanes?: boolean;
+  // Longest acceptable walk in meters, for walking trips and walks to transit
+  maxWalkingDistance?: number;
+}
+
+export type RoutePreference = keyof RoutePreferences;
+
+export interface RouteResult {
+  coordinates: LatLng[];
+  distance: number; // in meters
+  duration: number; // in seconds
+  instructions: RouteInstruction[];
+  legs: RouteLeg[];
+  tollDistance: number; // meters driven on toll roads, 0 when unknown
+  // Preferences the provider passed on to its routing engine
+  appliedPreferences?: RoutePreference[];
+  // Only populated when RouteOptions.alternatives was requested
+  alternatives?: RouteResult[];
+}
+
+export interface RouteOptions {
+  // Number of alternative routes to request in addition to the primary one
+  alternatives?: number;
+  preferences?: RoutePreferences;
+}
+
+// Pairwise travel costs; durations[i][j] is seconds from points[i] to points[j]
+export interface TravelMatrix {
+  durations: number[][];
+  distances: number[][];
+}
+
+// Area reachable from a point within `minutes`. GeoJSON, so coordinates are
+// [lon, lat]; the ring is closed.
+export interface IsochroneFeature {
+  type: 'Feature';
+  properties: { minutes: number };
+  geometry: { type: 'Polygon'; coordinates: number[][][] };
+}
+
+// One contour per time budget, largest first so smaller areas draw on top
+export interface IsochroneCollection {
+  type: 'FeatureCollection';
+  features: IsochroneFeature[];
+}
+
+export interface Router {
+  name: string;
+  // Route through all waypoints in order; returns one leg per consecutive pair
+  route(waypoints: LatLng[], mode: TransportMode, options?: RouteOptions): Promise<RouteResult | null>;
+  matrix(points: LatLng[], mode: TransportMode): Promise<TravelMatrix | null>;
+  // Reachability contours for each time budget in minutes
+  isochrone(origin: LatLng, mode: TransportMode, minutes: number[]): Promise<IsochroneCollection | null>;
+}
+
+export interface RoutingProvider {
+  geocoder: Geocoder;
+  router: Router;
+}
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { connectionScan, type Connection, type ScanInput } from '@/lib/transit/csa';
+
+const ride = (tripKey: string, departureStop: string, arrivalStop: string, departureTime: number, arrivalTime: number): Connection =>
+  ({ tripKey, departureStop, arrivalStop, departureTime, arrivalTime });
+
+const scan = (connections: Connection[], overrides: Partial<ScanInput> = {}) =>
+  connectionScan({
+    connections: [...connections].sort((a, b) => a.departureTime - b.departureTime),
+    footpaths: new Map(),
+    access: new Map([['A', 60]]),
+    egress: new Map([['C', 60]]),
+    departureTime: 1000,
+    minTransferTime: 120,
+    ...overrides,
+  });
+
+describe('connectionScan', () => {
+  it('stays on board through intermediate stops', () => {
+    const result = scan([ride('t1', 'A', 'B', 1100, 1200), ride('t1', 'B', 'C', 1210, 1300)])!;
+    assert.equal(result.arrivalTime, 1360);
+    assert.deepEqual(result.steps.map((step) => step.kind), ['access', 'ride', 'egress']);
+    const [, board] = result.steps;
+    assert.equal(board.kind === 'ride' && board.connections.length, 2);
+  });
+
+  it('leaves time to change vehicles', () => {
+    const connections = [
+      ride('t1', 'A', 'B', 1100, 1200),
+      ride('t2', 'B', 'C', 1250, 1300), // only 50 s after arriving at B
+      ride('t3', 'B', 'C', 1400, 1500),
+    ];
+    assert.equal(scan(connections)!.arrivalTime, 1560);
+    assert.equal(scan(connections, { minTransferTime: 0 })!.arrivalTime, 1360);
+  });
+
+  it('walks between nearby stops', () => {
+    const result = scan(
+      [ride('t1', 'A', 'B', 1100, 1200), ride('t2', 'B2', 'C', 1400, 1500)],
+      { footpaths: new Map([['B', [{ to: 'B2', duration: 100 }]]]) }
+    )!;
+    assert.deepEqual(result.steps.map((step) => step.kind), ['access', 'ride', 'walk', 'ride', 'egress']);
+  });
+
+  it('misses connections before the departure or the walk to the stop', () => {
+    assert.equal(scan([ride('t1', 'A', 'C', 1030, 1200)]), null);
+    assert.equal(scan([ride('t1', 'A', 'C', 900, 1200)]), null);
+  });
+});
@@ -0,0 +1,141 @@
+// Earliest-arrival Connection Scan Algorithm (Dibbelt et al.) over an
+// in-memory timetable. Pure and synchronous: loading the timetable from the
+// database is the planner's job.
+
+export interface Connection {
+  tripKey: string;
+  departureStop: string;
+  arrivalStop: string;
+  departureTime: number; // seconds after midnight
+  arrivalTime: number;
+}
+
+export interface Footpath {
+  to: string;
+  duration: number; // seconds
+}
+
+export interface ScanInput {
+  // Sorted by departureTime
+  connections: Connection[];
+  footpaths: Map<string, Footpath[]>;
+  // Walking time from the origin to each nearby stop
+  access: Map<string, number>;
+  // Walking time from each stop near the destination to the destination
+  egress: Map<string, number>;
+  departureTime: number;
+  // Minimum time to change between two vehicles at the same stop
+  minTransferTime: number;
+}
+
+export type JourneyStep =
+  | { kind: 'access'; stop: string; duration: number }
+  | { kind: 'ride'; board: Connection; alight: Connection; connections: Connection[] }
+  | { kind: 'walk'; from: string; to: string; duration: number }
+  | { kind: 'egress'; stop: string; duration: number };
+
+export interface ScanResult {
+  arrivalTime: number;
+  steps: JourneyStep[];
+}
+
+type Label =
+  | { time: number; via: 'access'; duration: number }
+  | { time: number; via: 'ride'; board: number; alight: number }
+  | { time: number; via: 'walk'; from: string; duration: number };
+
+export function connectionScan(input: ScanInput): ScanResult | null {
+  const { connections, footpaths, access, egress, departureTime, minTransferTime } = input;
+  const labels = new Map<string, Label>();
+  const boardedAt = new Map<string, number>();
+
+  const improve = (stop: string, label: Label) => {
+    const current = labels.get(stop);
+    if (!current || label.time < current.time) {
+      labels.set(stop, label);
+      return true;
+    }
+    return false;
+  };
+
+  for (const [stop, duration] of access) {
+    improve(stop, { time: departureTime + duration, via: 'access', duration });
+  }
+
+  // Nothing after the best reachable arrival can improve the result
+  let bestArrival = Infinity;
+
+  for (let i = 0; i < connections.length; i++) {
+    const connection = connections[i];
+    if (connection.departureTime < departureTime) continue;
+    if (connection.departureTime >= bestArrival) break;
+
+    if (!boardedAt.has(connection.tripKey)) {
+      const label = labels.get(connection.departureStop);
+      if (!label) continue;
+      const readyAt = label.time + (label.via === 'ride' ? minTransferTime : 0);
+      if (readyAt > connection.departureTime) continue;
+      boardedAt.set(connection.tripKey, i);
+    }
+
+    const arrival = connection.arrivalTime;
+    if (improve(connection.arrivalStop, { time: arrival, via: 'ride', board: boardedAt.get(connection.tripKey)!, alight: i })) {
+      for (const footpath of footpaths.get(connection.arrivalStop) || []) {
+        improve(footpath.to, {
+          time: arrival + footpath.duration,
+          via: 'walk',
+          from: connection.arrivalStop,
+          duration: footpath.duration,
+        });
+      }
+
+      const egressDuration = egress.get(connection.arrivalStop);
+      if (egressDuration !== undefined) {
+        bestArrival = Math.min(bestArrival, arrival + egressDuration);
+      }
+    }
+  }
+
+  // Pick the egress stop with the earliest arrival at the destination
+  let bestStop: string | null = null;
+  let arrivalTime = Infinity;
+  for (const [stop, duration] of egress) {
+    const label = labels.get(stop);
+    if (label && label.time + duration < arrivalTime) {
+      arrivalTime = label.time + duration;
+      bestStop = stop;
+    }
+  }
+
+  if (!bestStop) return null;
+
+  const steps: JourneyStep[] = [{ kind: 'egress', stop: bestStop, duration: egress.get(bestStop)! }];
+  let stop = bestStop;
+
+  // Walk the labels back to the origin; the guard protects against cycles of
+  // zero-length footpaths
+  for (let guard = 0; guard < connections.length + labels.size + 1; guard++) {
+    const label = labels.get(stop)!;
+
+    if (label.via === 'access') {
+      steps.push({ kind: 'access', stop, duration: label.duration });
+      return { arrivalTime, steps: steps.reverse() };
+    }
+
+    if (label.via === 'walk') {
+      steps.push({ kind: 'walk', from: label.from, to: stop, duration: label.duration });
+      stop = label.from;
+      continue;
+    }
+
+    const board = connections[label.board];
+    const alight = connections[label.alight];
+    const ride = connections
+      .slice(label.board, label.alight + 1)
+      .filter((connection) => connection.tripKey === board.tripKey);
+    steps.push({ kind: 'ride', board, alight, connections: ride });
+    stop = board.departureStop;
+  }
+
+  return null;
+}
@@ -0,0 +1,69 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// The importer writes through the app database, which reads its URL on first
+// import; point it at a scratch file before loading it
+let scratch: string;
+let db: typeof import('@/db').db;
+let schema: typeof import('@/db/schema');
+let importGtfsFeed: typeof import('@/lib/transit/gtfs-import').importGtfsFeed;
+
+const FEED = {
+  'stops.txt': 'stop_id,stop_name,stop_lat,stop_lon\nA,Alpha,52.0,4.0\nB,Beta,52.01,4.01\n',
+  'routes.txt': 'route_id,route_short_name,route_long_name,route_type\nT1,1,Tram One,0\n',
+  'trips.txt': 'route_id,service_id,trip_id\nT1,S1,trip1\n',
+  'stop_times.txt': 'trip_id,arrival_time,departure_time,stop_id,stop_sequence\ntrip1,08:00:00,08:00:00,A,1\ntrip1,08:05:00,08:05:00,B,2\n',
+  'calendar_dates.txt': 'service_id,date,exception_type\nS1,20261019,1\n',
+};
+
+async function writeFeed(files: Record<string, string>): Promise<string> {
+  const directory = await mkdtemp(path.join(scratch, 'feed-'));
+  await Promise.all(Object.entries(files).map(([file, text]) => writeFile(path.join(directory, file), text)));
+  return directory;
+}
+
+describe('importGtfsFeed', () => {
+  before(async () => {
+    scratch = await mkdtemp(path.join(tmpdir(), 'gtfs-import-'));
+    process.env.TURSO_CONNECTION_URL = `file:${path.join(scratch, 'test.db')}`;
+    ({ db } = await import('@/db'));
+    schema = await import('@/db/schema');
+    ({ importGtfsFeed } = await import('@/lib/transit/gtfs-import'));
+    const { migrate } = await import('drizzle-orm/libsql/migrator');
+    await migrate(db, { migrationsFolder: 'drizzle' });
+  });
+
+  after(async () => {
+    await rm(scratch, { recursive: true, force: true });
+  });
+
+  it('imports a feed without calendar.txt and keeps tram route types', async () => {
+    const summary = await importGtfsFeed(await writeFeed(FEED), 'city');
+    assert.equal(summary.calendar, 0);
+    assert.equal(summary.calendarDates, 1);
+
+    const routes = await db.select().from(schema.gtfsRoutes);
+    assert.deepEqual(routes.map((route) => route.routeType), [0]);
+    assert.equal((await db.select().from(schema.gtfsCalendarDates)).length, 1);
+  });
+
+  it('rejects a feed without any calendar', async () => {
+    const files: Record<string, string> = { ...FEED };
+    delete files['calendar_dates.txt'];
+    await assert.rejects(importGtfsFeed(await writeFeed(files), 'other'), /calendar/);
+  });
+
+  it('keeps the previous import when a new one fails', async () => {
+    const before = await db.select().from(schema.gtfsFeeds);
+    // route_id is required, so inserting the routes fails part way through
+    const broken = { ...FEED, 'routes.txt': 'route_short_name,route_type\n1,3\n' };
+    await assert.rejects(importGtfsFeed(await writeFeed(broken), 'city'));
+
+    const feeds = await db.select().from(schema.gtfsFeeds);
+    assert.deepEqual(feeds, before);
+    assert.equal((await db.select().from(schema.gtfsRoutes)).length, 1);
+  });
+});
@@ -0,0 +1,152 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+  gtfsFeeds,
+  gtfsStops,
+  gtfsRoutes,
+  gtfsTrips,
+  gtfsStopTimes,
+  gtfsCalendar,
+  gtfsCalendarDates,
+} from '@/db/schema';
+import { parseCsv, parseGtfsTime, parseRouteType, type GtfsRecord } from '@/lib/transit/gtfs';
+
+const BATCH_SIZE = 500;
+
+export interface GtfsImportSummary {
+  feedId: number;
+  stops: number;
+  routes: number;
+  trips: number;
+  stopTimes: number;
+  calendar: number;
+  calendarDates: number;
+}
+
+async function readGtfsFile(directory: string, file: string): Promise<GtfsRecord[]> {
+  const text = await readFile(path.join(directory, file), 'utf8');
+  return parseCsv(text);
+}
+
+// Conditionally required files; null when the feed leaves it out
+async function readOptionalGtfsFile(directory: string, file: string): Promise<GtfsRecord[] | null> {
+  try {
+    return await readGtfsFile(directory, file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function insertInBatches<T>(rows: T[], insert: (batch: T[]) => Promise<unknown>): Promise<void> {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await insert(rows.slice(i, i + BATCH_SIZE));
+  }
+}
+
+// Import an extracted GTFS feed directory, replacing any feed with the same
+// name. Runs in one transaction, so a failed import leaves the previous feed.
+export async function importGtfsFeed(directory: string, name: string): Promise<GtfsImportSummary> {
+  const [stops, routes, trips, stopTimes, calendar, calendarDates] = await Promise.all([
+    readGtfsFile(directory, 'stops.txt'),
+    readGtfsFile(directory, 'routes.txt'),
+    readGtfsFile(directory, 'trips.txt'),
+    readGtfsFile(directory, 'stop_times.txt'),
+    readOptionalGtfsFile(directory, 'calendar.txt'),
+    readOptionalGtfsFile(directory, 'calendar_dates.txt'),
+  ]);
+  if (!calendar && !calendarDates) {
+    throw new Error('GTFS feed needs calendar.txt, calendar_dates.txt or both');
+  }
+
+  return db.transaction(async (tx) => {
+    // Cascading deletes remove the previous import's rows
+    await tx.delete(gtfsFeeds).where(eq(gtfsFeeds.name, name));
+
+    const [feed] = await tx.insert(gtfsFeeds)
+      .values({ name, importedAt: new Date().toISOString() })
+      .returning();
+    const feedId = feed.id;
+
+    const stopRows = stops
+      .filter((stop) => stop.stop_lat && stop.stop_lon)
+      .map((stop) => ({
+        feedId,
+        stopId: stop.stop_id,
+        name: stop.stop_name || stop.stop_id,
+        lat: parseFloat(stop.stop_lat),
+        lon: parseFloat(stop.stop_lon),
+      }));
+    await insertInBatches(stopRows, (batch) => tx.insert(gtfsStops).values(batch));
+
+    const routeRows = routes.map((route) => ({
+      feedId,
+      routeId: route.route_id,
+      shortName: route.route_short_name || null,
+      longName: route.route_long_name || null,
+      routeType: parseRouteType(route.route_type),
+    }));
+    await insertInBatches(routeRows, (batch) => tx.insert(gtfsRoutes).values(batch));
+
+    const tripRows = trips.map((trip) => ({
+      feedId,
+      tripId: trip.trip_id,
+      routeId: trip.route_id,
+      serviceId: trip.service_id,
+      headsign: trip.trip_headsign || null,
+    }));
+    await insertInBatches(tripRows, (batch) => tx.insert(gtfsTrips).values(batch));
+
+    // Stop times without explicit times (interpolated stops) are skipped
+    const stopTimeRows = [];
+    for (const stopTime of stopTimes) {
+      const arrivalTime = parseGtfsTime(stopTime.arrival_time || stopTime.departure_time || '');
+      const departureTime = parseGtfsTime(stopTime.departure_time || stopTime.arrival_time || '');
+      if (arrivalTime === null || departureTime === null) continue;
+      stopTimeRows.push({
+        feedId,
+        tripId: stopTime.trip_id,
+        stopId: stopTime.stop_id,
+        stopSequence: parseInt(stopTime.stop_sequence),
+        arrivalTime,
+        departureTime,
+      });
+    }
+    await insertInBatches(stopTimeRows, (batch) => tx.insert(gtfsStopTimes).values(batch));
+
+    const calendarRows = (calendar || []).map((service) => ({
+      feedId,
+      serviceId: service.service_id,
+      monday: service.monday === '1',
+      tuesday: service.tuesday === '1',
+      wednesday: service.wednesday === '1',
+      thursday: service.thursday === '1',
+      friday: service.friday === '1',
+      saturday: service.saturday === '1',
+      sunday: service.sunday === '1',
+      startDate: service.start_date,
+      endDate: service.end_date,
+    }));
+    await insertInBatches(calendarRows, (batch) => tx.insert(gtfsCalendar).values(batch));
+
+    const calendarDateRows = (calendarDates || []).map((exception) => ({
+      feedId,
+      serviceId: exception.service_id,
+      date: exception.date,
+      exceptionType: parseInt(exception.exception_type),
+    }));
+    await insertInBatches(calendarDateRows, (batch) => tx.insert(gtfsCalendarDates).values(batch));
+
+    return {
+      feedId,
+      stops: stopRows.length,
+      routes: routeRows.length,
+      trips: tripRows.length,
+      stopTimes: stopTimeRows.length,
+      calendar: calendarRows.length,
+      calendarDates: calendarDateRows.length,
+    };
+  });
+}
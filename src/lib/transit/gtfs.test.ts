@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  activeServices,
+  parseCsv,
+  parseGtfsTime,
+  parseRouteType,
+  previousServiceDay,
+  TRANSIT_ROUTE_TYPES,
+  type ServiceCalendar,
+} from '@/lib/transit/gtfs';
+
+describe('parseCsv', () => {
+  it('reads quoted fields, a byte order mark and CRLF line ends', () => {
+    const records = parseCsv('\uFEFFstop_id,stop_name\r\n1,"Main St, North"\r\n2,"The ""Loop"""\r\n');
+    assert.deepEqual(records, [
+      { stop_id: '1', stop_name: 'Main St, North' },
+      { stop_id: '2', stop_name: 'The "Loop"' },
+    ]);
+  });
+});
+
+describe('parseGtfsTime', () => {
+  it('allows times past midnight of the service day', () => {
+    assert.equal(parseGtfsTime('25:10:30'), 25 * 3600 + 10 * 60 + 30);
+    assert.equal(parseGtfsTime('7:05'), 7 * 3600 + 5 * 60);
+    assert.equal(parseGtfsTime(''), null);
+  });
+});
+
+describe('previousServiceDay', () => {
+  it('steps back over month and year ends', () => {
+    assert.equal(previousServiceDay('2026-10-20'), '2026-10-19');
+    assert.equal(previousServiceDay('2026-03-01'), '2026-02-28');
+    assert.equal(previousServiceDay('2027-01-01'), '2026-12-31');
+  });
+});
+
+describe('parseRouteType', () => {
+  it('keeps trams as route type 0', () => {
+    assert.equal(parseRouteType('0'), 0);
+  });
+
+  it('reads a missing or malformed type as a bus', () => {
+    assert.equal(parseRouteType(''), 3);
+    assert.equal(parseRouteType(undefined), 3);
+    assert.equal(parseRouteType('bus'), 3);
+  });
+
+  it('maps extended route types to the app modes', () => {
+    assert.ok(TRANSIT_ROUTE_TYPES.train.includes(109)); // suburban railway
+    assert.ok(TRANSIT_ROUTE_TYPES.train.includes(401)); // metro
+    assert.ok(TRANSIT_ROUTE_TYPES.train.includes(900)); // tram
+    assert.ok(TRANSIT_ROUTE_TYPES.bus.includes(700));
+    assert.ok(TRANSIT_ROUTE_TYPES.bus.includes(202)); // national coach
+    assert.ok(!TRANSIT_ROUTE_TYPES.bus.includes(1000)); // water transport
+  });
+});
+
+describe('activeServices', () => {
+  const weekdays: ServiceCalendar = {
+    feedId: 1,
+    serviceId: 'weekday',
+    monday: true,
+    tuesday: true,
+    wednesday: true,
+    thursday: true,
+    friday: true,
+    saturday: false,
+    sunday: false,
+    startDate: '20260101',
+    endDate: '20261231',
+  };
+
+  it('follows the weekly pattern within the date range', () => {
+    assert.deepEqual([...activeServices([weekdays], [], '2026-10-19')], ['1:weekday']);
+    assert.equal(activeServices([weekdays], [], '2026-10-18').size, 0);
+    assert.equal(activeServices([weekdays], [], '2027-01-04').size, 0);
+  });
+
+  it('applies added and removed days', () => {
+    const exceptions = [
+      { feedId: 1, serviceId: 'weekday', date: '20261225', exceptionType: 2 },
+      { feedId: 1, serviceId: 'holiday', date: '20261225', exceptionType: 1 },
+    ];
+    assert.deepEqual([...activeServices([weekdays], exceptions, '2026-12-25')], ['1:holiday']);
+    assert.deepEqual([...activeServices([weekdays], exceptions, '2026-12-24')], ['1:weekday']);
+  });
+
+  it('serves feeds that only have calendar_dates.txt', () => {
+    const exceptions = [{ feedId: 2, serviceId: 'S1', date: '20261019', exceptionType: 1 }];
+    assert.deepEqual([...activeServices([], exceptions, '2026-10-19')], ['2:S1']);
+  });
+});
@@ -0,0 +1,147 @@
+// Helpers for reading GTFS text files (RFC 4180 CSV with a header row)
+
+export type GtfsRecord = Record<string, string>;
+
+export function parseCsv(text: string): GtfsRecord[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark, which many feeds include
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((value) => value.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim());
+  return records.map((values) => {
+    const record: GtfsRecord = {};
+    columns.forEach((column, index) => {
+      record[column] = (values[index] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+// "HH:MM:SS" (hours may exceed 23) to seconds after midnight
+export function parseGtfsTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseInt(match[3] || '0');
+}
+
+// "YYYY-MM-DD" to the "YYYYMMDD" format used by calendar.txt
+export function toGtfsDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+// The service day before an ISO date. Its trips run into the travel date
+// with times past 24:00.
+export function previousServiceDay(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// GTFS route_type values served by each app transport mode: the basic types
+// and the extended (Hierarchical Vehicle Type) codes many feeds use instead
+export const TRANSIT_ROUTE_TYPES: Record<'bus' | 'train', number[]> = {
+  // bus, trolleybus; coach, bus, trolleybus
+  bus: [3, 11, ...range(200, 209), ...range(700, 716), 800],
+  // tram, subway, rail, monorail; railway, urban railway, tram
+  train: [0, 1, 2, 12, ...range(100, 117), ...range(400, 405), ...range(900, 906)],
+};
+
+// route_type is required; a missing or malformed value is read as a bus.
+// 0 is a tram, so this cannot fall back on falsiness.
+export function parseRouteType(value: string | undefined): number {
+  const routeType = parseInt(value ?? '');
+  return isNaN(routeType) ? 3 : routeType;
+}
+
+export const serviceKey = (feedId: number, serviceId: string) => `${feedId}:${serviceId}`;
+
+// A calendar.txt row
+export interface ServiceCalendar {
+  feedId: number;
+  serviceId: string;
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+  startDate: string;
+  endDate: string;
+}
+
+// A calendar_dates.txt row: exception type 1 adds service on the date, 2 removes it
+export interface ServiceException {
+  feedId: number;
+  serviceId: string;
+  date: string;
+  exceptionType: number;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// Services (keyed per feed) running on a "YYYY-MM-DD" date: the weekly pattern
+// of calendar.txt within its date range, then the exceptions for that date.
+// Feeds may describe their service with calendar_dates.txt alone.
+export function activeServices(calendar: ServiceCalendar[], exceptions: ServiceException[], isoDate: string): Set<string> {
+  const date = toGtfsDate(isoDate);
+  const weekday = WEEKDAYS[new Date(`${isoDate}T00:00:00Z`).getUTCDay()];
+
+  const services = new Set(
+    calendar
+      .filter((row) => row.startDate <= date && row.endDate >= date && row[weekday])
+      .map((row) => serviceKey(row.feedId, row.serviceId))
+  );
+  for (const exception of exceptions) {
+    if (exception.date !== date) continue;
+    const key = serviceKey(exception.feedId, exception.serviceId);
+    if (exception.exceptionType === 1) services.add(key);
+    if (exception.exceptionType === 2) services.delete(key);
+  }
+  return services;
+}
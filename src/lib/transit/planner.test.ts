@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { LatLng } from '@/lib/routing/types';
+
+// The planner reads the timetable through the app database; point it at a
+// scratch file before loading it
+let scratch: string;
+let planTransitJourney: typeof import('@/lib/transit/planner').planTransitJourney;
+
+const ALPHA: LatLng = [52.0, 4.0];
+const BETA: LatLng = [52.05, 4.0];
+
+// A night bus of Monday's service that runs past midnight, and two Tuesday
+// morning buses
+const FEED = {
+  'stops.txt': 'stop_id,stop_name,stop_lat,stop_lon\nA,Alpha,52.0,4.0\nB,Beta,52.05,4.0\n',
+  'routes.txt': 'route_id,route_short_name,route_long_name,route_type\nR1,1,Line One,3\n',
+  'trips.txt': 'route_id,service_id,trip_id\nR1,MON,night\nR1,TUE,early\nR1,TUE,late\n',
+  'stop_times.txt': [
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    'night,24:20:00,24:20:00,A,1',
+    'night,24:40:00,24:40:00,B,2',
+    'early,07:00:00,07:00:00,A,1',
+    'early,07:20:00,07:20:00,B,2',
+    'late,07:30:00,07:30:00,A,1',
+    'late,07:50:00,07:50:00,B,2',
+    '',
+  ].join('\n'),
+  'calendar_dates.txt': 'service_id,date,exception_type\nMON,20261019,1\nTUE,20261020,1\n',
+};
+
+const plan = (travelDate: string, travelTime: string, timeMode: 'depart_at' | 'arrive_by' = 'depart_at') =>
+  planTransitJourney({ origin: ALPHA, destination: BETA, mode: 'bus', travelDate, travelTime, timeMode });
+
+const clock = (seconds: number) => new Date(seconds * 1000).toISOString().slice(11, 16);
+
+describe('planTransitJourney', () => {
+  before(async () => {
+    scratch = await mkdtemp(path.join(tmpdir(), 'transit-planner-'));
+    process.env.TURSO_CONNECTION_URL = `file:${path.join(scratch, 'test.db')}`;
+    const { db } = await import('@/db');
+    const { migrate } = await import('drizzle-orm/libsql/migrator');
+    await migrate(db, { migrationsFolder: 'drizzle' });
+
+    const feed = path.join(scratch, 'feed');
+    await mkdir(feed);
+    await Promise.all(Object.entries(FEED).map(([file, text]) => writeFile(path.join(feed, file), text)));
+    const { importGtfsFeed } = await import('@/lib/transit/gtfs-import');
+    await importGtfsFeed(feed, 'city');
+
+    ({ planTransitJourney } = await import('@/lib/transit/planner'));
+  });
+
+  after(async () => {
+    await rm(scratch, { recursive: true, force: true });
+  });
+
+  it('takes the first bus after the requested departure', async () => {
+    const journey = await plan('2026-10-20', '06:00');
+    assert.ok(journey);
+    assert.equal(clock(journey.arrivalTime), '07:20');
+    assert.equal(journey.transfers, 0);
+  });
+
+  it('catches the previous service day running past midnight', async () => {
+    const journey = await plan('2026-10-20', '00:10');
+    assert.ok(journey);
+    assert.equal(clock(journey.legs[0].departureTime), '00:20');
+    assert.equal(clock(journey.arrivalTime), '00:40');
+  });
+
+  it('leaves as late as possible to arrive in time', async () => {
+    const journey = await plan('2026-10-20', '08:00', 'arrive_by');
+    assert.ok(journey);
+    assert.equal(clock(journey.legs[0].departureTime), '07:30');
+    assert.equal(clock(journey.arrivalTime), '07:50');
+
+    const earlier = await plan('2026-10-20', '07:45', 'arrive_by');
+    assert.equal(clock(earlier!.arrivalTime), '07:20');
+  });
+
+  it('finds nothing on days without service', async () => {
+    assert.equal(await plan('2026-10-19', '06:00'), null);
+    assert.equal(await plan('2026-10-21', '00:10'), null);
+  });
+});
@@ -0,0 +1,485 @@
+import { and, between, eq, gte, inArray, lte, or } from 'drizzle-orm';
+import { db } from '@/db';
+import { gtfsCalendar, gtfsCalendarDates, gtfsRoutes, gtfsStops, gtfsStopTimes, gtfsTrips } from '@/db/schema';
+import type { LatLng, Maneuver, RouteInstruction, TimeMode, TransportMode } from '@/lib/routing/types';
+import { renderManeuver } from '@/lib/routing/instructions';
+import { latestDeparture } from '@/lib/routing/schedule';
+import { calculateDistance } from '@/lib/routing/geo';
+import { connectionScan, type Connection, type Footpath } from '@/lib/transit/csa';
+import { activeServices, parseGtfsTime, previousServiceDay, serviceKey, toGtfsDate, TRANSIT_ROUTE_TYPES } from '@/lib/transit/gtfs';
+
+const WALKING_SPEED_MS = 1.3;
+// Straight-line distances underestimate real walking paths
+const WALK_DETOUR_FACTOR = 1.2;
+const MAX_TRANSFER_WALK_METERS = 300;
+const MIN_TRANSFER_SECONDS = 120;
+// How far past the requested departure the timetable is searched
+const SEARCH_HORIZON_SECONDS = 6 * 3600;
+const DAY_SECONDS = 24 * 3600;
+const QUERY_CHUNK_SIZE = 500;
+
+// How travelers reach the first stop: on foot, by (shared) bike, or dropped
+// off / parking by car. The last stop to the destination is always walked.
+export type TransitAccessMode = 'walking' | 'cycling' | 'car';
+
+const ACCESS_MODES: Record<TransitAccessMode, { leg: TransitLeg['type']; speed: number; detour: number; maxMeters: number }> = {
+  walking: { leg: 'walk', speed: WALKING_SPEED_MS, detour: WALK_DETOUR_FACTOR, maxMeters: 1000 },
+  cycling: { leg: 'cycle', speed: 4.2, detour: 1.25, maxMeters: 4000 },
+  car: { leg: 'drive', speed: 8.3, detour: 1.3, maxMeters: 15000 },
+};
+
+export interface TransitStopRef {
+  name: string;
+  coordinates: LatLng;
+}
+
+export interface TransitLine {
+  shortName: string | null;
+  longName: string | null;
+  routeType: number;
+  headsign: string | null;
+}
+
+export interface TransitLeg {
+  type: 'walk' | 'cycle' | 'drive' | 'transit';
+  from: TransitStopRef;
+  to: TransitStopRef;
+  departureTime: number; // seconds after midnight of the travel date
+  arrivalTime: number;
+  distance: number; // meters
+  coordinates: LatLng[];
+  line?: TransitLine;
+  intermediateStops?: number;
+  // Time spent waiting at the boarding stop before this leg departs
+  transferTime?: number;
+}
+
+export interface TransitItinerary {
+  departureTime: number;
+  arrivalTime: number;
+  duration: number;
+  transfers: number;
+  legs: TransitLeg[];
+}
+
+interface PlanRequest {
+  origin: LatLng;
+  destination: LatLng;
+  mode: 'bus' | 'train';
+  travelDate: string; // YYYY-MM-DD
+  travelTime: string; // HH:MM
+  accessMode?: TransitAccessMode;
+  // Whether travelTime is the departure (default) or the latest arrival
+  timeMode?: TimeMode;
+  // Longest walk in meters for any walking leg, replacing the default radius
+  maxWalkingDistance?: number;
+}
+
+interface StopInfo {
+  key: string;
+  name: string;
+  coordinates: LatLng;
+}
+
+// Everything a search needs, loaded once per request
+interface Timetable {
+  connections: Connection[];
+  lines: Map<string, TransitLine>;
+  stops: Map<string, StopInfo>;
+  footpaths: Map<string, Footpath[]>;
+  access: Map<string, number>;
+  egress: Map<string, number>;
+}
+
+const stopKey = (feedId: number, stopId: string) => `${feedId}:${stopId}`;
+
+function walkDuration(meters: number, accessMode: TransitAccessMode = 'walking'): number {
+  const { speed, detour } = ACCESS_MODES[accessMode];
+  return (meters * detour) / speed;
+}
+
+// Degrees of latitude/longitude covering `meters` around a point
+function boundingBox([lat, lon]: LatLng, meters: number) {
+  const dLat = meters / 111320;
+  const dLon = meters / (111320 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+  return { minLat: lat - dLat, maxLat: lat + dLat, minLon: lon - dLon, maxLon: lon + dLon };
+}
+
+async function findStopsNear(point: LatLng, radiusMeters: number): Promise<Map<string, { stop: StopInfo; meters: number }>> {
+  const box = boundingBox(point, radiusMeters);
+  const rows = await db.select()
+    .from(gtfsStops)
+    .where(
+      and(
+        between(gtfsStops.lat, box.minLat, box.maxLat),
+        between(gtfsStops.lon, box.minLon, box.maxLon)
+      )
+    );
+
+  const nearby = new Map<string, { stop: StopInfo; meters: number }>();
+  for (const row of rows) {
+    const coordinates: LatLng = [row.lat, row.lon];
+    const meters = calculateDistance(point, coordinates) * 1000;
+    if (meters <= radiusMeters) {
+      const key = stopKey(row.feedId, row.stopId);
+      nearby.set(key, { stop: { key, name: row.name, coordinates }, meters });
+    }
+  }
+  return nearby;
+}
+
+// Service IDs (per feed) running on the given date
+async function findActiveServices(travelDate: string): Promise<Set<string>> {
+  const date = toGtfsDate(travelDate);
+  const [calendar, exceptions] = await Promise.all([
+    db.select()
+      .from(gtfsCalendar)
+      .where(and(lte(gtfsCalendar.startDate, date), gte(gtfsCalendar.endDate, date))),
+    db.select()
+      .from(gtfsCalendarDates)
+      .where(eq(gtfsCalendarDates.date, date)),
+  ]);
+  return activeServices(calendar, exceptions, travelDate);
+}
+
+async function loadStops(keys: string[]): Promise<Map<string, StopInfo>> {
+  const byFeed = new Map<number, string[]>();
+  for (const key of keys) {
+    const separator = key.indexOf(':');
+    const feedId = parseInt(key.slice(0, separator));
+    if (!byFeed.has(feedId)) byFeed.set(feedId, []);
+    byFeed.get(feedId)!.push(key.slice(separator + 1));
+  }
+
+  const stops = new Map<string, StopInfo>();
+  for (const [feedId, stopIds] of byFeed) {
+    for (let i = 0; i < stopIds.length; i += QUERY_CHUNK_SIZE) {
+      const rows = await db.select()
+        .from(gtfsStops)
+        .where(and(eq(gtfsStops.feedId, feedId), inArray(gtfsStops.stopId, stopIds.slice(i, i + QUERY_CHUNK_SIZE))));
+      for (const row of rows) {
+        const key = stopKey(row.feedId, row.stopId);
+        stops.set(key, { key, name: row.name, coordinates: [row.lat, row.lon] });
+      }
+    }
+  }
+  return stops;
+}
+
+// Footpaths between stops within transfer walking distance, using a coarse grid
+function buildFootpaths(stops: Map<string, StopInfo>, maxMeters: number): Map<string, Footpath[]> {
+  const cellSize = 0.005; // ~500 m of latitude
+  const cellOf = ([lat, lon]: LatLng) => `${Math.floor(lat / cellSize)}:${Math.floor(lon / cellSize)}`;
+  const grid = new Map<string, StopInfo[]>();
+  for (const stop of stops.values()) {
+    const cell = cellOf(stop.coordinates);
+    if (!grid.has(cell)) grid.set(cell, []);
+    grid.get(cell)!.push(stop);
+  }
+
+  const footpaths = new Map<string, Footpath[]>();
+  for (const stop of stops.values()) {
+    const [row, col] = cellOf(stop.coordinates).split(':').map(Number);
+    const paths: Footpath[] = [];
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -1; dCol <= 1; dCol++) {
+        for (const other of grid.get(`${row + dRow}:${col + dCol}`) || []) {
+          if (other.key === stop.key) continue;
+          const meters = calculateDistance(stop.coordinates, other.coordinates) * 1000;
+          if (meters <= maxMeters) {
+            paths.push({ to: other.key, duration: walkDuration(meters) });
+          }
+        }
+      }
+    }
+    footpaths.set(stop.key, paths);
+  }
+  return footpaths;
+}
+
+function walkLeg(
+  from: TransitStopRef,
+  to: TransitStopRef,
+  departureTime: number,
+  accessMode: TransitAccessMode = 'walking'
+): TransitLeg {
+  const distance = calculateDistance(from.coordinates, to.coordinates) * 1000;
+  const duration = walkDuration(distance, accessMode);
+  return {
+    type: ACCESS_MODES[accessMode].leg,
+    from,
+    to,
+    departureTime,
+    arrivalTime: departureTime + duration,
+    distance: distance * ACCESS_MODES[accessMode].detour,
+    coordinates: [from.coordinates, to.coordinates],
+  };
+}
+
+// Plan a public transit journey for the requested time: the earliest arrival
+// when departing then, or the latest departure that still arrives by then
+export async function planTransitJourney(request: PlanRequest): Promise<TransitItinerary | null> {
+  const time = parseGtfsTime(request.travelTime);
+  if (time === null) return null;
+
+  if (request.timeMode !== 'arrive_by') {
+    const timetable = await loadTimetable(request, time, time + SEARCH_HORIZON_SECONDS);
+    return timetable && searchTimetable(timetable, request, time);
+  }
+
+  // Departures are searched on the travel date only, up to the search horizon
+  // before the arrival time, in one timetable shared by every probe
+  const earliest = Math.max(0, time - SEARCH_HORIZON_SECONDS);
+  const timetable = await loadTimetable(request, earliest, time);
+  if (!timetable) return null;
+  return latestDeparture(earliest, time, async (departure) => searchTimetable(timetable, request, departure));
+}
+
+// Connections departing between `from` and `to` seconds after midnight of
+// the travel date, with the stops around them. Trips of the previous service
+// day still running past 24:00 are included, shifted onto the travel date.
+async function loadTimetable(request: PlanRequest, from: number, to: number): Promise<Timetable | null> {
+  const accessMode = request.accessMode || 'walking';
+
+  // Search radii are straight-line; walked distances include the detour
+  const walkLimit = request.maxWalkingDistance !== undefined ? request.maxWalkingDistance / WALK_DETOUR_FACTOR : null;
+  const walkRadius = walkLimit ?? ACCESS_MODES.walking.maxMeters;
+  const accessRadius = accessMode === 'walking' ? walkRadius : ACCESS_MODES[accessMode].maxMeters;
+  const transferRadius = Math.min(MAX_TRANSFER_WALK_METERS, walkLimit ?? Infinity);
+
+  const [accessStops, egressStops, services, previousServices] = await Promise.all([
+    findStopsNear(request.origin, accessRadius),
+    findStopsNear(request.destination, walkRadius),
+    findActiveServices(request.travelDate),
+    findActiveServices(previousServiceDay(request.travelDate)),
+  ]);
+
+  if (accessStops.size === 0 || egressStops.size === 0 || (services.size === 0 && previousServices.size === 0)) {
+    return null;
+  }
+
+  const rows = await db.select({
+    feedId: gtfsStopTimes.feedId,
+    tripId: gtfsStopTimes.tripId,
+    stopId: gtfsStopTimes.stopId,
+    stopSequence: gtfsStopTimes.stopSequence,
+    arrivalTime: gtfsStopTimes.arrivalTime,
+    departureTime: gtfsStopTimes.departureTime,
+    serviceId: gtfsTrips.serviceId,
+    headsign: gtfsTrips.headsign,
+    shortName: gtfsRoutes.shortName,
+    longName: gtfsRoutes.longName,
+    routeType: gtfsRoutes.routeType,
+  })
+    .from(gtfsStopTimes)
+    .innerJoin(gtfsTrips, and(eq(gtfsTrips.feedId, gtfsStopTimes.feedId), eq(gtfsTrips.tripId, gtfsStopTimes.tripId)))
+    .innerJoin(gtfsRoutes, and(eq(gtfsRoutes.feedId, gtfsTrips.feedId), eq(gtfsRoutes.routeId, gtfsTrips.routeId)))
+    .where(
+      and(
+        or(
+          between(gtfsStopTimes.departureTime, from, to),
+          between(gtfsStopTimes.departureTime, from + DAY_SECONDS, to + DAY_SECONDS)
+        ),
+        inArray(gtfsRoutes.routeType, TRANSIT_ROUTE_TYPES[request.mode])
+      )
+    );
+
+  // Group stop times by trip and turn consecutive stops into connections. The
+  // windows never overlap, as the horizon is shorter than a day.
+  const byTrip = new Map<string, typeof rows>();
+  const lines = new Map<string, TransitLine>();
+  for (const row of rows) {
+    const previousDay = row.departureTime > to;
+    const running = previousDay ? previousServices : services;
+    if (!running.has(serviceKey(row.feedId, row.serviceId))) continue;
+    const tripKey = `${row.feedId}:${row.tripId}${previousDay ? ':previous' : ''}`;
+    const shift = previousDay ? DAY_SECONDS : 0;
+    if (!byTrip.has(tripKey)) byTrip.set(tripKey, []);
+    byTrip.get(tripKey)!.push({ ...row, arrivalTime: row.arrivalTime - shift, departureTime: row.departureTime - shift });
+    if (!lines.has(tripKey)) {
+      lines.set(tripKey, {
+        shortName: row.shortName,
+        longName: row.longName,
+        routeType: row.routeType,
+        headsign: row.headsign,
+      });
+    }
+  }
+
+  const connections: Connection[] = [];
+  for (const [tripKey, stopTimes] of byTrip) {
+    stopTimes.sort((a, b) => a.stopSequence - b.stopSequence);
+    for (let i = 1; i < stopTimes.length; i++) {
+      connections.push({
+        tripKey,
+        departureStop: stopKey(stopTimes[i - 1].feedId, stopTimes[i - 1].stopId),
+        arrivalStop: stopKey(stopTimes[i].feedId, stopTimes[i].stopId),
+        departureTime: stopTimes[i - 1].departureTime,
+        arrivalTime: stopTimes[i].arrivalTime,
+      });
+    }
+  }
+  connections.sort((a, b) => a.departureTime - b.departureTime);
+
+  const stopKeys = new Set<string>([...accessStops.keys(), ...egressStops.keys()]);
+  for (const connection of connections) {
+    stopKeys.add(connection.departureStop);
+    stopKeys.add(connection.arrivalStop);
+  }
+  const stops = await loadStops([...stopKeys]);
+
+  return {
+    connections,
+    lines,
+    stops,
+    footpaths: buildFootpaths(stops, transferRadius),
+    access: new Map([...accessStops].map(([key, { meters }]) => [key, walkDuration(meters, accessMode)])),
+    egress: new Map([...egressStops].map(([key, { meters }]) => [key, walkDuration(meters)])),
+  };
+}
+
+// Earliest-arriving journey departing at `departureTime` over a loaded timetable
+function searchTimetable(timetable: Timetable, request: PlanRequest, departureTime: number): TransitItinerary | null {
+  const accessMode = request.accessMode || 'walking';
+  const { stops, lines } = timetable;
+
+  const result = connectionScan({
+    connections: timetable.connections,
+    footpaths: timetable.footpaths,
+    access: timetable.access,
+    egress: timetable.egress,
+    departureTime,
+    minTransferTime: MIN_TRANSFER_SECONDS,
+  });
+
+  if (!result) return null;
+
+  const originRef: TransitStopRef = { name: 'Origin', coordinates: request.origin };
+  const destinationRef: TransitStopRef = { name: 'Destination', coordinates: request.destination };
+
+  const refOf = (key: string): TransitStopRef => {
+    const stop = stops.get(key);
+    return stop ? { name: stop.name, coordinates: stop.coordinates } : { name: key, coordinates: request.origin };
+  };
+
+  const legs: TransitLeg[] = [];
+  let clock = departureTime;
+
+  for (const step of result.steps) {
+    if (step.kind === 'access') {
+      const leg = walkLeg(originRef, refOf(step.stop), clock, accessMode);
+      legs.push(leg);
+      clock = leg.arrivalTime;
+    } else if (step.kind === 'walk') {
+      const leg = walkLeg(refOf(step.from), refOf(step.to), clock);
+      legs.push(leg);
+      clock = leg.arrivalTime;
+    } else if (step.kind === 'egress') {
+      legs.push(walkLeg(refOf(step.stop), destinationRef, clock));
+    } else {
+      const coordinates = [
+        refOf(step.board.departureStop).coordinates,
+        ...step.connections.map((connection) => refOf(connection.arrivalStop).coordinates),
+      ];
+      const distance = coordinates
+        .slice(1)
+        .reduce((sum, point, index) => sum + calculateDistance(coordinates[index], point) * 1000, 0);
+
+      legs.push({
+        type: 'transit',
+        from: refOf(step.board.departureStop),
+        to: refOf(step.alight.arrivalStop),
+        departureTime: step.board.departureTime,
+        arrivalTime: step.alight.arrivalTime,
+        distance,
+        coordinates,
+        line: lines.get(step.board.tripKey),
+        intermediateStops: step.connections.length - 1,
+        transferTime: Math.max(0, step.board.departureTime - clock),
+      });
+      clock = step.alight.arrivalTime;
+    }
+  }
+
+  // Drop zero-length walks (origin exactly at a stop)
+  const meaningfulLegs = legs.filter((leg) => leg.type === 'transit' || leg.distance > 1);
+  const arrivalTime = legs[legs.length - 1].arrivalTime;
+
+  return {
+    departureTime,
+    arrivalTime,
+    duration: arrivalTime - departureTime,
+    transfers: Math.max(0, meaningfulLegs.filter((leg) => leg.type === 'transit').length - 1),
+    legs: meaningfulLegs,
+  };
+}
+
+export function isTransitMode(mode: string): mode is 'bus' | 'train' {
+  return mode === 'bus' || mode === 'train';
+}
+
+// Mode a leg is travelled in, for pricing and emissions
+export function transitLegMode(leg: TransitLeg, mode: 'bus' | 'train'): TransportMode {
+  switch (leg.type) {
+    case 'transit':
+      return mode;
+    case 'cycle':
+      return 'cycling';
+    case 'drive':
+      return 'car';
+    case 'walk':
+    default:
+      return 'walking';
+  }
+}
+
+// Full itinerary geometry, leg after leg
+export function transitGeometry(itinerary: TransitItinerary): LatLng[] {
+  return itinerary.legs.flatMap((leg, index) => (index === 0 ? leg.coordinates : leg.coordinates.slice(1)));
+}
+
+export function transitDistance(itinerary: TransitItinerary): number {
+  return itinerary.legs.reduce((sum, leg) => sum + leg.distance, 0);
+}
+
+function boardManeuver(leg: TransitLeg): Maneuver {
+  const line = leg.line;
+  return {
+    type: 'board',
+    from: leg.from.name,
+    line: line?.shortName || line?.longName || undefined,
+    vehicle: line && TRANSIT_ROUTE_TYPES.bus.includes(line.routeType) ? 'bus' : 'train',
+    headsign: line?.headsign || undefined,
+  };
+}
+
+// Turn-by-turn style instructions for each leg of an itinerary
+export function describeTransitLegs(itinerary: TransitItinerary): RouteInstruction[] {
+  return itinerary.legs.flatMap((leg): RouteInstruction[] => {
+    const duration = leg.arrivalTime - leg.departureTime;
+    if (leg.type !== 'transit') {
+      const maneuver: Maneuver = { type: leg.type, to: leg.to.name };
+      return [{ distance: leg.distance, duration, instruction: renderManeuver(maneuver), name: leg.to.name, type: leg.type, maneuver }];
+    }
+    const board = boardManeuver(leg);
+    const alight: Maneuver = { type: 'alight', to: leg.to.name, stops: (leg.intermediateStops ?? 0) + 1 };
+    return [
+      {
+        distance: 0,
+        duration: leg.transferTime ?? 0,
+        instruction: renderManeuver(board),
+        name: leg.from.name,
+        type: 'board',
+        maneuver: board,
+      },
+      {
+        distance: leg.distance,
+        duration,
+        instruction: renderManeuver(alight),
+        name: leg.to.name,
+        type: 'alight',
+        maneuver: alight,
+      },
+    ];
+  });
+}
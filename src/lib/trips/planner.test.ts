@@ -0,0 +1,61 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { TripRouteRequest } from '@/lib/trips/planner';
+import { createFixtureRouter } from '@/lib/routing/providers/fixture';
+
+// The transit planner it can hand off to opens the app database; point it at a
+// scratch file before loading it
+let scratch: string;
+let planTripRoute: typeof import('@/lib/trips/planner').planTripRoute;
+
+const router = createFixtureRouter();
+
+// A Sunday walk, out of reach of traffic
+const request: TripRouteRequest = {
+  origin: [52.0, 4.0],
+  destination: [52.0, 4.1],
+  transportMode: 'walking',
+  optimizationMode: 'fastest',
+  travelDate: '2026-10-18',
+  travelTime: '09:00',
+  timeMode: 'depart_at',
+  preferences: {},
+  names: { origin: 'Home', destination: 'Market' },
+};
+
+describe('planTripRoute', () => {
+  before(async () => {
+    scratch = await mkdtemp(path.join(tmpdir(), 'trip-planner-'));
+    process.env.TURSO_CONNECTION_URL = `file:${path.join(scratch, 'test.db')}`;
+    ({ planTripRoute } = await import('@/lib/trips/planner'));
+  });
+
+  after(async () => {
+    await rm(scratch, { recursive: true, force: true });
+  });
+
+  it('plans the route data the trip pages show alongside the geometry', async () => {
+    const plan = await planTripRoute(request, router);
+    const routeData = plan.routeData!;
+    assert.ok(routeData);
+    assert.equal(plan.geometry, routeData.coordinates);
+    assert.equal(plan.co2Kg, routeData.co2Kg);
+    assert.ok(routeData.distance > 0 && routeData.duration > 0);
+    assert.equal(routeData.cost, routeData.costBreakdown.total);
+    assert.equal(routeData.mode, 'walking');
+  });
+
+  it('schedules the trip from its own date, time and names', async () => {
+    const { schedule } = (await planTripRoute(request, router)).routeData!;
+    assert.equal(schedule?.departure, '2026-10-18T09:00');
+    assert.deepEqual(schedule?.stops.map((stop) => stop.name), ['Home', 'Market']);
+
+    const arriving = (await planTripRoute({ ...request, travelTime: '18:00', timeMode: 'arrive_by' }, router)).routeData!;
+    assert.equal(arriving.schedule?.timeMode, 'arrive_by');
+    assert.ok(arriving.schedule!.arrival <= '2026-10-18T18:00');
+    assert.ok(arriving.schedule!.arrival >= '2026-10-18T17:59', arriving.schedule!.arrival);
+  });
+});
@@ -0,0 +1,233 @@
+import type {
+  LatLng,
+  OptimizationMode,
+  RouteInstruction,
+  RoutePreferences,
+  Router,
+  TimeMode,
+  TransportMode,
+} from '@/lib/routing/types';
+import { rankRoutes, routeCandidates, ROUTE_ALTERNATIVES } from '@/lib/routing/route-service';
+import { filterCompliantRoutes } from '@/lib/routing/preferences';
+import { buildSchedule, localMidnight, scheduleLegs, type TimedLeg, type TripSchedule } from '@/lib/routing/schedule';
+import {
+  describeTransitLegs,
+  isTransitMode,
+  planTransitJourney,
+  transitDistance,
+  transitGeometry,
+  transitLegMode,
+} from '@/lib/transit/planner';
+import { flightGeometry, planFlightJourney } from '@/lib/flight/planner';
+import { multimodalGeometry, planMultimodalJourney } from '@/lib/multimodal/planner';
+import { estimateEmissions } from '@/lib/emissions/model';
+import { estimateCost, type CostBreakdown } from '@/lib/cost/model';
+import { getElevationSource } from '@/lib/elevation';
+import { ELEVATION_MODES, elevationProfile, type ElevationProfile } from '@/lib/elevation/profile';
+
+export interface TripRouteRequest {
+  origin: LatLng;
+  destination: LatLng;
+  transportMode: string;
+  optimizationMode: string;
+  travelDate: string;
+  travelTime: string;
+  timeMode: TimeMode;
+  preferences: RoutePreferences;
+  // Trip's own names for its ends, shown in the schedule
+  names: { origin: string; destination: string };
+}
+
+// The route as a trip's routeData entry, for the trip and navigation pages
+export interface TripRouteData {
+  coordinates: LatLng[];
+  distance: number;
+  duration: number;
+  cost: number;
+  costBreakdown: CostBreakdown;
+  co2Kg: number;
+  mode: string;
+  optimizationMode: string;
+  instructions: RouteInstruction[];
+  schedule: TripSchedule | null;
+  elevation?: ElevationProfile;
+}
+
+// What a trip stores about the route it was planned with
+export interface TripRoute {
+  geometry: LatLng[] | null;
+  co2Kg: number | null;
+  // IATA codes, for flights
+  originAirport: string | null;
+  destinationAirport: string | null;
+  routeData: TripRouteData | null;
+}
+
+// Timetabled legs are timed from midnight of the travel date
+function timetableSchedule(request: TripRouteRequest, legs: TimedLeg[]): TripSchedule | null {
+  const midnight = localMidnight(request.travelDate);
+  if (midnight === null) return null;
+  return buildSchedule(
+    request.timeMode,
+    legs.map((leg) => ({ ...leg, departureTime: midnight + leg.departureTime, arrivalTime: midnight + leg.arrivalTime })),
+    request.names
+  );
+}
+
+// Geometry and emissions are kept on the trip itself as well
+function planned(routeData: TripRouteData, airports: Partial<TripRoute> = {}): TripRoute {
+  return {
+    geometry: routeData.coordinates,
+    co2Kg: routeData.co2Kg,
+    originAirport: null,
+    destinationAirport: null,
+    ...airports,
+    routeData,
+  };
+}
+
+// Plans the route a trip is saved with, by the planner for its mode. The
+// geometry and route data are null when nothing could be planned.
+export async function planTripRoute(request: TripRouteRequest, router: Router): Promise<TripRoute> {
+  const { origin, destination, travelDate, travelTime, timeMode, preferences, names } = request;
+  const mode = request.transportMode as TransportMode;
+  const optimizationMode = request.optimizationMode;
+  const nothing: TripRoute = { geometry: null, co2Kg: null, originAirport: null, destinationAirport: null, routeData: null };
+
+  // Bus and train trips follow the timetable, not the road network
+  if (isTransitMode(mode)) {
+    const itinerary = await planTransitJourney({
+      origin,
+      destination,
+      mode,
+      travelDate,
+      travelTime,
+      timeMode,
+      maxWalkingDistance: preferences.maxWalkingDistance,
+    });
+    if (!itinerary) return nothing;
+
+    // Every ride is a separate boarding with its own fare
+    const segments = itinerary.legs.map((leg) => ({
+      mode: transitLegMode(leg, mode),
+      distance: leg.distance,
+      tollDistance: 0,
+    }));
+    const costBreakdown = estimateCost(segments, { origin });
+    return planned({
+      coordinates: transitGeometry(itinerary),
+      distance: transitDistance(itinerary),
+      duration: itinerary.duration,
+      cost: costBreakdown.total,
+      costBreakdown,
+      co2Kg: estimateEmissions(segments),
+      mode,
+      optimizationMode,
+      instructions: describeTransitLegs(itinerary),
+      schedule: timetableSchedule(request, itinerary.legs.map((leg) => ({
+        from: leg.from.name,
+        to: leg.to.name,
+        departureTime: leg.departureTime,
+        arrivalTime: leg.arrivalTime,
+      }))),
+    });
+  }
+
+  // Multimodal trips store the best-ranked combination of legs
+  if (request.transportMode === 'multimodal') {
+    const [best] = await planMultimodalJourney({
+      origin,
+      destination,
+      travelDate,
+      travelTime,
+      timeMode,
+      optimizationMode: optimizationMode as OptimizationMode,
+      preferences,
+    }, router);
+    if (!best) return nothing;
+
+    return planned({
+      coordinates: multimodalGeometry(best),
+      distance: best.distance,
+      duration: best.duration,
+      cost: best.cost,
+      costBreakdown: best.costBreakdown,
+      co2Kg: best.co2Kg,
+      mode: 'multimodal',
+      optimizationMode,
+      instructions: best.legs.flatMap((leg) => leg.instructions),
+      schedule: timetableSchedule(request, best.legs),
+    });
+  }
+
+  // Flights are stored by airport pair so they can be matched on shared airports
+  if (mode === 'flight') {
+    const itinerary = await planFlightJourney(origin, destination, router, preferences);
+    if (!itinerary) return nothing;
+
+    const segments = itinerary.legs.map((leg) => ({
+      mode: leg.type === 'air' ? ('flight' as const) : ('car' as const),
+      distance: leg.distance,
+      tollDistance: leg.tollDistance,
+    }));
+    const costBreakdown = estimateCost(segments, { origin });
+    return planned({
+      coordinates: flightGeometry(itinerary),
+      distance: itinerary.distance,
+      duration: itinerary.duration,
+      cost: costBreakdown.total,
+      costBreakdown,
+      co2Kg: estimateEmissions(segments),
+      mode,
+      optimizationMode,
+      instructions: itinerary.legs.flatMap((leg) => leg.instructions),
+      // Drives to and from the airports are subject to traffic
+      schedule: scheduleLegs(
+        itinerary.legs.map((leg, index) => ({ from: leg.from, to: leg.to, mode: segments[index].mode, duration: leg.duration })),
+        travelDate,
+        travelTime,
+        timeMode,
+        names
+      ),
+    }, {
+      originAirport: itinerary.originAirport.iata,
+      destinationAirport: itinerary.destinationAirport.iata,
+    });
+  }
+
+  const route = await router.route([origin, destination], mode, { alternatives: ROUTE_ALTERNATIVES, preferences });
+  if (!route) return nothing;
+
+  // Store the route the optimization mode selects
+  const [best] = rankRoutes(
+    filterCompliantRoutes(routeCandidates(route), mode, preferences),
+    mode,
+    optimizationMode as OptimizationMode
+  );
+  // Climbing slows cyclists and walkers
+  const elevationSource = getElevationSource();
+  const elevation = elevationSource && ELEVATION_MODES.includes(mode)
+    ? await elevationProfile(elevationSource, best.route.coordinates, mode)
+    : null;
+  const duration = best.route.duration + (elevation?.climbingTime ?? 0);
+
+  return planned({
+    coordinates: best.route.coordinates,
+    distance: best.route.distance,
+    duration,
+    cost: best.cost,
+    costBreakdown: best.costBreakdown,
+    co2Kg: estimateEmissions([{ mode, distance: best.route.distance }]),
+    mode,
+    optimizationMode,
+    instructions: best.route.instructions,
+    elevation: elevation ?? undefined,
+    schedule: scheduleLegs(
+      [{ from: names.origin, to: names.destination, mode, duration }],
+      travelDate,
+      travelTime,
+      timeMode,
+      names
+    ),
+  });
+}